@@ -0,0 +1,52 @@
+import express from "express";
+import cookieParser from 'cookie-parser';
+import cors from 'cors';
+import helmet from 'helmet';
+import morgan from 'morgan';
+import { corsOrigins, type Env } from "./config/env.js";
+import { configurePassport } from "./config/passportConfig.js";
+import { errorHandler, notFoundHandler } from './middlewares/error.middleware.js';
+import authRoutes from './routes/auth.js';
+import productRoutes from './routes/product.route.js';
+import watchlistRoutes from './routes/watchlist.route.js';
+import notificationRoutes from './routes/notification.route.js';
+import systemRoutes from './routes/system.route.js';
+import saleEventRoutes from './routes/saleEvent.route.js';
+import paymentMethodRoutes from './routes/paymentMethod.route.js';
+import workflowRunRoutes from './routes/workflowRun.route.js';
+import llmCacheRoutes from './routes/llmCache.route.js';
+import usageRoutes from './routes/usage.route.js';
+
+export type AppConfig = Pick<Env, 'NODE_ENV' | 'CLIENT_URL' | 'CORS_ORIGINS' | 'OAUTH_PROVIDER'>;
+
+// Builds the Express app without connecting to Mongo/Redis or listening,
+// so tests can drive it directly with supertest.
+export const createApp = (config: AppConfig) => {
+    const app = express();
+
+    app.set('trust proxy', 1);
+    app.use(helmet());
+    app.use(cors({ origin: corsOrigins(config), credentials: true }));
+    if (config.NODE_ENV !== 'test') {
+        app.use(morgan(config.NODE_ENV === 'production' ? 'combined' : 'dev'));
+    }
+    app.use(express.json({ limit: '1mb' }));
+    app.use(cookieParser());
+    app.use(configurePassport(config).initialize());
+
+    app.use('/api', systemRoutes);
+    app.use('/api/auth', authRoutes);
+    app.use('/api/products', productRoutes);
+    app.use('/api/watchlists', watchlistRoutes);
+    app.use('/api/notifications', notificationRoutes);
+    app.use('/api/sale-events', saleEventRoutes);
+    app.use('/api/payment-methods', paymentMethodRoutes);
+    app.use('/api/workflow-runs', workflowRunRoutes);
+    app.use('/api/llm-cache', llmCacheRoutes);
+    app.use('/api/usage', usageRoutes);
+
+    app.use(notFoundHandler);
+    app.use(errorHandler);
+
+    return app;
+};
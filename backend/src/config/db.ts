@@ -15,7 +15,7 @@ const connectDb = async(): Promise<void> => {
     }
 }
 
-mongoose.connection.on("disconnect", () => {
+mongoose.connection.on("disconnected", () => {
     console.log("connection disconnected");
 });
 
@@ -23,14 +23,4 @@ mongoose.connection.on("error", (error) => {
     console.log("there was an error with connection", error);
 });
 
-process.on('SIGINT', async () => {
-    try {
-        console.log("connection closed with mongo")
-        process.exit(0);
-    } catch (error) {
-        console.log("error while shutting down connection", error);
-        process.exit(1);
-    }
-})
-
 export default connectDb;
\ No newline at end of file
@@ -0,0 +1,50 @@
+import "dotenv/config";
+import { z } from "zod";
+
+const envSchema = z.object({
+    NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+    PORT: z.coerce.number().int().positive().default(5000),
+
+    MONGO_URI: z.string().min(1, 'MONGO_URI is required'),
+    REDIS_HOST: z.string().default('127.0.0.1'),
+    REDIS_PORT: z.coerce.number().int().positive().default(6379),
+    REDIS_PASSWORD: z.string().optional(),
+
+    JWT_SECRET: z.string().min(1, 'JWT_SECRET is required'),
+    JWT_ACCESS_SECRET: z.string().min(1, 'JWT_ACCESS_SECRET is required'),
+    JWT_REFRESH_SECRET: z.string().min(1, 'JWT_REFRESH_SECRET is required'),
+    JWT_EMAIL_SECRET: z.string().min(1, 'JWT_EMAIL_SECRET is required'),
+
+    CLIENT_URL: z.url().default('http://localhost:5173'),
+    // Comma separated list of extra origins allowed to call the API with credentials
+    CORS_ORIGINS: z.string().optional(),
+
+    LLM_PROVIDER: z.enum(['gemini', 'openai', 'mock']).default('gemini'),
+    GEMINI_API_KEY: z.string().optional(),
+
+    // "mock" signs in whoever the query string names, so it is for development and tests only
+    OAUTH_PROVIDER: z.enum(['google', 'mock']).default('google'),
+}).superRefine((env, ctx) => {
+    if (env.OAUTH_PROVIDER === 'mock' && env.NODE_ENV === 'production') {
+        ctx.addIssue({ code: 'custom', path: ['OAUTH_PROVIDER'], message: 'The mock OAuth provider cannot be used in production' });
+    }
+    if (env.LLM_PROVIDER === 'gemini' && !env.GEMINI_API_KEY) {
+        ctx.addIssue({ code: 'custom', path: ['GEMINI_API_KEY'], message: 'GEMINI_API_KEY is required when LLM_PROVIDER is gemini' });
+    }
+});
+
+export type Env = z.infer<typeof envSchema>;
+
+export const loadEnv = (source: NodeJS.ProcessEnv = process.env): Env => {
+    const result = envSchema.safeParse(source);
+    if (!result.success) {
+        const problems = result.error.issues.map(issue => `  - ${issue.path.join('.')}: ${issue.message}`).join('\n');
+        throw new Error(`Invalid environment configuration:\n${problems}`);
+    }
+    return result.data;
+};
+
+export const corsOrigins = (env: Pick<Env, 'CLIENT_URL' | 'CORS_ORIGINS'>): string[] => {
+    const extra = env.CORS_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean) ?? [];
+    return [env.CLIENT_URL, ...extra];
+};
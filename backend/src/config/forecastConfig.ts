@@ -0,0 +1,41 @@
+import "dotenv/config";
+
+export interface CategoryPrior {
+  // Typical log-price change during sale events, e.g. -0.08 is roughly 8% off
+  festivalEffect: number;
+  // Typical month-over-month drift, negative for products that depreciate
+  monthlyDrift: number;
+  // Standard deviation of day-to-day log-price changes
+  dailyVolatility: number;
+}
+
+const DEFAULT_PRIOR: CategoryPrior = { festivalEffect: -0.08, monthlyDrift: 0, dailyVolatility: 0.015 };
+
+export const FORECAST_CONFIG = {
+  // Daily history fed to the model
+  historyDays: 365,
+  // Level of the nextWeekRange / nextMonthRange prediction intervals
+  intervalLevel: 0.8,
+  // A trend is damped by this factor per day so it flattens out instead of running away
+  trendDamping: 0.98,
+  // Days of data the category prior is worth when blended with estimates from history
+  priorWeightDays: { festival: 14, trend: 30, volatility: 14 },
+  minDaysForWeekly: 21,
+
+  // Matched against the product category, first match wins
+  categoryPriors: [
+    { match: /phone|mobile|smartphone|tablet/i, prior: { festivalEffect: -0.07, monthlyDrift: -0.01, dailyVolatility: 0.012 } },
+    { match: /laptop|computer|monitor|notebook/i, prior: { festivalEffect: -0.12, monthlyDrift: -0.008, dailyVolatility: 0.012 } },
+    { match: /tv|television|camera|headphone|earbud|audio|speaker|watch|electronic/i, prior: { festivalEffect: -0.15, monthlyDrift: -0.005, dailyVolatility: 0.015 } },
+    { match: /appliance|kitchen|refrigerator|washing|air conditioner|home/i, prior: { festivalEffect: -0.15, monthlyDrift: -0.003, dailyVolatility: 0.015 } },
+    { match: /fashion|cloth|apparel|shoe|footwear|wear|shirt|dress|bag/i, prior: { festivalEffect: -0.3, monthlyDrift: 0, dailyVolatility: 0.03 } },
+    { match: /beauty|makeup|skin|cosmetic|fragrance|perfume|personal care/i, prior: { festivalEffect: -0.15, monthlyDrift: 0, dailyVolatility: 0.02 } },
+  ] as { match: RegExp; prior: CategoryPrior }[],
+
+  defaultPrior: DEFAULT_PRIOR,
+};
+
+export const priorForCategory = (category?: string): CategoryPrior => {
+  if (!category) return FORECAST_CONFIG.defaultPrior;
+  return FORECAST_CONFIG.categoryPriors.find(entry => entry.match.test(category))?.prior ?? FORECAST_CONFIG.defaultPrior;
+};
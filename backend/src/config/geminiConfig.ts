@@ -15,12 +15,6 @@ export const GEMINI_CONFIG = {
       thinkingBudget: 0, 
     },
   },
-
-  requestsPerMinute: 60,
-  requestsPerDay: 1000,
-  
-  maxRetries: 3,
-  retryDelay: 1000, 
 };
 
 export const validateGeminiConfig = (): boolean => {
@@ -59,78 +53,38 @@ export const getConfiguredAI = () => {
 };
 
 
+export interface StreamingResult {
+  text: string;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+// Single attempt; retries are added around the provider by `retryingProvider`
 export const makeStreamingRequest = async (
   ai: GoogleGenAI,
   model: string,
   config: any,
   contents: any[],
-  maxRetries: number = GEMINI_CONFIG.maxRetries
-): Promise<string> => {
-  let lastError;
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const response = await ai.models.generateContentStream({
-        model,
-        config,
-        contents,
-      });
-      
-      let fullText = '';
-      for await (const chunk of response) {
-        if (chunk.text) {
-          fullText += chunk.text;
-        }
-      }
-      
-      return fullText;
-    } catch (error) {
-      lastError = error;
-      console.warn(`Gemini streaming request attempt ${attempt} failed:`, error);
-      
-      if (attempt < maxRetries) {
-        const delay = GEMINI_CONFIG.retryDelay * Math.pow(2, attempt - 1);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-  }
+  signal?: AbortSignal
+): Promise<StreamingResult> => {
+  const response = await ai.models.generateContentStream({
+    model,
+    config: signal ? { ...config, abortSignal: signal } : config,
+    contents,
+  });
   
-  throw new Error(`Gemini streaming request failed after ${maxRetries} attempts: ${lastError}`);
-};
-class RateLimiter {
-  private requests: number = 0;
-  private dailyRequests: number = 0;
-  private lastReset: Date = new Date();
-  private dailyReset: Date = new Date();
-
-  canMakeRequest(): boolean {
-    const now = new Date();
-    
-    if (now.getTime() - this.lastReset.getTime() >= 60000) {
-      this.requests = 0;
-      this.lastReset = now;
+  let fullText = '';
+  let usage: StreamingResult['usage'];
+  for await (const chunk of response) {
+    if (chunk.text) {
+      fullText += chunk.text;
     }
-    
-    if (now.getDate() !== this.dailyReset.getDate()) {
-      this.dailyRequests = 0;
-      this.dailyReset = now;
+    if (chunk.usageMetadata) {
+      usage = {
+        inputTokens: chunk.usageMetadata.promptTokenCount ?? 0,
+        outputTokens: chunk.usageMetadata.candidatesTokenCount ?? 0,
+      };
     }
-    
-    return this.requests < GEMINI_CONFIG.requestsPerMinute && 
-           this.dailyRequests < GEMINI_CONFIG.requestsPerDay;
-  }
-  
-  recordRequest(): void {
-    this.requests++;
-    this.dailyRequests++;
   }
   
-  getRemainingRequests(): { perMinute: number; perDay: number } {
-    return {
-      perMinute: Math.max(0, GEMINI_CONFIG.requestsPerMinute - this.requests),
-      perDay: Math.max(0, GEMINI_CONFIG.requestsPerDay - this.dailyRequests)
-    };
-  }
-}
-
-export const rateLimiter = new RateLimiter();
\ No newline at end of file
+  return usage ? { text: fullText, usage } : { text: fullText };
+};
@@ -0,0 +1,65 @@
+import "dotenv/config";
+import type { LLMFeature } from "../services/llm/llmProvider.js";
+
+export type LLMProviderName = 'gemini' | 'openai' | 'mock';
+
+const providerFromEnv = (value: string | undefined, fallback: LLMProviderName): LLMProviderName => {
+  return value === 'gemini' || value === 'openai' || value === 'mock' ? value : fallback;
+};
+
+export const LLM_CONFIG = {
+  provider: providerFromEnv(process.env.LLM_PROVIDER, 'gemini'),
+
+  // Any server that speaks the OpenAI chat completions API: OpenAI, Ollama, LM Studio, vLLM...
+  openai: {
+    baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.OPENAI_API_KEY || '',
+    model: process.env.OPENAI_MODEL || 'llama3.1',
+    timeout: Number(process.env.OPENAI_TIMEOUT_MS) || 120000,
+  },
+
+  mock: {
+    // replay: serve recordings, fall back to canned deterministic answers
+    // record: call `recordProvider` and save its answers for later replay
+    mode: process.env.LLM_MOCK_MODE === 'record' ? 'record' as const : 'replay' as const,
+    recordingsPath: process.env.LLM_MOCK_RECORDINGS || 'llm-recordings.json',
+    recordProvider: providerFromEnv(process.env.LLM_RECORD_PROVIDER, 'gemini'),
+  },
+
+  // Validated answers shared by every instance through Redis, keyed on model and normalized prompt
+  cache: {
+    enabled: process.env.LLM_CACHE_ENABLED !== 'false',
+    keyPrefix: 'llm-cache',
+    // Search and extraction answers carry live prices, so they expire first
+    ttlSeconds: {
+      search: Number(process.env.LLM_CACHE_SEARCH_TTL) || 1800,
+      analysis: Number(process.env.LLM_CACHE_ANALYSIS_TTL) || 1800,
+      prediction: Number(process.env.LLM_CACHE_PREDICTION_TTL) || 6 * 3600,
+      extraction: Number(process.env.LLM_CACHE_EXTRACTION_TTL) || 300,
+    } satisfies Record<LLMFeature, number>,
+    // Other instances wait this long for the one computing an answer before calling the model themselves
+    lockMs: 90000,
+    pollMs: 250,
+  },
+
+  // Rate limit and budgets shared by every instance through Redis. Days are UTC days.
+  quota: {
+    keyPrefix: 'llm-usage',
+    // Provider quota; the per-minute limit refills continuously as a token bucket
+    requestsPerMinute: Number(process.env.LLM_REQUESTS_PER_MINUTE) || 60,
+    requestsPerDay: Number(process.env.LLM_REQUESTS_PER_DAY) || 1000,
+    userRequestsPerDay: Number(process.env.LLM_USER_REQUESTS_PER_DAY) || 200,
+    userCostPerDayUsd: Number(process.env.LLM_USER_COST_PER_DAY_USD) || 0.5,
+    // A call waits this long for the bucket to refill before it is refused
+    maxQueueMs: Number(process.env.LLM_QUOTA_MAX_WAIT_MS) || 15000,
+    retentionDays: 30,
+    // USD per million tokens; models not listed here (local servers) are counted as free
+    pricing: {
+      'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+      'gpt-4o-mini': { input: 0.15, output: 0.60 },
+    } as Record<string, { input: number; output: number }>,
+  },
+
+  maxRetries: 3,
+  retryDelay: 1000,
+};
@@ -0,0 +1,30 @@
+import nodemailer from "nodemailer";
+
+export const MAIL_CONFIG = {
+  host: process.env.SMTP_HOST || "127.0.0.1",
+  port: Number(process.env.SMTP_PORT) || 1025,
+  secure: process.env.SMTP_SECURE === "true",
+  user: process.env.SMTP_USER,
+  pass: process.env.SMTP_PASS,
+  from: process.env.MAIL_FROM || "Price Tracker <no-reply@pricetracker.local>",
+};
+
+const transporter = nodemailer.createTransport({
+  host: MAIL_CONFIG.host,
+  port: MAIL_CONFIG.port,
+  secure: MAIL_CONFIG.secure,
+  ...(MAIL_CONFIG.user ? { auth: { user: MAIL_CONFIG.user, pass: MAIL_CONFIG.pass } } : {}),
+});
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export const sendMail = async (message: MailMessage) => {
+  return transporter.sendMail({ from: MAIL_CONFIG.from, ...message });
+};
+
+export default transporter;
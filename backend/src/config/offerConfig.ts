@@ -0,0 +1,27 @@
+export const OFFER_CONFIG = {
+  // Banks as they appear in offer text, matched in order; `id` is what saved payment methods store
+  banks: [
+    { id: 'hdfc', name: 'HDFC Bank', match: /\bhdfc\b/i },
+    { id: 'icici', name: 'ICICI Bank', match: /\bicici\b/i },
+    { id: 'sbi', name: 'SBI', match: /\bsbi\b|state bank/i },
+    { id: 'axis', name: 'Axis Bank', match: /\baxis\b/i },
+    { id: 'kotak', name: 'Kotak Mahindra Bank', match: /\bkotak\b/i },
+    { id: 'idfc', name: 'IDFC FIRST Bank', match: /\bidfc\b/i },
+    { id: 'hsbc', name: 'HSBC', match: /\bhsbc\b/i },
+    { id: 'yes', name: 'Yes Bank', match: /\byes bank\b/i },
+    { id: 'rbl', name: 'RBL Bank', match: /\brbl\b/i },
+    { id: 'au', name: 'AU Small Finance Bank', match: /\bau (small finance )?bank\b/i },
+    { id: 'indusind', name: 'IndusInd Bank', match: /\bindusind\b/i },
+    { id: 'bob', name: 'Bank of Baroda', match: /\bbob(card)?\b|bank of baroda/i },
+    { id: 'federal', name: 'Federal Bank', match: /\bfederal bank\b/i },
+    { id: 'onecard', name: 'OneCard', match: /\bone ?card\b/i },
+    { id: 'bajaj', name: 'Bajaj Finserv', match: /\bbajaj\b/i },
+    { id: 'amex', name: 'American Express', match: /\bamex\b|american express/i },
+    { id: 'citi', name: 'Citi', match: /\bciti(bank)?\b/i },
+  ],
+  // Tenures assumed when a no-cost EMI offer does not list them
+  defaultNoCostEmiTenures: [3, 6],
+  maxPaymentMethods: 10,
+};
+
+export const bankById = (id: string) => OFFER_CONFIG.banks.find(bank => bank.id === id);
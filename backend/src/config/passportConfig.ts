@@ -0,0 +1,163 @@
+import passport from "passport";
+import type { Request, Response } from "express";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Strategy as GoogleStrategy, type Profile } from "passport-google-oauth20";
+import { findOrCreateGoogleUser, linkGoogleAccount, type OAuthProfile } from "../services/oauth.service.js";
+import { AppError, UnauthorizedError } from "../utils/errors.js";
+import type { Env } from "./env.js";
+import "dotenv/config";
+
+export const OAUTH_CONFIG = {
+  google: {
+    clientID: process.env.GOOGLE_CLIENT_ID || "",
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET || "",
+    callbackURL: process.env.GOOGLE_CALLBACK_URL || "/api/auth/google/callback",
+  },
+};
+
+let googleEnabled = false;
+
+export const isGoogleAuthEnabled = () => googleEnabled;
+
+type VerifyDone = (err: any, user?: Express.User | false, info?: object) => void;
+
+interface OAuthState {
+  nonce: string;
+  purpose: "login" | "link_google";
+  userId?: string;
+}
+
+const OAUTH_STATE_COOKIE = "oauthState";
+const OAUTH_STATE_TTL_SECONDS = 5 * 60;
+// Signed with its own secret and audience, so a state token never passes as an access token
+const OAUTH_STATE_AUDIENCE = "oauth-state";
+
+// The state sent through Google carries a nonce that must match a cookie on the browser that
+// started the round trip, so a state leaked from a URL or log is useless anywhere else.
+// Without `userId` the round trip signs in; with it, it links Google to that user.
+export const createOAuthState = (res: Response, userId?: string): string => {
+  const nonce = crypto.randomBytes(16).toString("hex");
+  res.cookie(OAUTH_STATE_COOKIE, nonce, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    // Lax, because Google sends the browser back with a top-level cross-site redirect
+    sameSite: "lax",
+    path: "/api/auth",
+    maxAge: OAUTH_STATE_TTL_SECONDS * 1000,
+  });
+  const state: OAuthState = { nonce, purpose: userId ? "link_google" : "login", ...(userId ? { userId } : {}) };
+  return jwt.sign(state, process.env.JWT_SECRET!, { audience: OAUTH_STATE_AUDIENCE, expiresIn: OAUTH_STATE_TTL_SECONDS });
+};
+
+export const clearOAuthState = (res: Response) => res.clearCookie(OAUTH_STATE_COOKIE, { path: "/api/auth" });
+
+const readOAuthState = (req: Request): OAuthState | null => {
+  const { state } = req.query;
+  const nonce: unknown = req.cookies?.[OAUTH_STATE_COOKIE];
+  if (typeof state !== "string" || !state || typeof nonce !== "string" || !nonce) return null;
+  try {
+    const decoded = jwt.verify(state, process.env.JWT_SECRET!, { audience: OAUTH_STATE_AUDIENCE }) as OAuthState;
+    const matches = decoded.nonce.length === nonce.length
+      && crypto.timingSafeEqual(Buffer.from(decoded.nonce), Buffer.from(nonce));
+    return matches ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+const toOAuthProfile = (profile: Profile): OAuthProfile => {
+  const email = profile.emails?.[0];
+  return {
+    provider: "google",
+    id: profile.id,
+    displayName: profile.displayName,
+    ...(email ? { email: email.value } : {}),
+    emailVerified: Boolean(email?.verified ?? profile._json?.email_verified),
+  };
+};
+
+const verifyGoogleProfile = async (req: Request, profile: OAuthProfile, done: VerifyDone) => {
+  try {
+    const state = readOAuthState(req);
+    if (!state) {
+      return done(new UnauthorizedError("Sign-in was not started from this browser or has expired, please try again", "OAUTH_STATE_INVALID"));
+    }
+    const linking = state.purpose === "link_google" && Boolean(state.userId);
+    const user = linking
+      ? await linkGoogleAccount(state.userId!, profile)
+      : await findOrCreateGoogleUser(profile);
+
+    done(null, {
+      userId: user._id.toString(),
+      email: user.email,
+      isEmailVerified: Boolean(user.isEmailVerified),
+    }, { linked: linking });
+  } catch (error: any) {
+    // Known failures (unverified email, account linked elsewhere) keep their error code
+    if (error instanceof AppError) return done(error);
+    done(null, false, { message: error.message });
+  }
+};
+
+class MockGoogleStrategy extends passport.Strategy {
+  override name = "google";
+
+  constructor(private callbackURL: string) {
+    super();
+  }
+
+  authenticate(req: Request, options?: any) {
+    if (!req.query.code) {
+      const params = new URLSearchParams({ code: "mock-code" });
+      for (const key of ["mockId", "mockEmail", "mockName", "mockUnverified"]) {
+        if (typeof req.query[key] === "string") params.set(key, req.query[key] as string);
+      }
+      if (options?.state) params.set("state", options.state);
+      return this.redirect(`${this.callbackURL}?${params.toString()}`);
+    }
+
+    const email = (req.query.mockEmail as string) || "mock.user@example.com";
+    const profile: OAuthProfile = {
+      provider: "google",
+      id: (req.query.mockId as string) || `mock-${email}`,
+      displayName: (req.query.mockName as string) || "Mock User",
+      email,
+      emailVerified: req.query.mockUnverified !== "true",
+    };
+
+    verifyGoogleProfile(req, profile, (err, user, info) => {
+      if (err) return this.error(err);
+      if (!user) return this.fail(info as any, 401);
+      this.success(user, info);
+    });
+  }
+}
+
+// OAUTH_PROVIDER=mock swaps Google for an offline provider that signs in whoever the query string says
+export const configurePassport = (config: Pick<Env, "NODE_ENV" | "OAUTH_PROVIDER">) => {
+  if (config.OAUTH_PROVIDER === "mock") {
+    if (config.NODE_ENV === "production") {
+      throw new Error("The mock OAuth provider cannot be used in production");
+    }
+    passport.use(new MockGoogleStrategy(OAUTH_CONFIG.google.callbackURL));
+    googleEnabled = true;
+    console.warn("OAuth is running with the mock Google provider");
+  } else if (OAUTH_CONFIG.google.clientID && OAUTH_CONFIG.google.clientSecret) {
+    passport.use(
+      new GoogleStrategy(
+        { ...OAUTH_CONFIG.google, passReqToCallback: true },
+        (req, _accessToken, _refreshToken, profile, done) => {
+          verifyGoogleProfile(req, toOAuthProfile(profile), done);
+        }
+      )
+    );
+    googleEnabled = true;
+  } else {
+    console.warn("GOOGLE_CLIENT_ID/GOOGLE_CLIENT_SECRET not set, Google sign-in is disabled");
+  }
+
+  return passport;
+};
+
+export default passport;
@@ -0,0 +1,44 @@
+import "dotenv/config";
+
+export type RollupGranularity = 'hour' | 'day' | 'week';
+export type HistoryGranularity = 'raw' | RollupGranularity;
+
+// 0 keeps data forever; unset or blank uses the fallback
+const days = (value: string | undefined, fallback: number) => {
+  if (!value?.trim()) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Weekly rollups are recomputed for two weeks after a week starts, so raw data must outlive that
+const MIN_RAW_RETENTION_DAYS = 21;
+
+const rawRetentionDays = () => {
+  const raw = days(process.env.PRICE_HISTORY_RAW_RETENTION_DAYS, 90);
+  if (raw === 0 || raw >= MIN_RAW_RETENTION_DAYS) return raw;
+  console.warn(`PRICE_HISTORY_RAW_RETENTION_DAYS=${raw} is too short for weekly rollups, keeping raw observations for ${MIN_RAW_RETENTION_DAYS} days`);
+  return MIN_RAW_RETENTION_DAYS;
+};
+
+export const PRICE_HISTORY_CONFIG = {
+  // Raw observations expire through the time-series collection's TTL
+  retentionDays: {
+    raw: rawRetentionDays(),
+    hour: days(process.env.PRICE_HISTORY_HOURLY_RETENTION_DAYS, 365),
+    day: days(process.env.PRICE_HISTORY_DAILY_RETENTION_DAYS, 0),
+    week: days(process.env.PRICE_HISTORY_WEEKLY_RETENTION_DAYS, 0),
+  } satisfies Record<HistoryGranularity, number>,
+
+  // Buckets are recomputed from raw observations this far back on every run
+  rollupLookbackHours: {
+    hour: 6,
+    day: 48,
+    week: 14 * 24,
+  } satisfies Record<RollupGranularity, number>,
+
+  rollupCron: process.env.PRICE_HISTORY_ROLLUP_CRON || '7 * * * *',
+  // Day and week boundaries follow the shoppers' calendar, not UTC
+  timezone: process.env.PRICE_HISTORY_TIMEZONE || 'Asia/Kolkata',
+  // History requests without a granularity get roughly this many points per platform
+  targetPoints: 200,
+};
@@ -0,0 +1,24 @@
+import Queue from "bull";
+import { loadEnv } from "./env.js";
+import { redisOptions } from "./redisConfig.js";
+
+export const createQueue = <T = any>(name: string): Queue.Queue<T> => {
+  const queue = new Queue<T>(name, { redis: redisOptions(loadEnv()) });
+
+  queue.on("error", (err: any) => console.error(`Queue ${name} error:`, err));
+
+  return queue;
+};
+
+// A queue opened on first use, so importing the module that owns it does not connect to Redis
+export const lazyQueue = <T = any>(name: string) => {
+  let queue: Queue.Queue<T> | null = null;
+  return {
+    get: (): Queue.Queue<T> => queue ??= createQueue<T>(name),
+    close: async () => {
+      if (!queue) return;
+      await queue.close();
+      queue = null;
+    },
+  };
+};
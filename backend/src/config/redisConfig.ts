@@ -1,12 +1,29 @@
 import {Redis} from "ioredis";
+import { loadEnv, type Env } from "./env.js";
 
-const redis = new Redis({
-  host: process.env.REDIS_HOST || "127.0.0.1",
-  port: Number(process.env.REDIS_PORT) || 6379,
-  ...(process.env.REDIS_PASSWORD ? { password: process.env.REDIS_PASSWORD } : {}),
+export type RedisEnv = Pick<Env, "REDIS_HOST" | "REDIS_PORT" | "REDIS_PASSWORD">;
+
+export const redisOptions = (env: RedisEnv) => ({
+  host: env.REDIS_HOST,
+  port: env.REDIS_PORT,
+  ...(env.REDIS_PASSWORD ? { password: env.REDIS_PASSWORD } : {}),
 });
 
-redis.on("connect", () => console.log("Connected to Redis"));
-redis.on("error", (err:any) => console.error("Redis Error:", err));
+let redis: Redis | null = null;
+
+// The client is created on first use, so importing a module that talks to Redis
+// (routes, services) does not open a connection, e.g. when tests build the app
+export const getRedis = (): Redis => {
+  if (!redis) {
+    redis = new Redis(redisOptions(loadEnv()));
+    redis.on("connect", () => console.log("Connected to Redis"));
+    redis.on("error", (err:any) => console.error("Redis Error:", err));
+  }
+  return redis;
+};
 
-export default redis;
+export const closeRedis = async () => {
+  if (!redis) return;
+  await redis.quit();
+  redis = null;
+};
@@ -0,0 +1,33 @@
+// Recurring Indian sale events used to seed the sale calendar. Dates are the usual
+// windows and drift from year to year; admins correct the seeded occurrences through
+// /api/sale-events once a platform announces the real dates.
+
+export interface SaleEventTemplate {
+  name: string;
+  platforms: string[];
+  categories: string[];
+  // MM-DD in India Standard Time, inclusive
+  start: string;
+  end: string;
+  typicalDiscount: { min: number; max: number };
+}
+
+const FASHION = ['fashion', 'clothing', 'apparel', 'footwear', 'shoes', 'accessories', 'bags', 'watches'];
+const BEAUTY = ['beauty', 'makeup', 'skincare', 'cosmetics', 'fragrance', 'personal care'];
+
+export const SALE_EVENT_SEED: SaleEventTemplate[] = [
+  { name: 'Amazon Great Republic Day Sale', platforms: ['amazon'], categories: [], start: '01-13', end: '01-19', typicalDiscount: { min: 10, max: 40 } },
+  { name: 'Flipkart Republic Day Sale', platforms: ['flipkart'], categories: [], start: '01-13', end: '01-19', typicalDiscount: { min: 10, max: 40 } },
+  { name: 'Myntra End of Reason Sale (Summer)', platforms: ['myntra'], categories: FASHION, start: '06-01', end: '06-08', typicalDiscount: { min: 40, max: 80 } },
+  { name: 'AJIO Big Bold Sale (Summer)', platforms: ['ajio'], categories: FASHION, start: '06-01', end: '06-08', typicalDiscount: { min: 40, max: 80 } },
+  { name: 'Amazon Prime Day', platforms: ['amazon'], categories: [], start: '07-12', end: '07-14', typicalDiscount: { min: 10, max: 50 } },
+  { name: 'Amazon Great Freedom Festival', platforms: ['amazon'], categories: [], start: '08-01', end: '08-07', typicalDiscount: { min: 10, max: 40 } },
+  { name: 'Flipkart Big Saving Days', platforms: ['flipkart'], categories: [], start: '08-01', end: '08-07', typicalDiscount: { min: 10, max: 40 } },
+  { name: 'Flipkart Big Billion Days', platforms: ['flipkart'], categories: [], start: '09-23', end: '10-02', typicalDiscount: { min: 10, max: 60 } },
+  { name: 'Amazon Great Indian Festival', platforms: ['amazon'], categories: [], start: '09-23', end: '10-23', typicalDiscount: { min: 10, max: 60 } },
+  { name: 'Myntra Big Fashion Festival', platforms: ['myntra'], categories: FASHION, start: '09-23', end: '10-03', typicalDiscount: { min: 40, max: 80 } },
+  { name: 'Meesho Mega Blockbuster Sale', platforms: ['meesho'], categories: [], start: '09-23', end: '09-30', typicalDiscount: { min: 20, max: 70 } },
+  { name: 'Nykaa Pink Friday Sale', platforms: ['nykaa'], categories: BEAUTY, start: '11-20', end: '12-01', typicalDiscount: { min: 20, max: 50 } },
+  { name: 'Myntra End of Reason Sale (Winter)', platforms: ['myntra'], categories: FASHION, start: '12-06', end: '12-12', typicalDiscount: { min: 40, max: 80 } },
+  { name: 'AJIO Big Bold Sale (Winter)', platforms: ['ajio'], categories: FASHION, start: '12-06', end: '12-12', typicalDiscount: { min: 40, max: 80 } },
+];
@@ -0,0 +1,20 @@
+import "dotenv/config";
+import type { WorkflowNode } from "../services/langchain.workflow.js";
+
+export const WORKFLOW_CONFIG = {
+  // Time budget per node. A required node that runs over fails the search, any other node
+  // is recorded as failed and the workflow continues through the fallback recommendation.
+  nodeTimeoutMs: {
+    checkUserLimits: 5000,
+    searchProducts: 90000,
+    analyzeMarket: 60000,
+    predictTrends: 45000,
+    rankDeals: 10000,
+    generateRecommendations: 10000,
+    fallback: 5000,
+  } satisfies Record<WorkflowNode, number>,
+  // Cross-platform market analysis is skipped below this many platforms
+  minPlatformsForAnalysis: 2,
+  // Runs and their checkpoints are deleted after this many days
+  runRetentionDays: Number(process.env.WORKFLOW_RUN_RETENTION_DAYS) || 30,
+};
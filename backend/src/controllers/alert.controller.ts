@@ -0,0 +1,60 @@
+import type { Request, Response, NextFunction } from 'express';
+import * as AlertService from '../services/alert.service.js';
+
+// POST /api/products/:id/alerts
+export const createAlert = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const alert = await AlertService.createAlertRule(req.params.id!, req.user!.userId, req.body);
+        res.status(201).json({ success: true, message: 'Alert created', alert });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// GET /api/products/:id/alerts
+export const getAlerts = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const alerts = await AlertService.findAlertRules(req.params.id!, req.user!.userId);
+        res.json({ success: true, alerts });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// GET /api/products/:id/alerts/history
+export const getAlertHistory = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { events, totalEvents, page, limit } = await AlertService.findAlertEvents(req.params.id!, req.user!.userId, req.query);
+        res.json({
+            success: true,
+            events,
+            pagination: {
+                currentPage: Number(page),
+                totalPages: Math.ceil(totalEvents / Number(limit)),
+                totalEvents
+            }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// PUT /api/products/:id/alerts/:alertId
+export const updateAlert = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const alert = await AlertService.updateAlertRule(req.params.id!, req.params.alertId!, req.user!.userId, req.body);
+        res.json({ success: true, message: 'Alert updated', alert });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// DELETE /api/products/:id/alerts/:alertId
+export const deleteAlert = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        await AlertService.deleteAlertRule(req.params.id!, req.params.alertId!, req.user!.userId);
+        res.json({ success: true, message: 'Alert deleted' });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -3,7 +3,22 @@ import jwt from "jsonwebtoken";
 import type { Request, Response, NextFunction } from "express";
 import { User } from "../models/User.js";
 import "dotenv/config";
-import redis from "../config/redisConfig.js";
+import { getRedis } from "../config/redisConfig.js";
+import crypto from "crypto";
+import { sendPasswordResetEmail, sendVerificationEmail } from "../services/email.service.js";
+import passport, { clearOAuthState, createOAuthState, isGoogleAuthEnabled } from "../config/passportConfig.js";
+import * as OAuthService from "../services/oauth.service.js";
+import * as SessionService from "../services/session.service.js";
+import { REFRESH_TOKEN_TTL_SECONDS, type DeviceInfo, type SessionRecord } from "../services/session.service.js";
+import {
+    AppError,
+    BadRequestError,
+    ConflictError,
+    NotFoundError,
+    RateLimitExceededError,
+    ServiceUnavailableError,
+    UnauthorizedError
+} from "../utils/errors.js";
 
 
 const router = express.Router();
@@ -15,28 +30,57 @@ const generateAccessToken = (userId: string): string => {
     });
 };
 
-const generateRefreshToken = (userId: string): string => {
+interface RefreshTokenPayload {
+    userId: string;
+    sid: string;
+    jti: string;
+}
+
+const generateRefreshToken = (session: SessionRecord): string => {
     if(!process.env.JWT_SECRET) throw new Error("JWT_SECRET not set");
-    return jwt.sign({userId}, process.env.JWT_REFRESH_SECRET!, {
-        expiresIn: '3d'
+    return jwt.sign({userId: session.userId, sid: session.sessionId}, process.env.JWT_REFRESH_SECRET!, {
+        expiresIn: REFRESH_TOKEN_TTL_SECONDS,
+        jwtid: session.currentTokenId
     });
 };
 
-const storeRefreshToken = async (userId: string, token: string) => {
-  await redis.set(`refresh:${userId}`, token, "EX", 3*24*60*60*1000);
+const getDeviceInfo = (req: Request): DeviceInfo => ({
+    userAgent: req.get('user-agent'),
+    ip: req.ip
+});
+
+const readRefreshCookie = (req: Request): RefreshTokenPayload | null => {
+    const token = req.cookies?.refreshToken;
+    if (!token) return null;
+    const decoded = jwt.decode(token) as RefreshTokenPayload | null;
+    return decoded?.userId && decoded.sid ? decoded : null;
 };
 
-const sendTokens = (res: Response, user: any) => {
-    const accessToken = generateAccessToken(user._id.toString());
-    const refreshToken = generateRefreshToken(user._id.toString());
+const generateEmailVerificationToken = (userId: string, email: string): string => {
+    return jwt.sign({userId, email, purpose: 'verify_email'}, process.env.JWT_EMAIL_SECRET!, {
+        expiresIn: '24h'
+    });
+};
+
+const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+const VERIFICATION_RESEND_DAILY_LIMIT = 5;
 
-    storeRefreshToken(user._id.toString(), refreshToken);
+const sendVerificationLink = async (user: any) => {
+    const token = generateEmailVerificationToken(user._id.toString(), user.email);
+    await sendVerificationEmail(user.email, user.name, token);
+};
+
+// Starts a new device session unless an already rotated one is passed in.
+const sendTokens = async (req: Request, res: Response, user: any, session?: SessionRecord) => {
+    const activeSession = session ?? await SessionService.createSession(user._id.toString(), getDeviceInfo(req));
+    const accessToken = generateAccessToken(user._id.toString());
+    const refreshToken = generateRefreshToken(activeSession);
 
     res.cookie('refreshToken', refreshToken, {
         httpOnly: true,
         secure: process.env.NODE_ENV === 'production',
         sameSite: 'strict',
-        maxAge: 3*24*60*60*1000
+        maxAge: REFRESH_TOKEN_TTL_SECONDS * 1000
     });
 
     res.json({
@@ -46,6 +90,7 @@ const sendTokens = (res: Response, user: any) => {
             id: user._id,
             name: user.name,
             email: user.email,
+            isEmailVerified: user.isEmailVerified,
             authProviders: user.authProviders
         }
     });
@@ -59,15 +104,9 @@ export const signup = async (req: Request, res: Response, next: NextFunction) =>
 
         if(existingUser){
             if(existingUser.authProviders.includes('google')){
-                return res.status(409).json({
-                    success: false,
-                    message: 'This email is registered via google. Please login with google'
-                });
+                throw new ConflictError('This email is registered via google. Please login with google', 'EMAIL_REGISTERED_WITH_GOOGLE');
             }
-            return res.status(409).json({
-                success: false,
-                message: 'A user with this email already exists.'
-            })
+            throw new ConflictError('A user with this email already exists.', 'EMAIL_ALREADY_REGISTERED');
         }
 
         const user = new User({
@@ -78,8 +117,15 @@ export const signup = async (req: Request, res: Response, next: NextFunction) =>
             lastLogin: new Date()
         });
         await user.save();
+
+        try {
+            await sendVerificationLink(user);
+        } catch (mailError) {
+            console.error("failed to send verification email on signup", mailError);
+        }
+
         res.status(201);
-        sendTokens(res, user);
+        await sendTokens(req, res, user);
     } catch (error) {
         next(error);
         console.log("error in signup function ar auth.controller");
@@ -92,25 +138,22 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
 
         const user = await User.findOne({ email: email}).select('+password');
         if(!user){
-            return res.status(401).json({success: false, message: 'Invalid credentials'});
+            throw new UnauthorizedError('Invalid credentials', 'INVALID_CREDENTIALS');
         }
         if(!user.password || !user.authProviders.includes('local')){
-            return res.status(401).json({
-                success: false,
-                message: 'This account uses Google sign-in. Please use the google authentication'
-            });
+            throw new UnauthorizedError('This account uses Google sign-in. Please use the google authentication', 'PASSWORD_LOGIN_NOT_ENABLED');
         }
 
         const isPasswordValid = await user.comparePasswords(password);
 
         if (!isPasswordValid){
-            return res.status(401).json({success: false, message: 'Invalid credentials'});
+            throw new UnauthorizedError('Invalid credentials', 'INVALID_CREDENTIALS');
         }
 
         user.lastLogin = new Date();
         await user.save();
 
-        sendTokens(res, user);
+        await sendTokens(req, res, user);
     } catch (error) {
         next(error);
         console.log("error in login function auth.controller");
@@ -121,20 +164,32 @@ export const refreshToken = async (req: Request, res: Response, next: NextFuncti
     try {
         const token = req.cookies.refreshToken;
         if(!token) {
-            return res.status(401).json({success: false, message: 'noe refresh token provided'});
+            throw new UnauthorizedError('No refresh token provided', 'REFRESH_TOKEN_MISSING');
+        }
+
+        let decoded: RefreshTokenPayload;
+        try {
+            decoded = jwt.verify(token, process.env.JWT_REFRESH_SECRET!) as RefreshTokenPayload;
+        } catch {
+            res.clearCookie("refreshToken");
+            throw new UnauthorizedError('Invalid or expired refresh token', 'REFRESH_TOKEN_INVALID');
         }
 
-        const decoded = jwt.verify(token, process.env.JWT_REFRESH_SECRET!) as {userId: string};
-        
-        const storedToken = await redis.get(`refresh:${decoded.userId}`);
-        if (!storedToken || storedToken !== token) {
-            return res.status(401).json({ success: false, message: "Invalid or expired refresh token" });
+        const rotation = await SessionService.rotateSession(decoded.sid, decoded.userId, decoded.jti, getDeviceInfo(req));
+        if (rotation.status === 'reused') {
+            console.warn(`refresh token reuse detected for user ${decoded.userId}, session ${decoded.sid} revoked`);
         }
+        if (rotation.status !== 'rotated') {
+            res.clearCookie("refreshToken");
+            throw new UnauthorizedError('Invalid or expired refresh token', 'REFRESH_TOKEN_INVALID');
+        }
+
         const user = await User.findById(decoded.userId);
         if(!user) {
-            return res.status(401).json({ success: false, message: 'Invalid refresh token'});
+            await SessionService.revokeSession(decoded.userId, decoded.sid);
+            throw new UnauthorizedError('Invalid refresh token', 'REFRESH_TOKEN_INVALID');
         }
-        await sendTokens(res, user);
+        await sendTokens(req, res, user, rotation.session);
     } catch (error) {
         next(error);
         console.log("error in refreshtoken auth.controller.ts");
@@ -143,12 +198,9 @@ export const refreshToken = async (req: Request, res: Response, next: NextFuncti
 
 export const logout = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const token = req.cookies.refreshToken;
-    if (token) {
-      const decoded = jwt.decode(token) as { userId: string };
-      if (decoded?.userId) {
-        await redis.del(`refresh:${decoded.userId}`);
-      }
+    const current = readRefreshCookie(req);
+    if (current && current.userId === req.user!.userId) {
+      await SessionService.revokeSession(current.userId, current.sid);
     }
 
     res.clearCookie("refreshToken");
@@ -163,7 +215,7 @@ export const getMe = async (req: Request, res: Response, next: NextFunction) =>
     try {
         const user = await User.findById(req.user!.userId);
         if(!user){
-            return res.status(404).json({ success: false, message: 'User not found'});
+            throw new NotFoundError('User not found', 'USER_NOT_FOUND');
         }
 
         res.json({
@@ -172,6 +224,7 @@ export const getMe = async (req: Request, res: Response, next: NextFunction) =>
                 id: user._id,
                 name: user.name,
                 email: user.email,
+                isEmailVerified: user.isEmailVerified,
                 lastLogin: user.lastLogin,
                 createdAt: user.createdAt,
                 authProviders: user.authProviders,
@@ -195,7 +248,7 @@ export const updateProfile = async (req: Request, res: Response, next: NextFunct
         );
 
         if (!user) {
-            return res.status(404).json({ success: false, message: 'User not found' });
+            throw new NotFoundError('User not found', 'USER_NOT_FOUND');
         }
 
         res.json({
@@ -214,14 +267,302 @@ export const updateProfile = async (req: Request, res: Response, next: NextFunct
     }
 }
 
-export const forgotPassword = (req: Request, res: Response, next: NextFunction) => {
+const RESET_TOKEN_TTL_MINUTES = 60;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const {email} = req.body;
+        const genericResponse = {
+            success: true,
+            message: 'If an account exists for this email, a password reset link has been sent.'
+        };
+
+        const user = await User.findOne({email: email.trim()});
+        if (!user) {
+            return res.json(genericResponse);
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+        user.resetPasswordToken = hashToken(token);
+        user.resetPasswordExpires = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+        await user.save();
+
+        // A failure answers like any other request, otherwise the response would reveal that the account exists
+        try {
+            await sendPasswordResetEmail(user.email, user.name, token, RESET_TOKEN_TTL_MINUTES);
+        } catch (mailError) {
+            console.error("failed to send password reset email", mailError);
+            user.set({resetPasswordToken: undefined, resetPasswordExpires: undefined});
+            await user.save();
+        }
+
+        res.json(genericResponse);
+    } catch (error) {
+        next(error);
+        console.log("error in forgotPassword auth.controller");
+    }
+}
+
+export const isEmailVerified = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const user = await User.findById(req.user!.userId).select('isEmailVerified');
+        if (!user) {
+            throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+        }
+        res.json({success: true, isEmailVerified: Boolean(user.isEmailVerified)});
+    } catch (error) {
+        next(error);
+        console.log("error in isEmailVerified auth.controller");
+    }
+}
+
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        let decoded: {userId: string; email: string; purpose: string};
+        try {
+            decoded = jwt.verify(req.params.token!, process.env.JWT_EMAIL_SECRET!) as typeof decoded;
+        } catch {
+            throw new BadRequestError('Verification link is invalid or has expired', 'VERIFICATION_TOKEN_INVALID');
+        }
 
+        if (decoded.purpose !== 'verify_email') {
+            throw new BadRequestError('Verification link is invalid or has expired', 'VERIFICATION_TOKEN_INVALID');
+        }
+
+        const user = await User.findById(decoded.userId);
+        // A token issued for an address the account no longer uses must not verify the new one
+        if (!user || user.email !== decoded.email) {
+            throw new BadRequestError('Verification link is invalid or has expired', 'VERIFICATION_TOKEN_INVALID');
+        }
+
+        if (!user.isEmailVerified) {
+            user.isEmailVerified = true;
+            await user.save();
+        }
+
+        res.json({success: true, message: 'Email verified successfully'});
+    } catch (error) {
+        next(error);
+        console.log("error in verifyEmail auth.controller");
+    }
 }
 
-export const isEmailVerified = (req: Request, res: Response, next: NextFunction) => {
+export const resendVerificationEmail = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const user = await User.findById(req.user!.userId);
+        if (!user) {
+            throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+        }
+        if (user.isEmailVerified) {
+            throw new BadRequestError('Email is already verified', 'EMAIL_ALREADY_VERIFIED');
+        }
+
+        const userId = user._id.toString();
+        const cooldownKey = `verify-email:cooldown:${userId}`;
+        const dailyKey = `verify-email:daily:${userId}`;
+
+        const acquired = await getRedis().set(cooldownKey, "1", "EX", VERIFICATION_RESEND_COOLDOWN_SECONDS, "NX");
+        if (!acquired) {
+            const retryAfter = Math.max(await getRedis().ttl(cooldownKey), 1);
+            throw new RateLimitExceededError(
+                `Please wait ${retryAfter} seconds before requesting another verification email`,
+                'VERIFICATION_EMAIL_COOLDOWN',
+                retryAfter
+            );
+        }
 
+        const sentToday = await getRedis().incr(dailyKey);
+        if (sentToday === 1) {
+            await getRedis().expire(dailyKey, 24*60*60);
+        }
+        if (sentToday > VERIFICATION_RESEND_DAILY_LIMIT) {
+            throw new RateLimitExceededError('Daily verification email limit reached, try again tomorrow', 'VERIFICATION_EMAIL_DAILY_LIMIT');
+        }
+
+        await sendVerificationLink(user);
+        res.json({success: true, message: 'Verification email sent'});
+    } catch (error) {
+        next(error);
+        console.log("error in resendVerificationEmail auth.controller");
+    }
 }
 
-export const resetPassword = (req: Request, res: Response, next: NextFunction) => {
+export const resetPassword = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const {token} = req.params;
+        const {password} = req.body;
 
-}
\ No newline at end of file
+        const user = await User.findOne({
+            resetPasswordToken: hashToken(token!),
+            resetPasswordExpires: {$gt: new Date()}
+        });
+        if (!user) {
+            throw new BadRequestError('Password reset link is invalid or has expired', 'RESET_TOKEN_INVALID');
+        }
+
+        user.password = password;
+        user.set({resetPasswordToken: undefined, resetPasswordExpires: undefined});
+        if (!user.authProviders.includes('local')) {
+            user.authProviders.push('local');
+        }
+        await user.save();
+
+        await SessionService.revokeAllSessions(user._id.toString());
+
+        res.clearCookie("refreshToken");
+        res.json({success: true, message: 'Password has been reset. Please log in with your new password.'});
+    } catch (error) {
+        next(error);
+        console.log("error in resetPassword auth.controller");
+    }
+}
+
+export const googleAuth = (req: Request, res: Response, next: NextFunction) => {
+    if (!isGoogleAuthEnabled()) {
+        return next(new ServiceUnavailableError('Google sign-in is not configured', 'OAUTH_NOT_CONFIGURED'));
+    }
+    // A link URL from /link/google already carries its state; a plain sign-in starts a new one
+    const state = typeof req.query.state === 'string' && req.query.state ? req.query.state : createOAuthState(res);
+    passport.authenticate('google', {
+        session: false,
+        scope: ['profile', 'email'],
+        state
+    })(req, res, next);
+};
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+const OAUTH_CODE_TTL_SECONDS = 60;
+const oauthCodeKey = (code: string) => `oauth-code:${hashToken(code)}`;
+
+// The browser lands on the client, never on this API: sign-ins carry a one-time code the client
+// exchanges for tokens, so no token ever appears in a URL
+const redirectToClient = (res: Response, params: Record<string, string>) => {
+    res.redirect(`${CLIENT_URL}/oauth/callback?${new URLSearchParams(params).toString()}`);
+};
+
+export const googleCallback = (req: Request, res: Response, next: NextFunction) => {
+    if (!isGoogleAuthEnabled()) {
+        return next(new ServiceUnavailableError('Google sign-in is not configured', 'OAUTH_NOT_CONFIGURED'));
+    }
+    passport.authenticate('google', {session: false}, async (err: any, authUser: Express.User | false, info?: {message?: string; linked?: boolean}) => {
+        try {
+            // The state is single use
+            clearOAuthState(res);
+            if (err) throw err;
+            if (!authUser) {
+                throw new UnauthorizedError(info?.message || 'Google authentication failed', 'OAUTH_FAILED');
+            }
+
+            if (info?.linked) {
+                return redirectToClient(res, {linked: 'google'});
+            }
+            const code = crypto.randomBytes(32).toString('hex');
+            await getRedis().set(oauthCodeKey(code), authUser.userId, 'EX', OAUTH_CODE_TTL_SECONDS);
+            redirectToClient(res, {code});
+        } catch (error) {
+            if (!(error instanceof AppError)) console.error("error in googleCallback auth.controller", error);
+            redirectToClient(res, {error: error instanceof AppError ? error.code : 'OAUTH_FAILED'});
+        }
+    })(req, res, next);
+};
+
+export const exchangeGoogleCode = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        // GETDEL makes the code single use even when two requests race
+        const userId = await getRedis().getdel(oauthCodeKey(req.body.code));
+        if (!userId) {
+            throw new UnauthorizedError('Sign-in code is invalid or has expired', 'OAUTH_CODE_INVALID');
+        }
+
+        const user = await User.findById(userId);
+        if (!user) {
+            throw new UnauthorizedError('Sign-in code is invalid or has expired', 'OAUTH_CODE_INVALID');
+        }
+        await sendTokens(req, res, user);
+    } catch (error) {
+        next(error);
+        console.log("error in exchangeGoogleCode auth.controller");
+    }
+};
+
+export const startGoogleLink = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        if (!isGoogleAuthEnabled()) {
+            throw new ServiceUnavailableError('Google sign-in is not configured', 'OAUTH_NOT_CONFIGURED');
+        }
+        const state = createOAuthState(res, req.user!.userId);
+        res.json({success: true, url: `/api/auth/google?state=${encodeURIComponent(state)}`});
+    } catch (error) {
+        next(error);
+        console.log("error in startGoogleLink auth.controller");
+    }
+};
+
+export const addPasswordLogin = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const user = await OAuthService.setLocalPassword(req.user!.userId, req.body.password);
+        res.json({success: true, message: 'Password sign-in enabled', authProviders: user.authProviders});
+    } catch (error) {
+        next(error);
+        console.log("error in addPasswordLogin auth.controller");
+    }
+};
+
+export const unlinkProvider = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const provider = req.params.provider as 'local' | 'google';
+        const user = await OAuthService.unlinkProvider(req.user!.userId, provider);
+        res.json({success: true, message: `${provider} sign-in removed`, authProviders: user.authProviders});
+    } catch (error) {
+        next(error);
+        console.log("error in unlinkProvider auth.controller");
+    }
+};
+
+export const getSessions = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const current = readRefreshCookie(req);
+        const sessions = await SessionService.listSessions(req.user!.userId);
+
+        res.json({
+            success: true,
+            sessions: sessions.map(({currentTokenId, previousTokenId, rotatedAt, ...session}) => ({
+                ...session,
+                current: session.sessionId === current?.sid
+            }))
+        });
+    } catch (error) {
+        next(error);
+        console.log("error in getSessions auth.controller");
+    }
+};
+
+export const revokeSession = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const revoked = await SessionService.revokeSession(req.user!.userId, req.params.sessionId!);
+        if (!revoked) {
+            throw new NotFoundError('Session not found', 'SESSION_NOT_FOUND');
+        }
+
+        if (readRefreshCookie(req)?.sid === req.params.sessionId) {
+            res.clearCookie("refreshToken");
+        }
+        res.json({success: true, message: 'Session revoked'});
+    } catch (error) {
+        next(error);
+        console.log("error in revokeSession auth.controller");
+    }
+};
+
+export const revokeOtherSessions = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const current = readRefreshCookie(req);
+        const revoked = await SessionService.revokeAllSessions(req.user!.userId, current?.sid);
+        res.json({success: true, message: 'Other sessions revoked', revoked});
+    } catch (error) {
+        next(error);
+        console.log("error in revokeOtherSessions auth.controller");
+    }
+};
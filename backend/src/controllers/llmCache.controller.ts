@@ -0,0 +1,22 @@
+import type { Request, Response, NextFunction } from 'express';
+import { getCacheStats, resetCacheStats } from '../services/llm/responseCache.js';
+
+// GET /api/llm-cache/stats
+export const getLLMCacheStats = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const stats = await getCacheStats();
+        res.json({ success: true, ...stats });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// DELETE /api/llm-cache/stats
+export const resetLLMCacheStats = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        await resetCacheStats();
+        res.json({ success: true, message: 'Cache counters reset' });
+    } catch (error) {
+        next(error);
+    }
+};
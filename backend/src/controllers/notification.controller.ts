@@ -0,0 +1,90 @@
+import type { Request, Response, NextFunction } from 'express';
+import * as NotificationService from '../services/notification.service.js';
+
+// GET /api/notifications
+export const getNotifications = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { notifications, totalNotifications, unreadCount, page, limit } =
+            await NotificationService.findUserNotifications(req.user!.userId, req.query);
+
+        res.json({
+            success: true,
+            notifications,
+            unreadCount,
+            pagination: {
+                currentPage: Number(page),
+                totalPages: Math.ceil(totalNotifications / Number(limit)),
+                totalNotifications,
+                hasMore: (Number(page) * Number(limit)) < totalNotifications
+            }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// GET /api/notifications/unread-count
+export const getUnreadCount = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const unreadCount = await NotificationService.countUnread(req.user!.userId);
+        res.json({ success: true, unreadCount });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// PUT /api/notifications/:id/read
+export const markRead = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const read = req.body.read !== false;
+        const notification = await NotificationService.setReadState(req.params.id!, req.user!.userId, read);
+        res.json({ success: true, notification });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// PUT /api/notifications/read-all
+export const markAllRead = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await NotificationService.markAllRead(req.user!.userId);
+        res.json({ success: true, message: 'All notifications marked as read', updated: result.modifiedCount });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// DELETE /api/notifications/:id
+export const deleteNotification = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        await NotificationService.deleteNotification(req.params.id!, req.user!.userId);
+        res.json({ success: true, message: 'Notification deleted' });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// GET /api/notifications/preferences
+export const getPreferences = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const preferences = await NotificationService.getPreferences(req.user!.userId);
+        res.json({ success: true, preferences });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// PUT /api/notifications/preferences
+export const updatePreferences = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await NotificationService.updatePreferences(req.user!.userId, req.body);
+        res.json({
+            success: true,
+            message: 'Notification preferences updated',
+            preferences: result.preferences,
+            ...(result.webhookSecret ? { webhookSecret: result.webhookSecret } : {})
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,27 @@
+import type { Request, Response, NextFunction } from 'express';
+import * as EffectivePriceService from '../services/effectivePrice.service.js';
+
+// GET /api/payment-methods
+export const getPaymentMethods = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const paymentMethods = await EffectivePriceService.getPaymentMethods(req.user!.userId);
+        res.json({ success: true, paymentMethods });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// PUT /api/payment-methods
+export const replacePaymentMethods = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { paymentMethods, repricedProducts } = await EffectivePriceService.replacePaymentMethods(req.user!.userId, req.body.paymentMethods);
+        res.json({ success: true, message: 'Payment methods updated', paymentMethods, repricedProducts });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// GET /api/payment-methods/banks
+export const getSupportedBanks = async (_req: Request, res: Response) => {
+    res.json({ success: true, banks: EffectivePriceService.listSupportedBanks() });
+};
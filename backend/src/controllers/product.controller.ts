@@ -1,17 +1,17 @@
 import type { Request, Response, NextFunction } from 'express';
 import * as ProductService from '../services/product.service.js';
 import * as ProductTransformer from '../utils/product.transformer.js';
+import { ForbiddenError } from '../utils/errors.js';
+import { openEventStream } from '../utils/sse.js';
+import { problemFor } from '../middlewares/error.middleware.js';
 
 // POST /api/products/search
 export const searchProducts = async (req: Request, res: Response, next: NextFunction) => {
     try {
         const { query } = req.body;
         const userId = req.user!.userId;
-        if (!query || !query.trim()) {
-            return res.status(400).json({ success: false, message: 'Search query is required' });
-        }
-        
-        const { cached, data } = await ProductService.searchAndAnalyze(query.trim(), userId);
+
+        const { cached, data } = await ProductService.searchAndAnalyze(query, userId);
         
         const responseData = cached ? {
             success: true,
@@ -33,12 +33,32 @@ export const searchProducts = async (req: Request, res: Response, next: NextFunc
     }
 };
 
+// POST /api/products/search/stream
+export const streamSearch = async (req: Request, res: Response) => {
+    const stream = openEventStream(req, res);
+
+    try {
+        for await (const event of ProductService.streamSearch(req.body.query, req.user!.userId, stream.signal)) {
+            stream.send(event.type, event.data);
+        }
+        stream.send('done', { success: true });
+    } catch (error) {
+        // Headers are already sent, so failures go out as an event instead of through errorHandler
+        if (!stream.signal.aborted) {
+            const problem = problemFor(error, req.originalUrl);
+            if (problem.status >= 500) console.error('Search stream failed:', error);
+            stream.send('error', problem);
+        }
+    } finally {
+        stream.close();
+    }
+};
+
 // POST /api/products/track
 export const trackProduct = async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { title, urls } = req.body;
-        if (!title || !urls || !Array.isArray(urls) || urls.length === 0) {
-            return res.status(400).json({ success: false, message: 'Product title and at least one URL are required' });
+        if (req.body.alertThresholds && !req.user!.isEmailVerified) {
+            throw new ForbiddenError('Please verify your email address before creating price alerts', 'EMAIL_NOT_VERIFIED');
         }
 
         const product = await ProductService.createTrackedProduct(req.body, req.user!.userId);
@@ -54,10 +74,7 @@ export const trackProduct = async (req: Request, res: Response, next: NextFuncti
                 selectedPlatforms: product.selectedPlatforms
             }
         });
-    } catch (error: any) {
-        if (error.message.includes('Unable to scrape')) {
-            return res.status(400).json({ success: false, message: error.message });
-        }
+    } catch (error) {
         next(error);
     }
 };
@@ -85,13 +102,25 @@ export const getUserProducts = async (req: Request, res: Response, next: NextFun
     }
 };
 
+// GET /api/products/:id
+export const getProduct = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { product, discountAuthenticity } = await ProductService.getProductDetail(req.params.id!, req.user!.userId);
+
+        res.json({
+            success: true,
+            product: ProductTransformer.transformProductForDetail(product),
+            discountAuthenticity
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
 // PUT /api/products/:id
 export const updateProduct = async (req: Request, res: Response, next: NextFunction) => {
     try {
         const updatedProduct = await ProductService.updateProductDetails(req.params.id!, req.user!.userId, req.body);
-        if (!updatedProduct) {
-            return res.status(404).json({ success: false, message: 'Product not found or access denied' });
-        }
         res.json({ success: true, message: 'Product updated successfully', product: updatedProduct });
     } catch (error) {
         next(error);
@@ -101,10 +130,7 @@ export const updateProduct = async (req: Request, res: Response, next: NextFunct
 // DELETE /api/products/:id
 export const deleteProduct = async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const deletedProduct = await ProductService.deleteProductById(req.params.id!, req.user!.userId);
-        if (!deletedProduct) {
-            return res.status(404).json({ success: false, message: 'Product not found or access denied' });
-        }
+        await ProductService.deleteProductById(req.params.id!, req.user!.userId);
         res.json({ success: true, message: 'Product removed from tracking' });
     } catch (error) {
         next(error);
@@ -115,19 +141,51 @@ export const deleteProduct = async (req: Request, res: Response, next: NextFunct
 export const getProductHistory = async (req: Request, res: Response, next: NextFunction) => {
     try {
         const result = await ProductService.getProductPriceHistory(req.params.id!, req.user!.userId, req.query);
-        if (!result) {
-            return res.status(404).json({ success: false, message: 'Product not found or access denied' });
-        }
-        
-        const chartData = ProductTransformer.formatHistoryForChart(result.product, result.priceHistory);
 
         res.json({
             success: true,
             productTitle: result.product.title,
-            priceHistory: chartData,
-            dateRange: { from: result.fromDate, to: new Date(), days: Number(result.days) }
+            granularity: result.granularity,
+            series: result.series,
+            priceHistory: ProductTransformer.formatHistoryForChart(result.series, result.granularity),
+            dateRange: { from: result.fromDate, to: result.toDate }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// GET /api/products/:id/effective-price
+export const getEffectivePrices = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await ProductService.getEffectivePrices(req.params.id!, req.user!.userId, req.query);
+
+        res.json({
+            success: true,
+            productTitle: result.product.title,
+            paymentMethods: result.paymentMethods,
+            platforms: result.platforms,
+            bestPlatform: result.bestPlatform
         });
     } catch (error) {
         next(error);
     }
-};
\ No newline at end of file
+};
+
+// GET /api/products/:id/analytics
+export const getProductAnalytics = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const result = await ProductService.getProductAnalytics(req.params.id!, req.user!.userId);
+
+        res.json({
+            success: true,
+            productTitle: result.product.title,
+            trackingStartDate: result.product.trackingStartDate,
+            platforms: result.platforms,
+            combined: result.combined,
+            generatedAt: result.generatedAt
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,42 @@
+import type { Request, Response, NextFunction } from 'express';
+import * as SaleEventService from '../services/saleEvent.service.js';
+
+// GET /api/sale-events
+export const getSaleEvents = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const events = await SaleEventService.listSaleEvents(req.query);
+        res.json({ success: true, events });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// POST /api/sale-events
+export const createSaleEvent = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const event = await SaleEventService.createSaleEvent(req.body);
+        res.status(201).json({ success: true, message: 'Sale event created', event });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// PUT /api/sale-events/:id
+export const updateSaleEvent = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const event = await SaleEventService.updateSaleEvent(req.params.id!, req.body);
+        res.json({ success: true, message: 'Sale event updated', event });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// DELETE /api/sale-events/:id
+export const deleteSaleEvent = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        await SaleEventService.deleteSaleEvent(req.params.id!);
+        res.json({ success: true, message: 'Sale event deleted' });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,19 @@
+import type { Request, Response, NextFunction } from 'express';
+import { getUsage } from '../services/llm/usageMeter.js';
+import { ForbiddenError } from '../utils/errors.js';
+
+// GET /api/usage
+export const getAIUsage = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { scope, userId } = req.query as { scope?: 'me' | 'all'; userId?: string };
+        // Everyone's usage, and other users', is for administrators only
+        if ((scope === 'all' || userId) && req.user!.role !== 'admin') {
+            throw new ForbiddenError('Administrator access required', 'ADMIN_REQUIRED');
+        }
+
+        const usage = await getUsage(scope === 'all' ? undefined : userId ?? req.user!.userId);
+        res.json({ success: true, ...usage });
+    } catch (error) {
+        next(error);
+    }
+};
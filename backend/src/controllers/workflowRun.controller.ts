@@ -0,0 +1,42 @@
+import type { Request, Response, NextFunction } from 'express';
+import * as WorkflowRunService from '../services/workflowRun.service.js';
+
+// GET /api/workflow-runs
+export const getWorkflowRuns = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { runs, totalRuns, page, limit } = await WorkflowRunService.listWorkflowRuns(req.query);
+
+        res.json({
+            success: true,
+            runs,
+            pagination: {
+                currentPage: Number(page),
+                totalPages: Math.ceil(totalRuns / Number(limit)),
+                totalRuns,
+                hasMore: (Number(page) * Number(limit)) < totalRuns
+            }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// GET /api/workflow-runs/:runId
+export const getWorkflowRun = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { run, checkpoints } = await WorkflowRunService.getWorkflowRun(req.params.runId!);
+        res.json({ success: true, run, checkpoints });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// POST /api/workflow-runs/:runId/replay
+export const replayWorkflowRun = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { replay, comparison } = await WorkflowRunService.replayWorkflowRun(req.params.runId!);
+        res.status(201).json({ success: true, message: 'Workflow run replayed', replay, comparison });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -1,32 +1,67 @@
-import express from "express";
-import type { NextFunction, Request, Response } from "express";
-import cookieParser from 'cookie-parser';
+import type { Server } from "http";
+import mongoose from "mongoose";
+import { loadEnv } from "./config/env.js";
 import connectDb from "./config/db.js";
-import authRoutes from './routes/auth.js';
+import { closeRedis } from "./config/redisConfig.js";
+import { createApp } from "./app.js";
+import { startPriceRefreshScheduler, stopPriceRefreshScheduler } from './services/priceRefresh.scheduler.js';
+import { startNotificationWorker, stopNotificationWorker } from './services/notification.service.js';
+import { startPriceHistoryJobs, stopPriceHistoryJobs } from './services/priceHistory.service.js';
+import { ensureSaleCalendar } from './services/saleEvent.service.js';
 
-const app = express();
-app.use(express.json());
-app.use(cookieParser())
+const SHUTDOWN_TIMEOUT_MS = 10000;
 
-connectDb();
+const env = loadEnv();
 
-app.use('/api/auth', authRoutes);
+let server: Server | null = null;
+let shuttingDown = false;
 
-app.use((err: any, req: Request, res: Response, next: NextFunction) => {
-    console.error(err.stack);
-    const statusCode = err.statusCode || 500;
-    const message = err.message || 'Internal Server Error';
-    res.status(statusCode).json({
-        success: false,
-        message,
+const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`${signal} received, shutting down`);
+
+    // Give in-flight requests and jobs a bounded time to finish
+    const forceExit = setTimeout(() => {
+        console.error('Shutdown timed out, forcing exit');
+        process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS);
+    forceExit.unref();
+
+    try {
+        if (server) {
+            await new Promise<void>((resolve, reject) => server!.close(err => err ? reject(err) : resolve()));
+        }
+        await stopPriceRefreshScheduler();
+        await stopPriceHistoryJobs();
+        await stopNotificationWorker();
+        await mongoose.disconnect();
+        await closeRedis();
+        console.log('Shutdown complete');
+        process.exit(0);
+    } catch (error) {
+        console.error('Error during shutdown', error);
+        process.exit(1);
+    }
+};
+
+const start = async () => {
+    await connectDb();
+    await ensureSaleCalendar().catch(error => console.error('Failed to seed the sale calendar:', error));
+    startPriceRefreshScheduler();
+    startPriceHistoryJobs();
+    startNotificationWorker();
+
+    const app = createApp(env);
+    server = app.listen(env.PORT, () => {
+        console.log(`listening on port ${env.PORT}`);
     });
-});
 
-app.get("/", function(req: Request, res: Response) {
-    console.log("welcome to the first get request");
-    res.send("hello word");
-}) 
+    process.on('SIGINT', () => void shutdown('SIGINT'));
+    process.on('SIGTERM', () => void shutdown('SIGTERM'));
+};
 
-app.listen(5000, () => {
-    console.log("listenting on port 3000")
-});
\ No newline at end of file
+start().catch(error => {
+    console.error('Failed to start server', error);
+    process.exit(1);
+});
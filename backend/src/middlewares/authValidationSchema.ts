@@ -1,7 +1,4 @@
 import {z} from 'zod';
-import type { Request, Response, NextFunction } from 'express';
-
-
 
 export const signupSchema = z.object({
     body: z.object({
@@ -39,23 +36,32 @@ export const resetPasswordSchema = z.object({
     }),
 });
 
-export const validate = (schema: z.ZodObject) =>
-    async (req: Request, res: Response, next: NextFunction) => {
-    try {
-        await schema.parseAsync({
-            body: req.body,
-            query: req.query,
-            params: req.params,
-        });
-        return next();
-    } catch (err: unknown) {
-        if (err instanceof z.ZodError) {
-            return res.status(400).json({
-                success: false,
-                message: 'Input validation failed',
-                errors: err.issues.map((e) => ({ path: e.path.join('.'), message: e.message })),
-            });
-        }
-        return next(err);
-    }
-};
\ No newline at end of file
+export const verifyEmailSchema = z.object({
+    params: z.object({
+        token: z.string().min(1, { message: 'Verification token is required' }),
+    }),
+});
+
+export const oauthCodeSchema = z.object({
+    body: z.object({
+        code: z.string().min(1, { message: 'Sign-in code is required' }),
+    }),
+});
+
+export const setPasswordSchema = z.object({
+    body: z.object({
+        password: z.string().min(6, { message: 'Password must be at least 6 characters' }),
+    }),
+});
+
+export const providerSchema = z.object({
+    params: z.object({
+        provider: z.enum(['local', 'google'], { message: 'Provider must be local or google' }),
+    }),
+});
+
+export const sessionSchema = z.object({
+    params: z.object({
+        sessionId: z.string().uuid({ message: 'Invalid session id' }),
+    }),
+});
@@ -1,16 +1,21 @@
 import jwt, { type JwtPayload } from 'jsonwebtoken';
 import type {Request, Response, NextFunction} from 'express';
 import { User } from '../models/User.js';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors.js';
 import "dotenv/config";
 
 
 declare global{
     namespace Express {
+        interface User {
+            userId: string;
+            email: string;
+            isEmailVerified?: boolean;
+            role?: 'user' | 'admin';
+        }
+
         interface Request {
-            user?: {
-                userId: string;
-                email: string;
-            }
+            user?: User;
         }
     }
 }
@@ -24,37 +29,32 @@ export const auth = async (req:Request, res: Response, next: NextFunction ) => {
         const authHeader = req.header('Authorization') || req.headers.authorization;
 
         if (!authHeader || typeof authHeader !== "string" || !authHeader.startsWith("Bearer ")) {
-            return res.status(401).json({
-                success: false,
-                message: 'No token provided, authorization denied'
-            });
+            throw new UnauthorizedError('No token provided, authorization denied', 'TOKEN_MISSING');
         }
 
         const token = authHeader!.substring(7);
 
         const decoded = jwt.verify(token, process.env.JWT_ACCESS_SECRET as string) as unknown as DecodedToken;
 
-        const user = await User.findById(decoded.userId).select('email');
+        const user = await User.findById(decoded.userId).select('email isEmailVerified role');
 
         if(!user){
-            return res.status(401).json({
-                success: false,
-                message: 'Token is not valid - user not found'
-            });
+            throw new UnauthorizedError('Token is not valid - user not found', 'TOKEN_INVALID');
         }
 
         req.user = {
             userId: user._id.toString(),
-            email: user.email
+            email: user.email,
+            isEmailVerified: Boolean(user.isEmailVerified),
+            role: user.role
         };
         next();
     } catch (error: any) {
-        console.error('Auth middleware error:', error.name);
         if(error.name === 'TokenExpiredError'){
-            return res.status(401).json({ success: false, message: 'Token has expired'})
+            return next(new UnauthorizedError('Token has expired', 'TOKEN_EXPIRED'));
         }
         if(error.name === 'JsonWebTokenError'){
-            return res.status(401).json({ success: false, message: ' token in not valid'})
+            return next(new UnauthorizedError('Token is not valid', 'TOKEN_INVALID'));
         }
         next(error);
     }
@@ -66,16 +66,34 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
         if (authHeader && authHeader.startsWith('Bearer ')) {
             const token = authHeader.substring(7);
             const decoded = jwt.verify(token, process.env.JWT_ACCESS_SECRET!) as DecodedToken;
-            const user = await User.findById(decoded.userId).select('email');
+            const user = await User.findById(decoded.userId).select('email isEmailVerified role');
             
             if (user) {
                 req.user = {
                     userId: user._id.toString(),
-                    email: user.email
+                    email: user.email,
+                    isEmailVerified: Boolean(user.isEmailVerified),
+                    role: user.role
                 };
             }
         }
     } catch (error) {
     }
     next();
-};
\ No newline at end of file
+};
+
+// Must run after `auth`; blocks actions that would send mail to an address nobody has confirmed.
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user?.isEmailVerified) {
+        return next(new ForbiddenError('Please verify your email address before using this feature', 'EMAIL_NOT_VERIFIED'));
+    }
+    next();
+};
+
+// Must run after `auth`; for endpoints that change data shared by every user.
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+    if (req.user?.role !== 'admin') {
+        return next(new ForbiddenError('Administrator access required', 'ADMIN_REQUIRED'));
+    }
+    next();
+};
@@ -0,0 +1,114 @@
+import { STATUS_CODES } from 'http';
+import mongoose from 'mongoose';
+import type { Request, Response, NextFunction } from 'express';
+import {
+    AppError,
+    BadRequestError,
+    ConflictError,
+    NotFoundError,
+    RateLimitExceededError,
+    UnauthorizedError,
+    ValidationError,
+    type ErrorCode,
+} from '../utils/errors.js';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+// RFC 7807 body. `code` is our stable extension member; `success: false` keeps
+// the envelope consistent with the rest of the API.
+export interface ProblemDetails {
+    type: string;
+    title: string;
+    status: number;
+    detail: string;
+    instance: string;
+    code: ErrorCode;
+    success: false;
+    [extension: string]: unknown;
+}
+
+const CLIENT_ERROR_CODES: Record<number, ErrorCode> = {
+    401: 'UNAUTHORIZED',
+    403: 'FORBIDDEN',
+    404: 'NOT_FOUND',
+    409: 'CONFLICT',
+    413: 'PAYLOAD_TOO_LARGE',
+    429: 'RATE_LIMITED',
+};
+
+// Normalizes errors thrown by libraries (body-parser, mongoose, jsonwebtoken) into AppErrors
+const toAppError = (err: any): AppError => {
+    if (err instanceof AppError) return err;
+
+    if (err?.type === 'entity.parse.failed') {
+        return new BadRequestError('Request body is not valid JSON', 'MALFORMED_JSON');
+    }
+    if (err?.type === 'entity.too.large') {
+        return new AppError('Request body is too large', 413, 'PAYLOAD_TOO_LARGE');
+    }
+    if (err instanceof mongoose.Error.CastError) {
+        return new BadRequestError(`Invalid value for ${err.path}`, 'INVALID_ID');
+    }
+    if (err instanceof mongoose.Error.ValidationError) {
+        return new ValidationError('Validation error', Object.values(err.errors).map(e => ({ path: e.path, message: e.message })));
+    }
+    if (err?.code === 11000) {
+        return new ConflictError('A resource with the same unique value already exists');
+    }
+    if (err?.name === 'TokenExpiredError') {
+        return new UnauthorizedError('Token has expired', 'TOKEN_EXPIRED');
+    }
+    if (err?.name === 'JsonWebTokenError') {
+        return new UnauthorizedError('Token is not valid', 'TOKEN_INVALID');
+    }
+
+    const status = Number(err?.statusCode || err?.status);
+    if (status >= 400 && status < 500) {
+        return new AppError(err.message || STATUS_CODES[status] || 'Request failed', status, CLIENT_ERROR_CODES[status] ?? 'BAD_REQUEST');
+    }
+    return new AppError('Internal Server Error', 500, 'INTERNAL_ERROR');
+};
+
+export const toProblem = (error: AppError, instance: string): ProblemDetails => ({
+    ...error.details,
+    type: 'about:blank',
+    title: STATUS_CODES[error.status] || 'Error',
+    status: error.status,
+    detail: error.message,
+    instance,
+    code: error.code,
+    success: false,
+});
+
+export const notFoundHandler = (req: Request, res: Response, next: NextFunction) => {
+    next(new NotFoundError(`Route not found: ${req.method} ${req.originalUrl}`, 'ROUTE_NOT_FOUND'));
+};
+
+// Problem details for any thrown value, also used for errors that happen mid-stream
+export const problemFor = (err: any, instance: string): ProblemDetails => {
+    const error = toAppError(err);
+    const problem = toProblem(error, instance);
+    // Unknown failures keep their real message out of production responses
+    if (!(err instanceof AppError) && error.status >= 500 && process.env.NODE_ENV !== 'production' && err?.message) {
+        problem.detail = err.message;
+    }
+    return problem;
+};
+
+export const errorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
+    const error = toAppError(err);
+
+    if (error.status >= 500) {
+        console.error(err?.stack || err);
+    }
+    if (res.headersSent) {
+        return next(err);
+    }
+
+    const problem = problemFor(err, req.originalUrl);
+    if (error instanceof RateLimitExceededError && error.retryAfterSeconds !== undefined) {
+        res.set('Retry-After', String(error.retryAfterSeconds));
+    }
+
+    res.status(error.status).type(PROBLEM_CONTENT_TYPE).json(problem);
+};
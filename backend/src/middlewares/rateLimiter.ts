@@ -1,12 +1,16 @@
 import rateLimit from "express-rate-limit";
+import { RateLimitExceededError } from "../utils/errors.js";
 
 export const authRateLimit = rateLimit({
     windowMs: 6*60*1000,
     max: 10,
     standardHeaders: true,
     legacyHeaders: false,
-    message:{
-        success: false,
-        message: 'To many requests hit from one IP adress, try again after 6 hours'
+    handler: (req, res, next, options) => {
+        next(new RateLimitExceededError(
+            'Too many requests from this IP address, please try again later',
+            'RATE_LIMITED',
+            Math.ceil(options.windowMs / 1000)
+        ));
     }
 })
\ No newline at end of file
@@ -1,6 +1,7 @@
 
 import type { Request, Response, NextFunction } from 'express';
 import { User } from '../models/User.js';
+import { NotFoundError, RateLimitExceededError } from '../utils/errors.js';
 
 const SEARCH_LIMIT = 3;
 
@@ -10,7 +11,7 @@ export const checkSearchLimit = async (req: Request, res: Response, next: NextFu
         const user = await User.findById(userId);
 
         if (!user) {
-            return res.status(404).json({ success: false, message: "User not found." });
+            throw new NotFoundError('User not found', 'USER_NOT_FOUND');
         }
 
         const now = new Date();
@@ -22,11 +23,12 @@ export const checkSearchLimit = async (req: Request, res: Response, next: NextFu
         }
 
         if (user.searchCount >= SEARCH_LIMIT) {
-            return res.status(429).json({ 
-                success: false,
-                message: `You have exceeded your search limit of ${SEARCH_LIMIT} queries.`,
-                limitResetsAt: user.searchLimitResetsAt
-            });
+            throw new RateLimitExceededError(
+                `You have exceeded your search limit of ${SEARCH_LIMIT} queries.`,
+                'SEARCH_LIMIT_EXCEEDED',
+                undefined,
+                { limitResetsAt: user.searchLimitResetsAt }
+            );
         }
 
         next();
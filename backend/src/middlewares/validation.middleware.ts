@@ -1,156 +1,356 @@
+import { z } from 'zod';
 import type { Request, Response, NextFunction } from 'express';
-import { body, param, query, validationResult } from 'express-validator';
-
-// Helper function to handle validation results
-const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-        return res.status(400).json({
-            success: false,
-            message: 'Validation error',
-            errors: errors.array()
+import { ValidationError } from '../utils/errors.js';
+import { OFFER_CONFIG } from '../config/offerConfig.js';
+
+// Every request schema describes the parts of the request it checks: body, query and/or params
+export type RequestSchema = z.ZodObject<{
+    body?: z.ZodType;
+    query?: z.ZodType;
+    params?: z.ZodType;
+}>;
+
+// Parsed values replace the raw ones, so handlers receive trimmed strings,
+// coerced numbers and defaults instead of re-parsing them.
+export const validate = (schema: RequestSchema) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const parsed: { body?: unknown; query?: unknown; params?: unknown } = await schema.parseAsync({
+            body: req.body,
+            query: req.query,
+            params: req.params,
         });
+        if (parsed.body !== undefined) req.body = parsed.body;
+        if (parsed.params !== undefined) req.params = parsed.params as Request['params'];
+        // req.query is a getter in Express 5, so it has to be redefined rather than assigned
+        if (parsed.query !== undefined) {
+            Object.defineProperty(req, 'query', { value: parsed.query, writable: true, configurable: true });
+        }
+        return next();
+    } catch (err: unknown) {
+        if (err instanceof z.ZodError) {
+            return next(new ValidationError(
+                'Input validation failed',
+                err.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+            ));
+        }
+        return next(err);
     }
-    next();
 };
 
+export const PLATFORMS = ['amazon', 'flipkart', 'myntra', 'meesho', 'nykaa', 'ajio'] as const;
+export const ALERT_TYPES = ['percentage_drop', 'target_price', 'lowest_in_days', 'back_in_stock'] as const;
+
+export const objectId = (label: string) => z.string().regex(/^[0-9a-fA-F]{24}$/, { message: `Invalid ${label} ID` });
+
+const page = z.coerce.number().int().min(1).default(1);
+const limit = z.coerce.number().int().min(1).max(100).default(20);
+
+const refreshIntervalMinutes = z.number().int().min(15).max(10080, { message: 'Refresh interval must be between 15 minutes and 7 days' });
+
+const productText = {
+    title: z.string().trim().min(2).max(500, { message: 'Product title must be between 2 and 500 characters' }),
+    brand: z.string().trim().max(100, { message: 'Brand name cannot exceed 100 characters' }),
+    category: z.string().trim().max(100, { message: 'Category cannot exceed 100 characters' }),
+    notes: z.string().trim().max(1000, { message: 'Notes cannot exceed 1000 characters' }),
+};
+
+const productIdParams = z.object({ id: objectId('product') });
+
 export const productValidation = {
-    search: [
-        body('query')
-            .trim()
-            .isLength({ min: 2, max: 500 })
-            .withMessage('Search query must be between 2 and 200 characters'),
-        body('platforms')
-            .optional()
-            .isArray()
-            .withMessage('Platforms must be an array')
-            .custom((platforms) => {
-                const validPlatforms = ['amazon', 'flipkart', 'myntra', 'meesho'];
-                return platforms.every((platform: string) => validPlatforms.includes(platform));
-            })
-            .withMessage('Invalid platform specified'),
-        handleValidationErrors
-    ],
-
-    track: [
-        body('title')
-            .trim()
-            .isLength({ min: 2, max: 500 })
-            .withMessage('Product title must be between 2 and 500 characters'),
-        body('urls')
-            .isArray({ min: 1 })
-            .withMessage('At least one URL is required')
-            .custom((urls) => {
-                return urls.every((url: string) => {
-                    try {
-                        new URL(url);
-                        return true;
-                    } catch {
-                        return false;
-                    }
-                });
-            })
-            .withMessage('All URLs must be valid'),
-        body('brand')
-            .optional()
-            .trim()
-            .isLength({ max: 100 })
-            .withMessage('Brand name cannot exceed 100 characters'),
-        body('category')
-            .optional()
-            .trim()
-            .isLength({ max: 100 })
-            .withMessage('Category cannot exceed 100 characters'),
-        body('notes')
-            .optional()
-            .trim()
-            .isLength({ max: 1000 })
-            .withMessage('Notes cannot exceed 1000 characters'),
-        handleValidationErrors
-    ],
-
-    update: [
-        param('id')
-            .isMongoId()
-            .withMessage('Invalid product ID'),
-        body('title')
-            .optional()
-            .trim()
-            .isLength({ min: 2, max: 500 })
-            .withMessage('Product title must be between 2 and 500 characters'),
-        body('brand')
-            .optional()
-            .trim()
-            .isLength({ max: 100 })
-            .withMessage('Brand name cannot exceed 100 characters'),
-        body('category')
-            .optional()
-            .trim()
-            .isLength({ max: 100 })
-            .withMessage('Category cannot exceed 100 characters'),
-        body('selectedPlatforms')
-            .optional()
-            .isArray()
-            .withMessage('Selected platforms must be an array'),
-        body('notes')
-            .optional()
-            .trim()
-            .isLength({ max: 1000 })
-            .withMessage('Notes cannot exceed 1000 characters'),
-        handleValidationErrors
-    ]
+    search: z.object({
+        body: z.object({
+            query: z.string().trim().min(2).max(500, { message: 'Search query must be between 2 and 500 characters' }),
+            platforms: z.array(z.enum(PLATFORMS, { message: 'Invalid platform specified' })).optional(),
+        }),
+    }),
+
+    track: z.object({
+        body: z.object({
+            title: productText.title,
+            urls: z.array(z.url({ message: 'All URLs must be valid' })).min(1, { message: 'At least one URL is required' }),
+            brand: productText.brand.optional(),
+            category: productText.category.optional(),
+            notes: productText.notes.optional(),
+            refreshIntervalMinutes: refreshIntervalMinutes.optional(),
+            alertThresholds: z.object({
+                priceDropPercentage: z.number().gt(0).lt(100, { message: 'Price drop percentage must be between 0 and 100' }).optional(),
+                priceDropAmount: z.number().positive({ message: 'Alert prices must be positive numbers' }).optional(),
+                targetPrice: z.number().positive({ message: 'Alert prices must be positive numbers' }).optional(),
+                lowestInDays: z.number().int().min(1).max(365, { message: 'Lowest-in-days window must be between 1 and 365 days' }).optional(),
+                backInStock: z.boolean().optional(),
+            }).optional(),
+        }),
+    }),
+
+    list: z.object({
+        query: z.object({
+            page,
+            limit,
+            category: z.string().optional(),
+            sortBy: z.enum(['createdAt', 'title', 'category']).default('createdAt'),
+        }),
+    }),
+
+    update: z.object({
+        params: productIdParams,
+        body: z.object({
+            title: productText.title.optional(),
+            brand: productText.brand.optional(),
+            category: productText.category.optional(),
+            selectedPlatforms: z.array(z.enum(PLATFORMS)).optional(),
+            notes: productText.notes.optional(),
+            refreshIntervalMinutes: refreshIntervalMinutes.optional(),
+        }),
+    }),
+
+    byId: z.object({
+        params: productIdParams,
+    }),
+
+    history: z.object({
+        params: productIdParams,
+        query: z.object({
+            platform: z.enum(PLATFORMS).optional(),
+            days: z.coerce.number().int().min(1).max(3650).default(30).meta({ description: 'Range ending at `to`, ignored when `from` is given' }),
+            from: z.coerce.date().optional(),
+            to: z.coerce.date().optional(),
+            granularity: z.enum(['auto', 'raw', 'hour', 'day', 'week']).default('auto'),
+        }).refine(query => !query.from || !query.to || query.from < query.to, { message: '`from` must be before `to`', path: ['from'] }),
+    }),
+
+    effectivePrice: z.object({
+        params: productIdParams,
+        query: z.object({
+            includeExchange: z.stringbool().default(false).meta({ description: 'Count exchange bonuses at their maximum' }),
+            allowEmi: z.stringbool().default(true).meta({ description: 'Count bank offers that only apply to EMI transactions' }),
+        }),
+    }),
 };
 
 export const watchlistValidation = {
-    create: [
-        body('name')
-            .trim()
-            .isLength({ min: 1, max: 100 })
-            .withMessage('Watchlist name must be between 1 and 100 characters'),
-        body('description')
-            .optional()
-            .trim()
-            .isLength({ max: 500 })
-            .withMessage('Description cannot exceed 500 characters'),
-        body('isDefault')
-            .optional()
-            .isBoolean()
-            .withMessage('isDefault must be a boolean'),
-        handleValidationErrors
-    ],
-
-    update: [
-        param('id')
-            .isMongoId()
-            .withMessage('Invalid watchlist ID'),
-        body('name')
-            .optional()
-            .trim()
-            .isLength({ min: 1, max: 100 })
-            .withMessage('Watchlist name must be between 1 and 100 characters'),
-        body('description')
-            .optional()
-            .trim()
-            .isLength({ max: 500 })
-            .withMessage('Description cannot exceed 500 characters'),
-        body('isDefault')
-            .optional()
-            .isBoolean()
-            .withMessage('isDefault must be a boolean'),
-        handleValidationErrors
-    ],
-
-    addProducts: [
-        param('id')
-            .isMongoId()
-            .withMessage('Invalid watchlist ID'),
-        body('productIds')
-            .isArray({ min: 1 })
-            .withMessage('At least one product ID is required')
-            .custom((productIds) => {
-                return productIds.every((id: string) => /^[0-9a-fA-F]{24}$/.test(id));
-            })
-            .withMessage('All product IDs must be valid MongoDB ObjectIds'),
-        handleValidationErrors
-    ]
-};
\ No newline at end of file
+    create: z.object({
+        body: z.object({
+            name: z.string().trim().min(1).max(100, { message: 'Watchlist name must be between 1 and 100 characters' }),
+            description: z.string().trim().max(500, { message: 'Description cannot exceed 500 characters' }).optional(),
+            isDefault: z.boolean().optional(),
+        }),
+    }),
+
+    update: z.object({
+        params: z.object({ id: objectId('watchlist') }),
+        body: z.object({
+            name: z.string().trim().min(1).max(100, { message: 'Watchlist name must be between 1 and 100 characters' }).optional(),
+            description: z.string().trim().max(500, { message: 'Description cannot exceed 500 characters' }).optional(),
+            isDefault: z.boolean().optional(),
+        }),
+    }),
+
+    byId: z.object({
+        params: z.object({ id: objectId('watchlist') }),
+    }),
+
+    products: z.object({
+        params: z.object({ id: objectId('watchlist') }),
+        query: z.object({
+            page,
+            limit,
+            sortBy: z.enum(['createdAt', 'title', 'category']).default('createdAt'),
+        }),
+    }),
+
+    addProducts: z.object({
+        params: z.object({ id: objectId('watchlist') }),
+        body: z.object({
+            productIds: z.array(objectId('product')).min(1, { message: 'At least one product ID is required' }),
+        }),
+    }),
+
+    removeProduct: z.object({
+        params: z.object({ id: objectId('watchlist'), productId: objectId('product') }),
+    }),
+};
+
+const alertParams = z.object({ id: objectId('product'), alertId: objectId('alert') });
+
+export const alertValidation = {
+    create: z.object({
+        params: productIdParams,
+        body: z.object({
+            type: z.enum(ALERT_TYPES, { message: 'Alert type must be one of percentage_drop, target_price, lowest_in_days, back_in_stock' }),
+            threshold: z.number().min(0, { message: 'Threshold must be a positive number' }).optional(),
+            platform: z.enum(PLATFORMS, { message: 'Invalid platform specified' }).nullable().optional(),
+        }).superRefine((alert, ctx) => {
+            if (alert.type === 'back_in_stock') return;
+            const { threshold } = alert;
+            if (threshold === undefined) {
+                ctx.addIssue({ code: 'custom', path: ['threshold'], message: 'Threshold is required for this alert type' });
+            } else if (alert.type === 'percentage_drop' && (threshold <= 0 || threshold >= 100)) {
+                ctx.addIssue({ code: 'custom', path: ['threshold'], message: 'Percentage drop must be between 0 and 100' });
+            } else if (alert.type === 'lowest_in_days' && (!Number.isInteger(threshold) || threshold < 1 || threshold > 365)) {
+                ctx.addIssue({ code: 'custom', path: ['threshold'], message: 'Lowest-in-days window must be between 1 and 365 days' });
+            }
+        }),
+    }),
+
+    list: z.object({
+        params: productIdParams,
+    }),
+
+    history: z.object({
+        params: productIdParams,
+        query: z.object({ page, limit }),
+    }),
+
+    update: z.object({
+        params: alertParams,
+        body: z.object({
+            threshold: z.number().min(0, { message: 'Threshold must be a positive number' }).optional(),
+            isActive: z.boolean().optional(),
+            resetBaseline: z.boolean().optional(),
+        }),
+    }),
+
+    byId: z.object({
+        params: alertParams,
+    }),
+};
+
+const channelFlag = z.object({ enabled: z.boolean().optional() });
+
+export const notificationValidation = {
+    list: z.object({
+        query: z.object({
+            page,
+            limit,
+            unread: z.stringbool().optional(),
+        }),
+    }),
+
+    read: z.object({
+        params: z.object({ id: objectId('notification') }),
+        body: z.object({
+            read: z.boolean().optional(),
+        }).default({}),
+    }),
+
+    byId: z.object({
+        params: z.object({ id: objectId('notification') }),
+    }),
+
+    preferences: z.object({
+        body: z.object({
+            email: channelFlag.optional(),
+            inApp: channelFlag.optional(),
+            webhook: z.object({
+                enabled: z.boolean().optional(),
+                url: z.url({ protocol: /^https?$/, message: 'Webhook URL must be a valid http(s) URL' }).optional(),
+                rotateSecret: z.boolean().optional(),
+            }).optional(),
+        }),
+    }),
+};
+
+const discountRange = z.object({
+    min: z.number().min(0).max(100),
+    max: z.number().min(0).max(100),
+}).refine(range => range.min <= range.max, { message: 'min must not exceed max', path: ['min'] });
+
+const saleEventFields = {
+    name: z.string().trim().min(2).max(120, { message: 'Name must be between 2 and 120 characters' }),
+    platforms: z.array(z.enum(PLATFORMS)).max(PLATFORMS.length),
+    categories: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(30),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+    typicalDiscount: discountRange,
+    notes: z.string().trim().max(1000, { message: 'Notes cannot exceed 1000 characters' }),
+    isActive: z.boolean(),
+};
+
+const saleEventParams = z.object({ id: objectId('sale event') });
+
+const startsBeforeEnd = (event: { startsAt?: Date | undefined; endsAt?: Date | undefined }) => !event.startsAt || !event.endsAt || event.startsAt <= event.endsAt;
+
+const bankIds = OFFER_CONFIG.banks.map(bank => bank.id) as [string, ...string[]];
+
+export const paymentMethodValidation = {
+    replace: z.object({
+        body: z.object({
+            paymentMethods: z.array(z.object({
+                type: z.enum(['credit_card', 'debit_card', 'upi', 'netbanking']),
+                bank: z.enum(bankIds, { message: 'Unsupported bank, see /api/payment-methods/banks' }),
+                label: z.string().trim().min(1).max(50, { message: 'Label cannot exceed 50 characters' }).optional(),
+            })).max(OFFER_CONFIG.maxPaymentMethods, { message: `At most ${OFFER_CONFIG.maxPaymentMethods} payment methods can be saved` }),
+        }),
+    }),
+};
+
+export const saleEventValidation = {
+    list: z.object({
+        query: z.object({
+            from: z.coerce.date().optional(),
+            to: z.coerce.date().optional(),
+            platform: z.enum(PLATFORMS).optional(),
+            includeInactive: z.stringbool().optional(),
+        }),
+    }),
+
+    create: z.object({
+        body: z.object({
+            name: saleEventFields.name,
+            platforms: saleEventFields.platforms.default([]),
+            categories: saleEventFields.categories.default([]),
+            startsAt: saleEventFields.startsAt,
+            endsAt: saleEventFields.endsAt,
+            typicalDiscount: saleEventFields.typicalDiscount.optional(),
+            notes: saleEventFields.notes.optional(),
+            isActive: saleEventFields.isActive.default(true),
+        }).refine(startsBeforeEnd, { message: 'endsAt must not be before startsAt', path: ['endsAt'] }),
+    }),
+
+    // Both dates are checked when both are sent; a single date is checked against the stored one by the model
+    update: z.object({
+        params: saleEventParams,
+        body: z.object({
+            name: saleEventFields.name.optional(),
+            platforms: saleEventFields.platforms.optional(),
+            categories: saleEventFields.categories.optional(),
+            startsAt: saleEventFields.startsAt.optional(),
+            endsAt: saleEventFields.endsAt.optional(),
+            typicalDiscount: saleEventFields.typicalDiscount.optional(),
+            notes: saleEventFields.notes.optional(),
+            isActive: saleEventFields.isActive.optional(),
+        }).refine(startsBeforeEnd, { message: 'endsAt must not be before startsAt', path: ['endsAt'] }),
+    }),
+
+    byId: z.object({
+        params: saleEventParams,
+    }),
+};
+
+const workflowRunParams = z.object({ runId: z.uuid({ message: 'Invalid workflow run ID' }) });
+
+export const workflowRunValidation = {
+    list: z.object({
+        query: z.object({
+            page,
+            limit,
+            userId: objectId('user').optional(),
+            status: z.enum(['running', 'completed', 'failed', 'cancelled']).optional(),
+            searchId: z.string().trim().min(1).optional(),
+        }),
+    }),
+
+    byId: z.object({
+        params: workflowRunParams,
+    }),
+};
+
+export const usageValidation = {
+    get: z.object({
+        query: z.object({
+            scope: z.enum(['me', 'all']).default('me'),
+            userId: objectId('user').optional(),
+        }),
+    }),
+};
@@ -0,0 +1,46 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { AlertRuleType } from "./AlertRule.js";
+import type { DiscountAuthenticity } from "../services/discountAuthenticity.service.js";
+
+interface AlertEventI extends Document {
+    rule: Schema.Types.ObjectId;
+    user: Schema.Types.ObjectId;
+    product: Schema.Types.ObjectId;
+    platform: string;
+    type: AlertRuleType;
+    price: number;
+    previousPrice?: number;
+    // After offers, for the owner's saved payment methods
+    effectivePrice?: number;
+    availability?: string;
+    details: string;
+    // Whether the discount claimed at trigger time holds up against tracked prices
+    discountAuthenticity?: DiscountAuthenticity;
+    triggeredAt: Date;
+}
+
+const AlertEventSchema = new Schema<AlertEventI>({
+    rule: {type: Schema.Types.ObjectId, ref: "AlertRule", required: true},
+    user: {type: Schema.Types.ObjectId, ref: "User", required: true},
+    product: {type: Schema.Types.ObjectId, ref: "Product", required: true},
+    platform: {type: String, required: true},
+    type: {
+        type: String,
+        enum: ['percentage_drop', 'target_price', 'lowest_in_days', 'back_in_stock'],
+        required: true
+    },
+    price: {type: Number, required: true},
+    previousPrice: Number,
+    effectivePrice: Number,
+    availability: String,
+    details: {type: String, required: true},
+    discountAuthenticity: Schema.Types.Mixed,
+    triggeredAt: {type: Date, default: Date.now}
+});
+
+AlertEventSchema.index({ product: 1, triggeredAt: -1 });
+AlertEventSchema.index({ user: 1, triggeredAt: -1 });
+
+export const AlertEvent = mongoose.model<AlertEventI>("AlertEvent", AlertEventSchema);
+
+export type { AlertEventI };
@@ -0,0 +1,41 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+type AlertRuleType = 'percentage_drop' | 'target_price' | 'lowest_in_days' | 'back_in_stock';
+
+interface AlertRuleI extends Document {
+    user: Schema.Types.ObjectId;
+    product: Schema.Types.ObjectId;
+    platform?: string | null;
+    type: AlertRuleType;
+    // percentage for percentage_drop, price for target_price, days for lowest_in_days
+    threshold?: number;
+    baselinePrice?: number;
+    isActive: boolean;
+    lastTriggeredAt?: Date;
+    triggerCount: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const AlertRuleSchema = new Schema<AlertRuleI>({
+    user: {type: Schema.Types.ObjectId, ref: "User", required: true},
+    product: {type: Schema.Types.ObjectId, ref: "Product", required: true},
+    platform: {type: String, default: null},
+    type: {
+        type: String,
+        enum: ['percentage_drop', 'target_price', 'lowest_in_days', 'back_in_stock'],
+        required: true
+    },
+    threshold: {type: Number, min: 0},
+    baselinePrice: {type: Number, min: 0},
+    isActive: {type: Boolean, default: true},
+    lastTriggeredAt: Date,
+    triggerCount: {type: Number, default: 0}
+}, {timestamps: true});
+
+AlertRuleSchema.index({ product: 1, isActive: 1 });
+AlertRuleSchema.index({ user: 1 });
+
+export const AlertRule = mongoose.model<AlertRuleI>("AlertRule", AlertRuleSchema);
+
+export type { AlertRuleI, AlertRuleType };
@@ -0,0 +1,74 @@
+import mongoose, { Schema, type Document, type Types } from "mongoose";
+import type { Offer } from "../utils/offers.js";
+
+// Latest scrape of one platform listing, shared by every user tracking it
+interface CatalogListing {
+    platform: string;
+    platformProductId: string;
+    url: string;
+    title: string;
+    currentPrice: number;
+    originalPrice?: number;
+    discount?: number;
+    availability: 'in_stock' | 'out_of_stock' | 'limited_stock';
+    seller?: string;
+    rating?: number;
+    reviews?: number;
+    // Checkout offers on the page, so a refresh served from the catalog keeps them
+    offers?: Offer[];
+    lastScraped: Date;
+}
+
+interface CatalogProductI extends Document<Types.ObjectId> {
+    title: string;
+    brand?: string;
+    category?: string;
+    image?: string;
+    gtin?: string;
+    modelNumber?: string;
+
+    // Normalized match keys: `amazon:<ASIN>`, `flipkart:<FSN>`, `<platform>:<id>`, `gtin:<GTIN-14>`, `mpn:<brand>:<model>`
+    identifiers: string[];
+    normalizedBrand?: string;
+    titleTokens: string[];
+
+    listings: CatalogListing[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CatalogProductSchema = new Schema<CatalogProductI>({
+    title: {type: String, required: true, trim: true},
+    brand: String,
+    category: String,
+    image: String,
+    gtin: String,
+    modelNumber: String,
+
+    identifiers: {type: [String], default: []},
+    normalizedBrand: String,
+    titleTokens: {type: [String], default: []},
+
+    listings: [{
+        platform: {type: String, required: true},
+        platformProductId: {type: String, required: true},
+        url: {type: String, required: true},
+        title: {type: String, required: true},
+        currentPrice: {type: Number, required: true},
+        originalPrice: Number,
+        discount: Number,
+        availability: {type: String, enum: ['in_stock', 'out_of_stock', 'limited_stock'], default: 'in_stock'},
+        seller: String,
+        rating: Number,
+        reviews: Number,
+        offers: {type: [Schema.Types.Mixed], default: undefined},
+        lastScraped: {type: Date, default: Date.now}
+    }]
+}, {timestamps: true});
+
+// An identifier belongs to exactly one catalog entry
+CatalogProductSchema.index({ identifiers: 1 }, { unique: true });
+CatalogProductSchema.index({ normalizedBrand: 1, titleTokens: 1 });
+
+export const CatalogProduct = mongoose.model<CatalogProductI>("CatalogProduct", CatalogProductSchema);
+export type { CatalogProductI, CatalogListing };
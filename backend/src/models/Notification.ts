@@ -0,0 +1,47 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+type NotificationChannelType = 'email' | 'webhook' | 'in_app';
+
+interface DeliveryI {
+    channel: NotificationChannelType;
+    status: 'pending' | 'sent' | 'failed';
+    attempts: number;
+    error?: string;
+    deliveredAt?: Date;
+}
+
+interface NotificationI extends Document {
+    user: Schema.Types.ObjectId;
+    type: string;
+    title: string;
+    message: string;
+    data?: Record<string, any>;
+    deliveries: DeliveryI[];
+    readAt?: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const NotificationSchema = new Schema<NotificationI>({
+    user: {type: Schema.Types.ObjectId, ref: "User", required: true},
+    type: {type: String, required: true},
+    title: {type: String, required: true},
+    message: {type: String, required: true},
+    data: {type: Schema.Types.Mixed},
+    deliveries: [{
+        _id: false,
+        channel: {type: String, enum: ['email', 'webhook', 'in_app'], required: true},
+        status: {type: String, enum: ['pending', 'sent', 'failed'], default: 'pending'},
+        attempts: {type: Number, default: 0},
+        error: String,
+        deliveredAt: Date
+    }],
+    readAt: {type: Date, default: null}
+}, {timestamps: true});
+
+NotificationSchema.index({ user: 1, createdAt: -1 });
+NotificationSchema.index({ user: 1, readAt: 1 });
+
+export const Notification = mongoose.model<NotificationI>("Notification", NotificationSchema);
+
+export type { NotificationI, NotificationChannelType, DeliveryI };
@@ -0,0 +1,44 @@
+import mongoose, { Schema } from "mongoose";
+import { PRICE_HISTORY_CONFIG } from "../config/priceHistoryConfig.js";
+
+type PriceSource = 'scraped' | 'historical_api' | 'manual' | 'ai_fetched' | 'ai_updated';
+
+// One price reading of one listing. Stored in a time-series collection; the
+// TTL is the raw retention, kept in sync by `applyRetentionPolicy`.
+interface PriceObservationI {
+    observedAt: Date;
+    meta: {
+        product: mongoose.Types.ObjectId;
+        platform: string;
+        listing: string;
+    };
+    price: number;
+    // MRP as listed at the time, kept to spot MRP inflation
+    originalPrice?: number;
+    availability?: 'in_stock' | 'out_of_stock' | 'limited_stock';
+    source: PriceSource;
+}
+
+const PriceObservationSchema = new Schema<PriceObservationI>({
+    observedAt: {type: Date, required: true},
+    meta: {
+        product: {type: Schema.Types.ObjectId, ref: "Product", required: true},
+        platform: {type: String, required: true},
+        listing: {type: String, required: true}
+    },
+    price: {type: Number, required: true},
+    originalPrice: Number,
+    availability: {type: String, enum: ['in_stock', 'out_of_stock', 'limited_stock']},
+    source: {type: String, enum: ['scraped', 'historical_api', 'manual', 'ai_fetched', 'ai_updated'], default: 'scraped'}
+}, {
+    timeseries: {timeField: 'observedAt', metaField: 'meta', granularity: 'hours'},
+    ...(PRICE_HISTORY_CONFIG.retentionDays.raw > 0 ? {expireAfterSeconds: PRICE_HISTORY_CONFIG.retentionDays.raw * 86400} : {}),
+    versionKey: false
+});
+
+PriceObservationSchema.index({ 'meta.product': 1, 'meta.platform': 1, observedAt: 1 });
+// A listing's history across every user tracking it
+PriceObservationSchema.index({ 'meta.platform': 1, 'meta.listing': 1, observedAt: 1 });
+
+export const PriceObservation = mongoose.model<PriceObservationI>("PriceObservation", PriceObservationSchema);
+export type { PriceObservationI, PriceSource };
@@ -0,0 +1,43 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { RollupGranularity } from "../config/priceHistoryConfig.js";
+
+// Aggregated prices of one platform listing over an hour, day or week. Rollups
+// outlive raw observations, so long history ranges are served from here.
+interface PriceRollupI extends Document {
+    product: mongoose.Types.ObjectId;
+    platform: string;
+    listing: string;
+    granularity: RollupGranularity;
+    bucketStart: Date;
+    min: number;
+    max: number;
+    avg: number;
+    close: number;
+    count: number;
+    closedAt: Date;
+    // Last MRP listed in the bucket
+    mrp?: number;
+}
+
+const PriceRollupSchema = new Schema<PriceRollupI>({
+    product: {type: Schema.Types.ObjectId, ref: "Product", required: true},
+    platform: {type: String, required: true},
+    listing: {type: String, required: true},
+    granularity: {type: String, enum: ['hour', 'day', 'week'], required: true},
+    bucketStart: {type: Date, required: true},
+    min: {type: Number, required: true},
+    max: {type: Number, required: true},
+    avg: {type: Number, required: true},
+    close: {type: Number, required: true},
+    count: {type: Number, required: true},
+    closedAt: {type: Date, required: true},
+    mrp: Number
+}, {versionKey: false});
+
+PriceRollupSchema.index({ product: 1, granularity: 1, platform: 1, bucketStart: 1 }, { unique: true });
+PriceRollupSchema.index({ granularity: 1, bucketStart: 1 });
+// Daily history of one listing across every product tracking it
+PriceRollupSchema.index({ platform: 1, listing: 1, granularity: 1, bucketStart: 1 });
+
+export const PriceRollup = mongoose.model<PriceRollupI>("PriceRollup", PriceRollupSchema);
+export type { PriceRollupI };
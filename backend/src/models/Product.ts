@@ -1,23 +1,26 @@
-import mongoose, { Schema, type Document } from "mongoose";
-
-interface PricePoint{
-    date: Date;
-    price: number;
-    source: 'scraped' | 'historical_api' | 'manual';
-    availability?: 'in_stock' | 'out_of_stock' | 'limited_stock';
-}
+import mongoose, { Schema, type Document, type Types } from "mongoose";
+import type { Offer } from "../utils/offers.js";
 
 interface PlatformData {
     url: string;
     platformProductId: string;
     currentPrice: number;
-    availability: 'in_stck' | 'out_of_stock' | 'limited_stock';
+    // MRP and discount as claimed by the platform on the last scrape
+    originalPrice?: number;
+    discount?: number;
+    // Checkout offers seen on the last scrape, and what the owner pays with them
+    // using their saved payment methods
+    offers?: Offer[];
+    effectivePrice?: number;
+    availability: 'in_stock' | 'out_of_stock' | 'limited_stock';
     seller?: string;
     rating?: number;
     reviews?: number;
-    priceHistory: PricePoint[];
     lastScraped: Date;
     isActive: boolean;
+    failureCount: number;
+    lastFailureAt?: Date;
+    lastError?: string;
 }
 
 
@@ -27,12 +30,16 @@ interface ProductI extends Document{
     category?: string;
     image?: string[];
 
+    // Id of the shared CatalogProduct, the same for every user tracking this item
     masterProductId: string;
+    catalogProduct?: Types.ObjectId;
     platforms: Map<string, PlatformData>
 
     user: Schema.Types.ObjectId;
     selectedPlatforms: string[];
     trackingStartDate: Date;
+    refreshIntervalMinutes: number;
+    nextRefreshAt: Date;
 
     historicalDataStatus: {
         hasHistoricalData: boolean;
@@ -58,6 +65,7 @@ const ProductSchema = new Schema<ProductI>({
         type: String,
         required: true,
     },
+    catalogProduct: {type: Schema.Types.ObjectId, ref: "CatalogProduct"},
 
     platforms:{
         type: Map,
@@ -65,24 +73,27 @@ const ProductSchema = new Schema<ProductI>({
             url: {type: String, required: true},
             platformProductId: {type: String, required: true},
             currentPrice: {type: Number, required: true},
+            originalPrice: Number,
+            discount: Number,
+            offers: {type: [Schema.Types.Mixed], default: undefined},
+            effectivePrice: Number,
             availability: {type: String, enum:['in_stock', 'out_of_stock', 'limited_stock'] , default: 'in_stock'},
             seller: String,
             rating: Number,
             reviews: Number,
-            priceHistory: [{
-                date: {type: Date, required: true},
-                price: {type: Number, required: true},
-                source: {type: String, enum:['scraped', 'historical_api', 'manual'], default: 'scraped'},
-                availability: {type: String, enum: ['in_stock', 'out_of_stock', 'limited_stock']}
-            }],
             lastScraped: {type: Date, default: Date.now},
-            isActive: {type: Boolean, default: true}
+            isActive: {type: Boolean, default: true},
+            failureCount: {type: Number, default: 0},
+            lastFailureAt: Date,
+            lastError: String
         }
     },
 
     user: {type: Schema.Types.ObjectId, required: true, ref: "User"},
     selectedPlatforms: {type: [String], required: true},
     trackingStartDate: {type: Date, default: Date.now},
+    refreshIntervalMinutes: {type: Number, default: 360, min: 15},
+    nextRefreshAt: {type: Date, default: Date.now},
 
     historicalDataStatus: {
         hasHistoricalData: {type: Boolean, default: false},
@@ -99,8 +110,10 @@ const ProductSchema = new Schema<ProductI>({
 
 ProductSchema.index({ user: 1 });
 ProductSchema.index({ masterProductId: 1 });
+ProductSchema.index({ catalogProduct: 1 });
 ProductSchema.index({ selectedPlatforms: 1 });
+ProductSchema.index({ nextRefreshAt: 1 });
 
 
 export const Product = mongoose.model<ProductI>("Product", ProductSchema);
-export type { ProductI, PricePoint };
\ No newline at end of file
+export type { ProductI, PlatformData };
\ No newline at end of file
@@ -1,9 +1,17 @@
 import mongoose, {Schema, Document} from "mongoose";
+import type { DiscountAuthenticity } from "../services/discountAuthenticity.service.js";
+import type { EffectivePrice, Offer } from "../utils/offers.js";
 
 interface productVariant {
     platform: string;
     url: string;
     price: number;
+    originalPrice?: number;
+    discount?: number;
+    discountAuthenticity?: DiscountAuthenticity;
+    offers?: Offer[];
+    // What the searching user pays with their saved payment methods
+    pricing?: EffectivePrice;
     availability: string;
     seller?: string;
     rating?: number;
@@ -12,6 +20,9 @@ interface productVariant {
     lastUpdated: Date;
 }
 
+// A repeated search by the same user is answered from their stored one for this long
+export const RECENT_SEARCH_TTL_SECONDS = 3600;
+
 interface ProductSearchI extends Document {
     SearchQuery: string;
     searchId: string,
@@ -28,6 +39,11 @@ const ProductSearchSchema = new Schema<ProductSearchI>({
         platform: {type: String, required: true},
         url: {type: String, required: true},
         price: {type: Number, required: true, min: 0},
+        originalPrice: Number,
+        discount: Number,
+        discountAuthenticity: Schema.Types.Mixed,
+        offers: {type: [Schema.Types.Mixed], default: undefined},
+        pricing: Schema.Types.Mixed,
         availability: { type: String, default: 'in_stock'},
         seller: String, 
         rating: Number,
@@ -39,7 +55,7 @@ const ProductSearchSchema = new Schema<ProductSearchI>({
     expiresAt:{
         type: Date,
         default: Date.now,
-        expires: 3600
+        expires: RECENT_SEARCH_TTL_SECONDS
     }
 },{timestamps: true});
 
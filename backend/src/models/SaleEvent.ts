@@ -0,0 +1,49 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+// One dated occurrence of a sale (Big Billion Days 2026, Prime Day 2026...). Dates
+// shift every year, so each occurrence is its own editable entry.
+interface SaleEventI extends Document {
+    name: string;
+    // Empty means every platform
+    platforms: string[];
+    // Keywords matched against product categories, empty means every category
+    categories: string[];
+    startsAt: Date;
+    endsAt: Date;
+    // Discount range in percent that the sale usually brings
+    typicalDiscount?: { min: number; max: number };
+    notes?: string;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SaleEventSchema = new Schema<SaleEventI>({
+    name: {type: String, required: true, trim: true},
+    platforms: {type: [String], default: []},
+    categories: {type: [String], default: []},
+    startsAt: {type: Date, required: true},
+    endsAt: {type: Date, required: true},
+    typicalDiscount: {
+        type: new Schema({
+            min: {type: Number, min: 0, max: 100, required: true},
+            max: {type: Number, min: 0, max: 100, required: true}
+        }, {_id: false}),
+        required: false
+    },
+    notes: String,
+    isActive: {type: Boolean, default: true}
+}, {timestamps: true});
+
+SaleEventSchema.pre('validate', function (next) {
+    if (this.startsAt && this.endsAt && this.endsAt < this.startsAt) {
+        this.invalidate('endsAt', 'endsAt must not be before startsAt');
+    }
+    next();
+});
+
+SaleEventSchema.index({ name: 1, startsAt: 1 }, { unique: true });
+SaleEventSchema.index({ endsAt: 1, startsAt: 1 });
+
+export const SaleEvent = mongoose.model<SaleEventI>("SaleEvent", SaleEventSchema);
+export type { SaleEventI };
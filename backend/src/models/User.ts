@@ -1,5 +1,16 @@
 import mongoose, {Schema, Document, Types} from "mongoose";
 import bcrypt from 'bcrypt';
+import type { PaymentMethod } from '../utils/offers.js';
+
+interface NotificationPreferences {
+    email: { enabled: boolean };
+    inApp: { enabled: boolean };
+    webhook: {
+        enabled: boolean;
+        url?: string;
+        secret?: string;
+    };
+}
 
 interface userI extends Document {
     _id: Types.ObjectId;
@@ -7,6 +18,7 @@ interface userI extends Document {
     password?: string | undefined;
     name: string;
     isEmailVerified?: boolean;
+    role: 'user' | 'admin';
     googleId: string;
     authProviders: ('local' | 'google')[];
     resetPasswordToken?: string;
@@ -16,10 +28,19 @@ interface userI extends Document {
     updatedAt: Date;
     searchCount: number;
     searchLimitResetsAt?: Date | null;
+    notificationPreferences: NotificationPreferences;
+    // Cards and accounts the user pays with, used to work out effective prices after bank offers
+    paymentMethods: PaymentMethod[];
 
     comparePasswords(candidatePassword: string): Promise<boolean>;
 };
 
+const PaymentMethodSchema = new Schema<PaymentMethod>({
+    type: {type: String, enum: ['credit_card', 'debit_card', 'upi', 'netbanking'], required: true},
+    bank: {type: String, required: true},
+    label: {type: String, trim: true}
+}, {_id: false});
+
 const userSchema = new  Schema<userI>({
     email: {type: String, required: true, unique: true, trim: true},
     password : {
@@ -28,6 +49,7 @@ const userSchema = new  Schema<userI>({
         minLength: 6},
     name: {type: String, trim: true, required: true},
     isEmailVerified: {type: Boolean, default: false},
+    role: {type: String, enum: ['user', 'admin'], default: 'user'},
     googleId: {type: String, unique: true, sparse: true},
     authProviders: {
         type: [String],
@@ -43,7 +65,21 @@ const userSchema = new  Schema<userI>({
     },
     searchLimitResetsAt: {
         type: Date
-    }
+    },
+    notificationPreferences: {
+        email: {
+            enabled: {type: Boolean, default: true}
+        },
+        inApp: {
+            enabled: {type: Boolean, default: true}
+        },
+        webhook: {
+            enabled: {type: Boolean, default: false},
+            url: String,
+            secret: {type: String, select: false}
+        }
+    },
+    paymentMethods: {type: [PaymentMethodSchema], default: []}
 },{
     timestamps: true,
     toJSON: {transform:(doc, ret) => {
@@ -75,4 +111,4 @@ userSchema.methods.comparePasswords = async function(candidatePassword: string):
 
 export const User = mongoose.model<userI>("User", userSchema);
 
-export type {userI};
\ No newline at end of file
+export type {userI, NotificationPreferences};
\ No newline at end of file
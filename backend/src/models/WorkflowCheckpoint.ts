@@ -0,0 +1,62 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import { WORKFLOW_CONFIG } from "../config/workflowConfig.js";
+
+// Serialized LangGraph checkpoints, one per superstep of a workflow run (thread). `type` is the
+// serializer's type tag; JSON payloads are stored as text so they stay readable in the database.
+interface WorkflowCheckpointI extends Document {
+    threadId: string;
+    checkpointNs: string;
+    // uuid6, so ids sort in creation order
+    checkpointId: string;
+    parentCheckpointId?: string;
+    type: string;
+    checkpoint: string;
+    metadata: string;
+    createdAt: Date;
+}
+
+// Writes a node produced for a checkpoint, kept until the next checkpoint includes them
+interface WorkflowCheckpointWriteI extends Document {
+    threadId: string;
+    checkpointNs: string;
+    checkpointId: string;
+    taskId: string;
+    idx: number;
+    channel: string;
+    type: string;
+    value: string;
+    createdAt: Date;
+}
+
+const expireAfterSeconds = WORKFLOW_CONFIG.runRetentionDays * 24 * 3600;
+
+const WorkflowCheckpointSchema = new Schema<WorkflowCheckpointI>({
+    threadId: {type: String, required: true},
+    checkpointNs: {type: String, default: ''},
+    checkpointId: {type: String, required: true},
+    parentCheckpointId: String,
+    type: {type: String, required: true},
+    checkpoint: {type: String, required: true},
+    metadata: {type: String, required: true}
+}, {timestamps: {createdAt: true, updatedAt: false}});
+
+WorkflowCheckpointSchema.index({ threadId: 1, checkpointNs: 1, checkpointId: -1 }, { unique: true });
+WorkflowCheckpointSchema.index({ createdAt: 1 }, { expireAfterSeconds });
+
+const WorkflowCheckpointWriteSchema = new Schema<WorkflowCheckpointWriteI>({
+    threadId: {type: String, required: true},
+    checkpointNs: {type: String, default: ''},
+    checkpointId: {type: String, required: true},
+    taskId: {type: String, required: true},
+    idx: {type: Number, required: true},
+    channel: {type: String, required: true},
+    type: {type: String, required: true},
+    value: {type: String, required: true}
+}, {timestamps: {createdAt: true, updatedAt: false}});
+
+WorkflowCheckpointWriteSchema.index({ threadId: 1, checkpointNs: 1, checkpointId: 1, taskId: 1, idx: 1 }, { unique: true });
+WorkflowCheckpointWriteSchema.index({ createdAt: 1 }, { expireAfterSeconds });
+
+export const WorkflowCheckpoint = mongoose.model<WorkflowCheckpointI>("WorkflowCheckpoint", WorkflowCheckpointSchema);
+export const WorkflowCheckpointWrite = mongoose.model<WorkflowCheckpointWriteI>("WorkflowCheckpointWrite", WorkflowCheckpointWriteSchema);
+export type { WorkflowCheckpointI, WorkflowCheckpointWriteI };
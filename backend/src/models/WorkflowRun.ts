@@ -0,0 +1,112 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { LLMFeature, LLMUsage } from "../services/llm/index.js";
+import type { LLMProviderName } from "../config/llmConfig.js";
+import { WORKFLOW_CONFIG } from "../config/workflowConfig.js";
+
+type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+interface WorkflowStepI {
+    node: string;
+    status: 'completed' | 'failed';
+    startedAt: Date;
+    durationMs: number;
+    // State update the node returned, with messages flattened to text
+    update?: Record<string, unknown>;
+    error?: string;
+}
+
+interface LLMCallI {
+    node?: string;
+    feature: LLMFeature;
+    provider: LLMProviderName;
+    model: string;
+    prompt: string;
+    // Raw model text before parsing and validation
+    output?: string;
+    usage?: LLMUsage;
+    // Answered from the response cache; `output` is then the validated JSON
+    cached?: boolean;
+    startedAt: Date;
+    durationMs: number;
+    error?: string;
+}
+
+// One execution of the price intelligence workflow. Full state after every superstep is in
+// the WorkflowCheckpoint collection under the same id (the LangGraph thread id).
+interface WorkflowRunI extends Document {
+    runId: string;
+    user: Schema.Types.ObjectId;
+    query: string;
+    status: WorkflowRunStatus;
+    provider: { name: LLMProviderName; model: string };
+    // Set on runs started by replaying an earlier one
+    replayOf?: string;
+    searchId?: string;
+    steps: WorkflowStepI[];
+    llmCalls: LLMCallI[];
+    messages: string[];
+    // Final workflow state without the messages
+    result?: Record<string, unknown>;
+    error?: { message: string; code?: string };
+    startedAt: Date;
+    finishedAt?: Date;
+    durationMs?: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const WorkflowRunSchema = new Schema<WorkflowRunI>({
+    runId: {type: String, required: true, unique: true},
+    user: {type: Schema.Types.ObjectId, ref: "User", required: true},
+    query: {type: String, required: true},
+    status: {type: String, enum: ['running', 'completed', 'failed', 'cancelled'], default: 'running'},
+    provider: {
+        name: {type: String, required: true},
+        model: {type: String, required: true}
+    },
+    replayOf: String,
+    searchId: String,
+    steps: [{
+        _id: false,
+        node: {type: String, required: true},
+        status: {type: String, enum: ['completed', 'failed'], required: true},
+        startedAt: {type: Date, required: true},
+        durationMs: {type: Number, required: true},
+        update: Schema.Types.Mixed,
+        error: String
+    }],
+    llmCalls: [{
+        _id: false,
+        node: String,
+        feature: {type: String, required: true},
+        provider: {type: String, required: true},
+        model: {type: String, required: true},
+        prompt: {type: String, required: true},
+        output: String,
+        usage: {
+            inputTokens: Number,
+            outputTokens: Number
+        },
+        cached: Boolean,
+        startedAt: {type: Date, required: true},
+        durationMs: {type: Number, required: true},
+        error: String
+    }],
+    messages: {type: [String], default: []},
+    result: Schema.Types.Mixed,
+    error: {
+        message: String,
+        code: String
+    },
+    startedAt: {type: Date, required: true},
+    finishedAt: Date,
+    durationMs: Number
+}, {timestamps: true});
+
+WorkflowRunSchema.index({ user: 1, startedAt: -1 });
+WorkflowRunSchema.index({ status: 1, startedAt: -1 });
+WorkflowRunSchema.index({ searchId: 1 }, { sparse: true });
+WorkflowRunSchema.index({ createdAt: 1 }, { expireAfterSeconds: WORKFLOW_CONFIG.runRetentionDays * 24 * 3600 });
+
+export const WorkflowRun = mongoose.model<WorkflowRunI>("WorkflowRun", WorkflowRunSchema);
+export type { WorkflowRunI, WorkflowRunStatus, WorkflowStepI, LLMCallI };
@@ -1,18 +1,38 @@
 import express from "express";
 import { authRateLimit } from "../middlewares/rateLimiter.js";
 import * as authController from '../controllers/auth.controller.js';
-import { loginSchema, signupSchema, validate } from "../middlewares/authValidationSchema.js";
+import { forgotPasswordSchema, loginSchema, oauthCodeSchema, providerSchema, resetPasswordSchema, sessionSchema, setPasswordSchema, signupSchema, updateProfileSchema, verifyEmailSchema } from "../middlewares/authValidationSchema.js";
 import { auth } from "../middlewares/authentication.middleware.js";
+import { documented } from "../utils/openapi.js";
+import * as schemas from "../utils/response.schemas.js";
 
 const router = express.Router();
+const route = documented(router, { basePath: '/api/auth', tag: 'Auth' });
 
-router.post('/signup', authRateLimit, validate(signupSchema), authController.signup);
-router.post('/login', authRateLimit, validate(loginSchema), authController.login);
-router.post('/logout', auth, authController.logout);
+route.post('/signup', { summary: 'Create an account', request: signupSchema, response: schemas.authTokensResponse }, authRateLimit, authController.signup);
+route.post('/login', { summary: 'Log in with email and password', request: loginSchema, response: schemas.authTokensResponse }, authRateLimit, authController.login);
+route.post('/logout', { summary: 'Log out and revoke the current session', auth: true, response: schemas.messageResponse }, auth, authController.logout);
+route.post('/refresh-token', { summary: 'Rotate the refresh token cookie and issue a new access token', response: schemas.authTokensResponse }, authController.refreshToken);
 
-// forgot password;
+route.get('/sessions', { summary: 'List active device sessions', auth: true, response: schemas.sessionsResponse }, auth, authController.getSessions);
+route.delete('/sessions', { summary: 'Revoke every session except the current one', auth: true, response: schemas.revokedSessionsResponse }, auth, authController.revokeOtherSessions);
+route.delete('/sessions/:sessionId', { summary: 'Revoke a session', auth: true, request: sessionSchema, response: schemas.messageResponse }, auth, authController.revokeSession);
 
-router.get("/me", auth, authController.getMe);
-router.put('/profile', auth, authController.updateProfile);
+route.post('/forgot-password', { summary: 'Send a password reset email', request: forgotPasswordSchema, response: schemas.messageResponse }, authRateLimit, authController.forgotPassword);
+route.post('/reset-password/:token', { summary: 'Reset the password with an emailed token', request: resetPasswordSchema, response: schemas.messageResponse }, authRateLimit, authController.resetPassword);
 
-export default router;
\ No newline at end of file
+route.post('/verify-email/resend', { summary: 'Resend the verification email', auth: true, response: schemas.messageResponse }, auth, authController.resendVerificationEmail);
+route.get('/verify-email/status', { summary: 'Check whether the email address is verified', auth: true, response: schemas.emailVerifiedResponse }, auth, authController.isEmailVerified);
+route.post('/verify-email/:token', { summary: 'Verify the email address with an emailed token', request: verifyEmailSchema, response: schemas.messageResponse }, authController.verifyEmail);
+
+route.get('/google', { summary: 'Start Google sign-in', description: 'Redirects to Google.' }, authRateLimit, authController.googleAuth);
+route.get('/google/callback', { summary: 'Google OAuth callback', description: 'Redirects to `CLIENT_URL/oauth/callback` with a one-time `code` to exchange for tokens, `linked=google` after linking, or `error` with the error code.' }, authController.googleCallback);
+route.post('/google/exchange', { summary: 'Exchange a one-time Google sign-in code for tokens', description: 'Codes expire after a minute and work once.', request: oauthCodeSchema, response: schemas.authTokensResponse }, authRateLimit, authController.exchangeGoogleCode);
+route.post('/link/google', { summary: 'Get the URL that links a Google account to this user', auth: true, response: schemas.googleLinkResponse }, auth, authController.startGoogleLink);
+route.post('/providers/local', { summary: 'Enable password sign-in', auth: true, request: setPasswordSchema, response: schemas.authProvidersResponse }, auth, authController.addPasswordLogin);
+route.delete('/providers/:provider', { summary: 'Remove a sign-in provider', auth: true, request: providerSchema, response: schemas.authProvidersResponse }, auth, authController.unlinkProvider);
+
+route.get("/me", { summary: 'Get the current user', auth: true, response: schemas.userResponse }, auth, authController.getMe);
+route.put('/profile', { summary: 'Update the profile', auth: true, request: updateProfileSchema, response: schemas.profileResponse }, auth, authController.updateProfile);
+
+export default router;
@@ -0,0 +1,15 @@
+import express from 'express';
+import { auth, requireAdmin } from '../middlewares/authentication.middleware.js';
+import { getLLMCacheStats, resetLLMCacheStats } from '../controllers/llmCache.controller.js';
+import { documented } from '../utils/openapi.js';
+import * as schemas from '../utils/response.schemas.js';
+
+const router = express.Router();
+const route = documented(router, { basePath: '/api/llm-cache', tag: 'LLM cache', auth: true });
+
+router.use(auth, requireAdmin);
+
+route.get('/stats', { summary: 'Get LLM response cache counters', description: 'Administrators only. Hits, misses, shared in-flight answers and stored entries per feature, counted across all instances.', response: schemas.llmCacheStatsResponse }, getLLMCacheStats);
+route.delete('/stats', { summary: 'Reset LLM response cache counters', description: 'Administrators only. Cached entries are kept.', response: schemas.messageResponse }, resetLLMCacheStats);
+
+export default router;
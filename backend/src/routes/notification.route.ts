@@ -0,0 +1,31 @@
+import express from 'express';
+import { auth, requireVerifiedEmail } from '../middlewares/authentication.middleware.js';
+import {
+    getNotifications,
+    getUnreadCount,
+    markRead,
+    markAllRead,
+    deleteNotification,
+    getPreferences,
+    updatePreferences
+} from '../controllers/notification.controller.js';
+import { notificationValidation } from '../middlewares/validation.middleware.js';
+import { documented } from '../utils/openapi.js';
+import * as schemas from '../utils/response.schemas.js';
+
+const router = express.Router();
+const route = documented(router, { basePath: '/api/notifications', tag: 'Notifications', auth: true });
+
+router.use(auth);
+
+route.get('/', { summary: 'List in-app notifications', request: notificationValidation.list, response: schemas.notificationListResponse }, getNotifications);
+route.get('/unread-count', { summary: 'Count unread notifications', response: schemas.unreadCountResponse }, getUnreadCount);
+route.put('/read-all', { summary: 'Mark every notification as read', response: schemas.markAllReadResponse }, markAllRead);
+
+route.get('/preferences', { summary: 'Get notification channel preferences', response: schemas.preferencesResponse }, getPreferences);
+route.put('/preferences', { summary: 'Update notification channel preferences', description: 'Requires a verified email address. Enabling the webhook channel returns its signing secret once.', request: notificationValidation.preferences, response: schemas.updatePreferencesResponse }, requireVerifiedEmail, updatePreferences);
+
+route.put('/:id/read', { summary: 'Mark a notification as read or unread', request: notificationValidation.read, response: schemas.notificationResponse }, markRead);
+route.delete('/:id', { summary: 'Delete a notification', request: notificationValidation.byId, response: schemas.messageResponse }, deleteNotification);
+
+export default router;
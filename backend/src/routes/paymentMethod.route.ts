@@ -0,0 +1,21 @@
+import express from 'express';
+import { auth } from '../middlewares/authentication.middleware.js';
+import {
+    getPaymentMethods,
+    replacePaymentMethods,
+    getSupportedBanks
+} from '../controllers/paymentMethod.controller.js';
+import { paymentMethodValidation } from '../middlewares/validation.middleware.js';
+import { documented } from '../utils/openapi.js';
+import * as schemas from '../utils/response.schemas.js';
+
+const router = express.Router();
+const route = documented(router, { basePath: '/api/payment-methods', tag: 'Payment methods', auth: true });
+
+router.use(auth);
+
+route.get('/', { summary: 'List saved payment methods', response: schemas.paymentMethodListResponse }, getPaymentMethods);
+route.put('/', { summary: 'Replace saved payment methods', description: 'Effective prices of tracked products are recomputed for the new methods.', request: paymentMethodValidation.replace, response: schemas.updatePaymentMethodsResponse }, replacePaymentMethods);
+route.get('/banks', { summary: 'List banks that offers can be matched to', response: schemas.supportedBanksResponse }, getSupportedBanks);
+
+export default router;
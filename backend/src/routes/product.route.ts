@@ -1,26 +1,51 @@
 import express from 'express';
-import { auth } from '../middlewares/authentication.middleware.js';
+import { auth, requireVerifiedEmail } from '../middlewares/authentication.middleware.js';
 import { 
     searchProducts,
+    streamSearch,
     trackProduct,
     getUserProducts,
+    getProduct,
     updateProduct,
     deleteProduct,
-    getProductHistory
+    getProductHistory,
+    getProductAnalytics,
+    getEffectivePrices
 } from '../controllers/product.controller.js';
-import { productValidation } from '../middlewares/validation.middleware.js';
+import {
+    createAlert,
+    getAlerts,
+    getAlertHistory,
+    updateAlert,
+    deleteAlert
+} from '../controllers/alert.controller.js';
+import { productValidation, alertValidation } from '../middlewares/validation.middleware.js';
+import { documented } from '../utils/openapi.js';
+import * as schemas from '../utils/response.schemas.js';
+import { EVENT_STREAM_CONTENT_TYPE } from '../utils/sse.js';
 
 const router = express.Router();
+const route = documented(router, { basePath: '/api/products', tag: 'Products', auth: true });
 
 router.use(auth);
 
-router.post('/search', productValidation.search, searchProducts);
-router.post('/track', productValidation.track, trackProduct);
+route.post('/search', { summary: 'Search products across platforms with AI analysis', request: productValidation.search, response: schemas.searchResponse }, searchProducts);
+route.post('/search/stream', { summary: 'Stream a product search step by step', description: 'Server-Sent Events: listings are sent as soon as they are found, followed by the market analysis, price prediction and recommendation as each finishes. Failures after the stream opens arrive as an `error` event.', request: productValidation.search, response: schemas.searchStreamEvent, contentType: EVENT_STREAM_CONTENT_TYPE }, streamSearch);
+route.post('/track', { summary: 'Start tracking a product', request: productValidation.track, response: schemas.trackResponse, status: 201 }, trackProduct);
 
-router.get('/user', getUserProducts);
-router.put('/:id', productValidation.update, updateProduct);
-router.delete('/:id', deleteProduct);
+route.get('/user', { summary: "List the user's tracked products", request: productValidation.list, response: schemas.productListResponse }, getUserProducts);
+route.get('/:id', { summary: 'Get a tracked product', description: 'Includes a verdict per active platform on whether the claimed discount holds up against tracked prices.', request: productValidation.byId, response: schemas.productDetailResponse }, getProduct);
+route.put('/:id', { summary: 'Update a tracked product', request: productValidation.update, response: schemas.productResponse }, updateProduct);
+route.delete('/:id', { summary: 'Stop tracking a product', request: productValidation.byId, response: schemas.messageResponse }, deleteProduct);
 
-router.get('/:id/history', getProductHistory);
+route.get('/:id/history', { summary: 'Get price history for charting', request: productValidation.history, response: schemas.priceHistoryResponse }, getProductHistory);
+route.get('/:id/analytics', { summary: 'Get price statistics and a deal score', description: 'Computed per platform and for the cheapest platform over time, from the tracked daily price history.', request: productValidation.byId, response: schemas.productAnalyticsResponse }, getProductAnalytics);
+route.get('/:id/effective-price', { summary: 'Get what you pay on each platform after offers', description: 'Applies the listings\' bank offers, coupons and (optionally) exchange bonuses for your saved payment methods, cheapest platform first.', request: productValidation.effectivePrice, response: schemas.effectivePriceResponse }, getEffectivePrices);
 
-export default router;
\ No newline at end of file
+route.post('/:id/alerts', { summary: 'Create a price alert', description: 'Requires a verified email address.', request: alertValidation.create, response: schemas.alertResponse, status: 201 }, requireVerifiedEmail, createAlert);
+route.get('/:id/alerts', { summary: 'List price alerts for a product', request: alertValidation.list, response: schemas.alertListResponse }, getAlerts);
+route.get('/:id/alerts/history', { summary: 'List triggered alerts for a product', request: alertValidation.history, response: schemas.alertHistoryResponse }, getAlertHistory);
+route.put('/:id/alerts/:alertId', { summary: 'Update a price alert', request: alertValidation.update, response: schemas.alertResponse }, updateAlert);
+route.delete('/:id/alerts/:alertId', { summary: 'Delete a price alert', request: alertValidation.byId, response: schemas.messageResponse }, deleteAlert);
+
+export default router;
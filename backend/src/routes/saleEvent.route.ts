@@ -0,0 +1,24 @@
+import express from 'express';
+import { auth, requireAdmin } from '../middlewares/authentication.middleware.js';
+import {
+    getSaleEvents,
+    createSaleEvent,
+    updateSaleEvent,
+    deleteSaleEvent
+} from '../controllers/saleEvent.controller.js';
+import { saleEventValidation } from '../middlewares/validation.middleware.js';
+import { documented } from '../utils/openapi.js';
+import * as schemas from '../utils/response.schemas.js';
+
+const router = express.Router();
+const route = documented(router, { basePath: '/api/sale-events', tag: 'Sale events', auth: true });
+
+router.use(auth);
+
+route.get('/', { summary: 'List upcoming sale events', description: 'Events that have not ended by `from` (default now).', request: saleEventValidation.list, response: schemas.saleEventListResponse }, getSaleEvents);
+
+route.post('/', { summary: 'Add a sale event', description: 'Administrators only.', request: saleEventValidation.create, response: schemas.saleEventResponse, status: 201 }, requireAdmin, createSaleEvent);
+route.put('/:id', { summary: 'Update a sale event', description: 'Administrators only.', request: saleEventValidation.update, response: schemas.saleEventResponse }, requireAdmin, updateSaleEvent);
+route.delete('/:id', { summary: 'Delete a sale event', description: 'Administrators only.', request: saleEventValidation.byId, response: schemas.messageResponse }, requireAdmin, deleteSaleEvent);
+
+export default router;
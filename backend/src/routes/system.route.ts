@@ -0,0 +1,25 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { buildOpenApiDocument, documented } from '../utils/openapi.js';
+import { healthResponse } from '../utils/response.schemas.js';
+
+const router = express.Router();
+const route = documented(router, { basePath: '/api', tag: 'System' });
+
+route.get('/health', { summary: 'Liveness check', response: healthResponse }, (req: Request, res: Response) => {
+    res.json({ success: true, status: 'ok', uptime: process.uptime() });
+});
+
+// The document is built on first request, after every router has registered its routes
+route.get('/openapi.json', { summary: 'OpenAPI 3.1 document for this API' }, (req: Request, res: Response) => {
+    res.json(buildOpenApiDocument());
+});
+
+router.use('/docs', swaggerUi.serve);
+router.get('/docs', swaggerUi.setup(undefined, {
+    customSiteTitle: 'AI Price Tracker API',
+    swaggerOptions: { url: '/api/openapi.json', persistAuthorization: true },
+}));
+
+export default router;
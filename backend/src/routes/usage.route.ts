@@ -0,0 +1,15 @@
+import express from 'express';
+import { auth } from '../middlewares/authentication.middleware.js';
+import { getAIUsage } from '../controllers/usage.controller.js';
+import { usageValidation } from '../middlewares/validation.middleware.js';
+import { documented } from '../utils/openapi.js';
+import * as schemas from '../utils/response.schemas.js';
+
+const router = express.Router();
+const route = documented(router, { basePath: '/api/usage', tag: 'Usage', auth: true });
+
+router.use(auth);
+
+route.get('/', { summary: 'Get AI usage and remaining quota', description: 'Requests, tokens and estimated cost per feature over the last 30 days, counted across all instances. Your own usage by default; `scope=all` and `userId` are for administrators only.', request: usageValidation.get, response: schemas.usageResponse }, getAIUsage);
+
+export default router;
@@ -10,18 +10,21 @@ import {
     getWatchlistProducts
 } from '../controllers/watchlist.controller.js';
 import { watchlistValidation } from '../middlewares/validation.middleware.js';
+import { documented } from '../utils/openapi.js';
+import * as schemas from '../utils/response.schemas.js';
 
 const router = express.Router();
+const route = documented(router, { basePath: '/api/watchlists', tag: 'Watchlists', auth: true });
 
 router.use(auth);
 
-router.post('/', watchlistValidation.create, createWatchlist);
-router.get('/user', getUserWatchlists);
-router.put('/:id', watchlistValidation.update, updateWatchlist);
-router.delete('/:id', deleteWatchlist);
+route.post('/', { summary: 'Create a watchlist', request: watchlistValidation.create, response: schemas.watchlistResponse, status: 201 }, createWatchlist);
+route.get('/user', { summary: "List the user's watchlists", response: schemas.watchlistListResponse }, getUserWatchlists);
+route.put('/:id', { summary: 'Update a watchlist', request: watchlistValidation.update, response: schemas.watchlistResponse }, updateWatchlist);
+route.delete('/:id', { summary: 'Delete a watchlist', request: watchlistValidation.byId, response: schemas.messageResponse }, deleteWatchlist);
 
-router.post('/:id/products', watchlistValidation.addProducts, addProductsToWatchlist);
-router.delete('/:id/products/:productId', removeProductFromWatchlist);
-router.get('/:id/products', getWatchlistProducts);
+route.post('/:id/products', { summary: 'Add products to a watchlist', request: watchlistValidation.addProducts, response: schemas.messageResponse }, addProductsToWatchlist);
+route.delete('/:id/products/:productId', { summary: 'Remove a product from a watchlist', request: watchlistValidation.removeProduct, response: schemas.messageResponse }, removeProductFromWatchlist);
+route.get('/:id/products', { summary: 'List the products in a watchlist', request: watchlistValidation.products, response: schemas.watchlistProductsResponse }, getWatchlistProducts);
 
-export default router;
\ No newline at end of file
+export default router;
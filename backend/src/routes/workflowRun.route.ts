@@ -0,0 +1,21 @@
+import express from 'express';
+import { auth, requireAdmin } from '../middlewares/authentication.middleware.js';
+import {
+    getWorkflowRuns,
+    getWorkflowRun,
+    replayWorkflowRun
+} from '../controllers/workflowRun.controller.js';
+import { workflowRunValidation } from '../middlewares/validation.middleware.js';
+import { documented } from '../utils/openapi.js';
+import * as schemas from '../utils/response.schemas.js';
+
+const router = express.Router();
+const route = documented(router, { basePath: '/api/workflow-runs', tag: 'Workflow runs', auth: true });
+
+router.use(auth, requireAdmin);
+
+route.get('/', { summary: 'List workflow runs', description: 'Administrators only. Newest first.', request: workflowRunValidation.list, response: schemas.workflowRunListResponse }, getWorkflowRuns);
+route.get('/:runId', { summary: 'Inspect a workflow run', description: 'Administrators only. Node steps, LLM prompts and raw outputs, and the checkpointed state after every step.', request: workflowRunValidation.byId, response: schemas.workflowRunResponse }, getWorkflowRun);
+route.post('/:runId/replay', { summary: 'Replay a workflow run on the mock provider', description: 'Administrators only. Prompts recorded on the run are answered with their recorded output; the replay is stored as a new run.', request: workflowRunValidation.byId, response: schemas.workflowReplayResponse, status: 201 }, replayWorkflowRun);
+
+export default router;
@@ -0,0 +1,64 @@
+// Moves the legacy `platforms.<name>.priceHistory` arrays embedded in products into the
+// price observation time-series collection, then backfills rollups for the whole range.
+// Run it before starting this version of the server: saving a product rewrites its
+// platforms map and would drop the legacy arrays. Safe to re-run, products are unset
+// as they are migrated.
+import mongoose from "mongoose";
+import connectDb from "../config/db.js";
+import { Product } from "../models/Product.js";
+import { applyRetentionPolicy, recordObservations, rollupPriceHistory, type ObservationInput } from "../services/priceHistory.service.js";
+
+const migrate = async () => {
+    await connectDb();
+    await applyRetentionPolicy();
+
+    const cursor = Product.collection.find(
+        { $expr: { $gt: [{ $size: { $objectToArray: { $ifNull: ['$platforms', {}] } } }, 0] } },
+        { projection: { platforms: 1 } }
+    );
+
+    let products = 0;
+    let observations = 0;
+    let earliest: Date | undefined;
+
+    for await (const doc of cursor) {
+        const unset: Record<string, ''> = {};
+        const readings: ObservationInput[] = [];
+
+        for (const [platform, data] of Object.entries<any>(doc.platforms ?? {})) {
+            if (!Array.isArray(data?.priceHistory)) continue;
+            unset[`platforms.${platform}.priceHistory`] = '';
+            for (const point of data.priceHistory) {
+                if (!point?.date || !(point.price > 0)) continue;
+                readings.push({
+                    platform,
+                    listing: data.platformProductId ?? platform,
+                    price: point.price,
+                    ...(point.availability ? { availability: point.availability } : {}),
+                    source: point.source ?? 'scraped',
+                    observedAt: new Date(point.date)
+                });
+                if (!earliest || point.date < earliest) earliest = new Date(point.date);
+            }
+        }
+        if (Object.keys(unset).length === 0) continue;
+
+        await recordObservations(doc._id, readings);
+        await Product.collection.updateOne({ _id: doc._id }, { $unset: unset });
+        products++;
+        observations += readings.length;
+    }
+
+    console.log(`Migrated ${observations} observations from ${products} products`);
+    if (earliest) {
+        const rollups = await rollupPriceHistory(new Date(), earliest);
+        console.log(`Wrote ${rollups} rollups since ${earliest.toISOString()}`);
+    }
+};
+
+migrate()
+    .catch(error => {
+        console.error('Price history migration failed', error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
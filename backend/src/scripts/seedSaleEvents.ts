@@ -0,0 +1,22 @@
+// Adds the seeded sale events for the given years (default: this year and next).
+// Existing occurrences are kept as they are, so admin edits survive a re-run.
+//   npm run seed:sale-events -- 2027 2028
+import mongoose from "mongoose";
+import connectDb from "../config/db.js";
+import { seedSaleEvents } from "../services/saleEvent.service.js";
+
+const seed = async () => {
+    const thisYear = new Date().getFullYear();
+    const years = process.argv.slice(2).map(Number).filter(Number.isInteger);
+
+    await connectDb();
+    const added = await seedSaleEvents(years.length > 0 ? years : [thisYear, thisYear + 1]);
+    console.log(`Added ${added} sale events`);
+};
+
+seed()
+    .catch(error => {
+        console.error('Sale event seeding failed', error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
@@ -0,0 +1,24 @@
+// Grants or revokes administrator access, which is needed to edit the sale calendar.
+//   npm run set-role -- someone@example.com admin
+import mongoose from "mongoose";
+import connectDb from "../config/db.js";
+import { User } from "../models/User.js";
+
+const setRole = async () => {
+    const [email, role] = process.argv.slice(2);
+    if (!email || (role !== 'admin' && role !== 'user')) {
+        throw new Error('Usage: set-role <email> <admin|user>');
+    }
+
+    await connectDb();
+    const user = await User.findOneAndUpdate({ email }, { role }, { new: true });
+    if (!user) throw new Error(`No user with email ${email}`);
+    console.log(`${user.email} is now ${user.role}`);
+};
+
+setRole()
+    .catch(error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
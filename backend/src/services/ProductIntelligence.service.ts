@@ -1,4 +1,22 @@
-import { getConfiguredAI, makeStreamingRequest, rateLimiter } from '../config/geminiConfig.js';
+import { getLLMProvider, type LLMFeature, type LLMProvider } from './llm/index.js';
+import { generateStructured } from './llm/structuredOutput.js';
+import { cachedAnswer } from './llm/responseCache.js';
+import { meteredProvider } from './llm/usageMeter.js';
+import { retryingProvider } from './llm/retry.js';
+import {
+  extractedProductSchema,
+  marketAnalysisSchema,
+  predictionExplanationSchema,
+  searchResultsSchema,
+} from './llm/schemas.js';
+import { AIServiceError, BadRequestError, RateLimitExceededError } from '../utils/errors.js';
+import type { z } from 'zod';
+import { getAdapterForUrl, scrapeProduct } from './platforms/adapters.js';
+import { buildPricePrediction } from './priceForecast.service.js';
+import { getSaleCalendar, type SaleEventWindow } from './saleEvent.service.js';
+import type { DailyPrice } from '../utils/forecasting.js';
+import type { PricePrediction } from '../utils/product.types.js';
+import { normalizeOfferBanks, type Offer, type PaymentMethod } from '../utils/offers.js';
 
 export interface ProductDetails {
   title: string;
@@ -17,6 +35,11 @@ export interface ProductDetails {
   platform: string;
   features?: string[];
   specifications?: Record<string, string>;
+  // Cross-platform identifiers, used to match listings to the shared catalog
+  gtin?: string;
+  modelNumber?: string;
+  // Checkout offers listed on the page: bank discounts, coupons, exchange, no-cost EMI
+  offers?: Offer[];
 }
 
 export interface Recommendation {
@@ -26,57 +49,66 @@ export interface Recommendation {
   targetPrice?: number;
   platform?: string;
   timeFrame?: string;
+  // The sale a "wait" is waiting for
+  saleEvent?: { name: string; platforms: string[]; startsAt: Date; endsAt: Date; typicalDiscount?: { min: number; max: number } };
 }
 
 export interface MarketAnalysis {
   averagePrice: number;
   priceRange: { min: number; max: number };
-  bestDeal: { platform: string; price: number; reason: string };
-  EMI: { platform: string; reason: string };
+  // Ranked on the effective price for the user's saved payment methods once offers are applied
+  bestDeal: {
+    platform: string;
+    price: number;
+    reason: string;
+    effectivePrice?: number;
+    paymentMethod?: PaymentMethod;
+    appliedOffers?: { type: Offer['type']; description: string; amount: number }[];
+  };
+  // Built from the listings' structured offers, absent when none offers no-cost EMI
+  EMI?: { platform: string; reason: string; banks: string[]; tenures: number[] };
   marketTrend: "rising" | "falling" | "stable";
   recommendedAction: "buy_now" | "wait" | "monitor";
   confidence: number;
   insights: string[];
 }
 
-export interface PricePrediction {
-  nextMonthRange: { min: number; max: number };
-  confidence: number;
-  factors: string[];
-  bestTimeToBuy: string;
-}
+export type { PricePrediction };
 
 export class ProductIntelligenceService {
-  private ai: any;
-  private model: string;
-  private config: any;
-
-  constructor() {
-    const { ai, config, model } = getConfiguredAI();
-    this.ai = ai;
-    this.config = config;
-    this.model = model;
+  private llm: LLMProvider;
+  private useCache: boolean;
+
+  // Mock answers cost nothing and, when replaying a run, are specific to that run, so they are
+  // neither cached nor counted against quotas and budgets
+  constructor(llm: LLMProvider = getLLMProvider(), { cache = llm.name !== 'mock', meter = llm.name !== 'mock' } = {}) {
+    this.useCache = cache;
+    // Repair round-trips and retries are real requests too, so every attempt is metered
+    this.llm = retryingProvider(meter ? meteredProvider(llm) : llm);
   }
 
-  private async makeGeminiRequest(prompt: string): Promise<string> {
-    if (!rateLimiter.canMakeRequest()) {
-      throw new Error('Rate limit exceeded. Remaining: ' + JSON.stringify(rateLimiter.getRemainingRequests()));
+  // Only answers that passed validation are cached, so a bad answer is retried on the next request.
+  // Aborting `signal` gives up on the answer; the provider call is dropped unless other callers share it.
+  private async generate<S extends z.ZodType>(prompt: string, feature: LLMFeature, schema: S, signal?: AbortSignal): Promise<z.output<S>> {
+    try {
+      if (!this.useCache) return await generateStructured(this.llm, feature, prompt, schema, signal);
+
+      const { value, cached } = await cachedAnswer(
+        feature, this.llm.model, prompt,
+        shared => generateStructured(this.llm, feature, prompt, schema, shared),
+        signal
+      );
+      if (cached) this.llm.cacheHit?.({ prompt, feature }, JSON.stringify(value));
+      return value;
+    } catch (error) {
+      if (error instanceof AIServiceError || error instanceof RateLimitExceededError) throw error;
+      throw new AIServiceError(feature, error instanceof Error ? error.message : String(error));
     }
-    rateLimiter.recordRequest();
-
-    const contents = [
-      {
-        role: 'user',
-        parts: [{ text: prompt }],
-      },
-    ];
-
-    return makeStreamingRequest(this.ai, this.model, this.config, contents);
   }
 
-  async searchProductsAcrossPlatforms(query: string): Promise<ProductDetails[]> {
+  async searchProductsAcrossPlatforms(query: string, signal?: AbortSignal): Promise<ProductDetails[]> {
     const prompt = `
-    Search for "${query}" across on Amazon India, Flipkart, Myntra, Meesho and one more e-commerce website that provides cheap selling
+    Search for "${query}" across on Amazon India, Flipkart, Myntra, Meesho, and Nykaa or Ajio where they provide a cheaper selling
     price for the same product.
     
     For each platform where this product is available, provide:
@@ -92,6 +124,8 @@ export class ProductIntelligenceService {
     - Brand name
     - Key features (top 3-5)
     - Product URL (realistic format)
+    - Offers listed on the product page: bank card discounts (with the bank, percent or flat value,
+      maximum discount and minimum order value), coupons, exchange bonuses and no-cost EMI (banks and tenures in months)
 
     Return ONLY a JSON array with this exact structure:
     [
@@ -109,38 +143,40 @@ export class ProductIntelligenceService {
         "delivery": "Free delivery by Tomorrow",
         "platform": "amazon",
         "features": ["Feature 1", "Feature 2"],
-        "url": "https://amazon.in/product-url"
+        "url": "https://amazon.in/product-url",
+        "offers": [
+          {"type": "bank", "bank": "HDFC Bank", "paymentTypes": ["credit_card"], "emiOnly": false, "kind": "percent", "value": 10, "maxDiscount": 1500, "minSpend": 5000, "description": "10% off on HDFC Bank Credit Cards, up to ₹1,500 on orders of ₹5,000 and above"},
+          {"type": "coupon", "kind": "flat", "value": 100, "description": "Apply ₹100 coupon"},
+          {"type": "exchange", "maxBonus": 12000, "description": "Up to ₹12,000 off on exchange"},
+          {"type": "no_cost_emi", "banks": ["ICICI Bank"], "tenures": [3, 6], "description": "No Cost EMI on ICICI Bank Credit Cards"}
+        ]
       }
     ]
 
     Important: 
     - Use realistic Indian pricing
     - Include at least 2-3 platforms where available
-    - Use platform names: "amazon", "flipkart", "myntra", "meesho"
+    - Only list offers the platform actually shows for this product, use an empty offers array otherwise
+    - Use platform names: "amazon", "flipkart", "myntra", "meesho", "nykaa", "ajio" and skip any other website
     - Return valid JSON only, no additional text
     `;
 
     try {
-      const text = await this.makeGeminiRequest(prompt);
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error("No valid JSON found in response");
-      }
-
-      const products: ProductDetails[] = JSON.parse(jsonMatch[0]);
+      const products = await this.generate(prompt, 'search', searchResultsSchema, signal);
       return products.map((product) => ({
         ...product,
         url: product.url || this.generatePlatformUrl(product.platform, query),
-      }));
+        ...(product.offers ? { offers: normalizeOfferBanks(product.offers as Offer[]) } : {}),
+      })) as ProductDetails[];
     } catch (error) {
       console.error("Error searching products:", error);
-      return this.getFallbackResults(query);
+      throw error;
     }
   }
 
-  async analyzeMarket(products: ProductDetails[]): Promise<MarketAnalysis> {
+  async analyzeMarket(products: ProductDetails[], signal?: AbortSignal): Promise<MarketAnalysis> {
     if (products.length === 0) {
-      throw new Error("No products to analyze");
+      throw new BadRequestError("No products to analyze");
     }
 
     const prompt = `
@@ -152,12 +188,10 @@ export class ProductIntelligenceService {
     1. Average price across platforms
     2. Price range (min/max)
     3. Best deal identification with reasoning
-    4. no-cost EMI offer(check for platforms which specifically mention about no cost emi for that product, generally expensive items
-    have this offer, also mention 2-3 banks offers the no cost emi feature; do not mention anything if you cannot find)
-    5. Market trend analysis
-    6. Purchase recommendation (buy_now/wait/monitor)
-    7. Confidence level (0-100)
-    8. Key insights about pricing patterns
+    4. Market trend analysis
+    5. Purchase recommendation (buy_now/wait/monitor)
+    6. Confidence level (0-100)
+    7. Key insights about pricing patterns
 
     Consider factors like:
     - Price variations between platforms
@@ -170,7 +204,6 @@ export class ProductIntelligenceService {
       "averagePrice": 1750,
       "priceRange": {"min": 1299, "max": 2199},
       "bestDeal": {"platform": "flipkart", "price": 1299, "reason": "Lowest price with good seller rating"},
-      "EMI": {"platform": "amazon", "reason": "ICICI bank is offering this service as mentioned in the offers section"}
       "marketTrend": "falling",
       "recommendedAction": "buy_now",
       "confidence": 85,
@@ -179,69 +212,58 @@ export class ProductIntelligenceService {
     `;
 
     try {
-      const result = await this.makeGeminiRequest(prompt);
-
-      const jsonMatch = result.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        return this.getFallbackAnalysis(products);
-      }
-
-      return JSON.parse(jsonMatch[0]);
+      return await this.generate(prompt, 'analysis', marketAnalysisSchema, signal);
     } catch (error) {
       console.error("Error analyzing market:", error);
-      return this.getFallbackAnalysis(products);
+      throw error;
     }
   }
 
-  async predictPriceTrends(products: ProductDetails[],historicalData?: any): Promise<PricePrediction> {
+  // The numbers come from the statistical forecast on tracked history; the LLM only
+  // explains them, and the forecast is returned without an explanation if that fails.
+  async predictPriceTrends(products: ProductDetails[], history: DailyPrice[] = [], signal?: AbortSignal): Promise<PricePrediction> {
+    const calendar = await getSaleCalendar().catch(error => {
+      console.warn("Could not load the sale calendar, forecasting without it:", error);
+      return [] as SaleEventWindow[];
+    });
+    const prediction = buildPricePrediction(products, history, calendar);
+
     const prompt = `
-    Predict price trends for this product based on current market data:
-    
-    Current Products: ${JSON.stringify(products.slice(0, 3), null, 2)}
-    ${
-      historicalData ? `Historical Data: ${JSON.stringify(historicalData)}` : ""
-    }
-    
-    Consider factors:
-    - Current price variations
-    - Seasonal trends in India
-    - Festival/sale seasons
-    - Product category behavior
-    - Market competition
-    
-    Predict:
-    1. Price range for next month(generally during festive seasons, prices dips by 5-10% on phones, 10-20% on laptops, make
-    some dummy assumption about price dips and price rise according to your own analysis on date and give the prices, it can be incorrect
-    but there should be a realistic rationale behinde the price dips and rise)
-    2. Confidence level
-    3. Key factors affecting price
-    4. Best time to buy recommendation
+    Explain this price forecast to a shopper in India in 2-3 short sentences.
+    Do not change or invent any numbers, only use the ones given.
+
+    Product: ${products[0]?.title ?? 'Unknown product'}
+    Current prices: ${JSON.stringify(products.slice(0, 3).map(({ platform, price }) => ({ platform, price })))}
+    Forecast: ${JSON.stringify(prediction)}
 
     Return ONLY JSON:
     {
-      "nextMonthRange": {"min": 1150, "max": 1500},
-      "confidence": 75,
-      "factors": ["Upcoming sale season", "High competition", "Stock levels"],
-      "bestTimeToBuy": "Wait for next week's sale"
+      "explanation": "Prices have been steady for the last two months..."
     }
     `;
 
     try {
-      const result = await this.makeGeminiRequest(prompt);
-
-      const jsonMatch = result.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        return this.getFallbackPrediction(products);
-      }
-
-      return JSON.parse(jsonMatch[0]);
+      const { explanation } = await this.generate(prompt, 'prediction', predictionExplanationSchema, signal);
+      return { ...prediction, explanation };
     } catch (error) {
-      console.error("Error predicting trends:", error);
-      return this.getFallbackPrediction(products);
+      console.warn("Could not generate a forecast explanation:", error);
+      return prediction;
     }
   }
 
   async getProductByUrl(url: string): Promise<ProductDetails | null> {
+    try {
+      const scraped = await scrapeProduct(url);
+      if (scraped) return scraped;
+      console.warn(`Could not parse product page, falling back to AI: ${url}`);
+    } catch (error) {
+      console.warn(`Failed to fetch product page, falling back to AI: ${url}`, error);
+    }
+
+    return this.extractProductWithAI(url);
+  }
+
+  private async extractProductWithAI(url: string): Promise<ProductDetails> {
     const platform = this.getPlatformFromUrl(url);
 
     const prompt = `
@@ -256,6 +278,8 @@ export class ProductIntelligenceService {
     - Ratings and reviews
     - Key features
     - Delivery information
+    - Bank, coupon, exchange and no-cost EMI offers shown on the page
+    - Manufacturer model number and EAN/GTIN barcode, only if shown on the page
     
     Return ONLY JSON with ProductDetails structure:
     {
@@ -270,29 +294,22 @@ export class ProductIntelligenceService {
     `;
 
     try {
-      const result = await this.makeGeminiRequest(prompt);
-      
-      const jsonMatch = result.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        return null;
-      }
-
-      const product: ProductDetails = JSON.parse(jsonMatch[0]);
-      return { ...product, platform, url };
+      const product = await this.generate(prompt, 'extraction', extractedProductSchema);
+      return {
+        ...product,
+        platform,
+        url,
+        ...(product.offers ? { offers: normalizeOfferBanks(product.offers as Offer[]) } : {}),
+      } as ProductDetails;
     } catch (error) {
       console.error('Error extracting product from URL:', error);
-      return null;
+      throw error;
     }
   }
 
+  // Matched on the adapters' hosts, so short links such as amzn.in resolve to their platform
   getPlatformFromUrl(url: string): string {
-    if (url.includes("amazon")) return "amazon";
-    if (url.includes("flipkart")) return "flipkart";
-    if (url.includes("myntra")) return "myntra";
-    if (url.includes("meesho")) return "meesho";
-    if (url.includes("nykaa")) return "nykaa";
-    if (url.includes("ajio")) return "ajio";
-    return "unknown";
+    return getAdapterForUrl(url)?.platform ?? "unknown";
   }
 
   private generatePlatformUrl(platform: string, query: string): string {
@@ -308,48 +325,4 @@ export class ProductIntelligenceService {
       `https://www.google.com/search?q=${encodedQuery}`
     );
   }
-
-  private getFallbackResults(query: string): ProductDetails[] {
-    return [
-      {
-        title: `${query} - Product Not Found`,
-        price: 0,
-        availability: "out_of_stock" as const,
-        platform: "unknown",
-        url: "#",
-      },
-    ];
-  }
-
-  private getFallbackAnalysis(products: ProductDetails[]): MarketAnalysis {
-    const prices = products.map((p) => p.price).filter((p) => p > 0);
-    const avgPrice =
-      prices.length > 0 ? prices.reduce((a, b) => a + b, 0) / prices.length : 0;
-
-    return {
-      averagePrice: avgPrice,
-      priceRange: { min: Math.min(...prices), max: Math.max(...prices) },
-      bestDeal: {
-        platform: products[0]?.platform || "unknown",
-        price: Math.min(...prices),
-        reason: "Lowest available price",
-      },
-      EMI: {platform:"none" as const, reason:"data not available"},
-      marketTrend: "stable" as const,
-      recommendedAction: "monitor" as const,
-      confidence: 50,
-      insights: ["Limited data available for analysis"],
-    };
-  }
-
-  private getFallbackPrediction(products: ProductDetails[]): PricePrediction {
-    const avgPrice = products.reduce((sum, p) => sum + p.price, 0) / products.length;
-    
-    return {
-      nextMonthRange: { min: Math.round(avgPrice * 0.8), max: Math.round(avgPrice * 1.2) },
-      confidence: 40,
-      factors: ['Limited historical data', 'Market volatility'],
-      bestTimeToBuy: 'Monitor for better data'
-    };
-  }
 }
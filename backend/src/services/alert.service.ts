@@ -0,0 +1,237 @@
+import { AlertRule, type AlertRuleI } from '../models/AlertRule.js';
+import { AlertEvent } from '../models/AlertEvent.js';
+import { Product, type ProductI } from '../models/Product.js';
+import { notifyUser } from './notification.service.js';
+import { getLowestPrice } from './priceHistory.service.js';
+import { assessDiscount, claimFromPlatform, type DiscountAuthenticity } from './discountAuthenticity.service.js';
+import { formatPlatformName } from '../utils/product.transformer.js';
+import { BadRequestError, NotFoundError, ProductNotFoundError } from '../utils/errors.js';
+import type { PlatformChange, TriggeredAlert, TrackProductRequest } from '../utils/product.types.js';
+
+// Baselines use what the owner pays after offers, the same price rules are evaluated on
+const lowestActivePrice = (product: ProductI, platform?: string | null): number | undefined => {
+    const prices = Array.from(product.platforms.entries())
+        .filter(([name, data]) => data.isActive && (!platform || name === platform))
+        .map(([, data]) => data.effectivePrice ?? data.currentPrice)
+        .filter(price => price > 0);
+    return prices.length > 0 ? Math.min(...prices) : undefined;
+};
+
+export const createAlertRule = async (productId: string, userId: string, data: any) => {
+    const product = await Product.findOne({ _id: productId, user: userId });
+    if (!product) throw new ProductNotFoundError(productId);
+
+    const { type, threshold, platform = null } = data;
+    if (platform && !product.platforms.has(platform)) {
+        throw new BadRequestError(`Product is not tracked on ${platform}`, 'PLATFORM_NOT_TRACKED');
+    }
+
+    const rule = new AlertRule({
+        user: userId,
+        product: productId,
+        platform,
+        type,
+        threshold,
+        baselinePrice: type === 'percentage_drop' ? lowestActivePrice(product, platform) : undefined
+    });
+
+    return await rule.save();
+};
+
+export const createRulesFromThresholds = async (
+    product: ProductI,
+    userId: string,
+    thresholds: NonNullable<TrackProductRequest['alertThresholds']>
+) => {
+    const baselinePrice = lowestActivePrice(product);
+    const rules = [];
+
+    if (thresholds.priceDropPercentage) {
+        rules.push({ type: 'percentage_drop', threshold: thresholds.priceDropPercentage, baselinePrice });
+    }
+    if (thresholds.priceDropAmount && baselinePrice) {
+        rules.push({ type: 'target_price', threshold: Math.max(0, baselinePrice - thresholds.priceDropAmount) });
+    }
+    if (thresholds.targetPrice) {
+        rules.push({ type: 'target_price', threshold: thresholds.targetPrice });
+    }
+    if (thresholds.lowestInDays) {
+        rules.push({ type: 'lowest_in_days', threshold: thresholds.lowestInDays });
+    }
+    if (thresholds.backInStock) {
+        rules.push({ type: 'back_in_stock' });
+    }
+
+    if (rules.length === 0) return [];
+    return AlertRule.insertMany(rules.map(rule => ({ ...rule, user: userId, product: product._id })));
+};
+
+export const findAlertRules = async (productId: string, userId: string) => {
+    const product = await Product.exists({ _id: productId, user: userId });
+    if (!product) throw new ProductNotFoundError(productId);
+
+    return AlertRule.find({ product: productId, user: userId }).sort({ createdAt: -1 }).lean();
+};
+
+export const updateAlertRule = async (productId: string, alertId: string, userId: string, updates: any) => {
+    const rule = await AlertRule.findOne({ _id: alertId, product: productId, user: userId });
+    if (!rule) throw new NotFoundError('Alert not found', 'ALERT_NOT_FOUND');
+
+    if (updates.threshold !== undefined) rule.threshold = updates.threshold;
+    if (updates.isActive !== undefined) rule.isActive = updates.isActive;
+    if (updates.resetBaseline && rule.type === 'percentage_drop') {
+        const product = await Product.findById(productId);
+        const baselinePrice = product ? lowestActivePrice(product, rule.platform) : undefined;
+        if (baselinePrice !== undefined) rule.baselinePrice = baselinePrice;
+    }
+
+    return await rule.save();
+};
+
+export const deleteAlertRule = async (productId: string, alertId: string, userId: string) => {
+    const rule = await AlertRule.findOneAndDelete({ _id: alertId, product: productId, user: userId });
+    if (!rule) throw new NotFoundError('Alert not found', 'ALERT_NOT_FOUND');
+    return rule;
+};
+
+export const findAlertEvents = async (productId: string, userId: string, options: any) => {
+    const { page = 1, limit = 20 } = options;
+    const product = await Product.exists({ _id: productId, user: userId });
+    if (!product) throw new ProductNotFoundError(productId);
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const events = await AlertEvent.find({ product: productId, user: userId })
+        .sort({ triggeredAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .lean();
+    const totalEvents = await AlertEvent.countDocuments({ product: productId, user: userId });
+
+    return { events, totalEvents, page, limit };
+};
+
+// "₹40,612 with HDFC Bank Credit Card (listed ₹44,999)" when offers bring the price down
+const describePaid = (change: PlatformChange) => {
+    if (change.newEffectivePrice >= change.newPrice) return `₹${change.newPrice}`;
+    return `₹${change.newEffectivePrice} with ${change.paymentMethod ?? 'current offers'} (listed ₹${change.newPrice})`;
+};
+
+// Rules fire on the transition into their condition, so a price that stays
+// below a target does not re-alert on every refresh. Drop and target rules
+// compare effective prices; lowest_in_days compares list prices since that is
+// what price history records.
+const evaluateRule = async (rule: AlertRuleI, change: PlatformChange, product: ProductI): Promise<string | null> => {
+    const { oldEffectivePrice: oldPrice, newEffectivePrice: newPrice, oldAvailability, newAvailability } = change;
+    const threshold = rule.threshold ?? 0;
+
+    switch (rule.type) {
+        case 'percentage_drop': {
+            const baseline = rule.baselinePrice || oldPrice;
+            if (!baseline) return null;
+            const limit = baseline * (1 - threshold / 100);
+            if (newPrice > 0 && newPrice <= limit && !(oldPrice > 0 && oldPrice <= limit)) {
+                const drop = Math.round(((baseline - newPrice) / baseline) * 100);
+                return `Price dropped ${drop}% from ₹${baseline} to ${describePaid(change)}`;
+            }
+            return null;
+        }
+        case 'target_price': {
+            if (newPrice > 0 && newPrice <= threshold && !(oldPrice > 0 && oldPrice <= threshold)) {
+                return `Price reached your target of ₹${threshold} (now ${describePaid(change)})`;
+            }
+            return null;
+        }
+        case 'lowest_in_days': {
+            const listed = change.newPrice;
+            if (listed <= 0 || listed >= change.oldPrice) return null;
+            const since = new Date(change.observedAt.getTime() - threshold * 24 * 60 * 60 * 1000);
+            const previousLow = await getLowestPrice(product._id, change.platform, since, change.observedAt);
+            if (previousLow !== undefined && listed < previousLow) {
+                return `Lowest price in ${threshold} days: ${describePaid(change)}`;
+            }
+            return null;
+        }
+        case 'back_in_stock': {
+            if (oldAvailability === 'out_of_stock' && newAvailability !== 'out_of_stock') {
+                return `Back in stock at ${describePaid(change)}`;
+            }
+            return null;
+        }
+        default:
+            return null;
+    }
+};
+
+export const evaluateAlerts = async (product: ProductI, changes: PlatformChange[]): Promise<TriggeredAlert[]> => {
+    if (changes.length === 0) return [];
+
+    const rules = await AlertRule.find({ product: product._id, isActive: true });
+    const triggered: TriggeredAlert[] = [];
+
+    for (const change of changes) {
+        // Assessed once per change, and only when a rule fires
+        let authenticity: DiscountAuthenticity | undefined;
+
+        for (const rule of rules) {
+            if (rule.platform && rule.platform !== change.platform) continue;
+
+            const details = await evaluateRule(rule, change, product);
+            if (!details) continue;
+
+            const platformData = product.platforms.get(change.platform);
+            if (!authenticity && platformData) {
+                authenticity = await assessDiscount(claimFromPlatform(change.platform, platformData), change.observedAt)
+                    .catch(error => {
+                        console.warn(`Could not assess the discount for alert on ${product._id}:`, error);
+                        return undefined;
+                    });
+            }
+
+            const event = await AlertEvent.create({
+                rule: rule._id,
+                user: rule.user,
+                product: product._id,
+                platform: change.platform,
+                type: rule.type,
+                price: change.newPrice,
+                previousPrice: change.oldPrice,
+                effectivePrice: change.newEffectivePrice,
+                availability: change.newAvailability,
+                details,
+                ...(authenticity ? { discountAuthenticity: authenticity } : {}),
+                triggeredAt: change.observedAt
+            });
+
+            rule.lastTriggeredAt = change.observedAt;
+            rule.triggerCount += 1;
+            await rule.save();
+
+            await notifyUser(String(rule.user), {
+                type: 'price_alert',
+                title: `Price alert: ${product.title}`,
+                message: `${details} on ${formatPlatformName(change.platform)}.`,
+                data: {
+                    alertId: String(event._id),
+                    productId: String(product._id),
+                    platform: change.platform,
+                    alertType: rule.type,
+                    price: change.newPrice,
+                    previousPrice: change.oldPrice,
+                    effectivePrice: change.newEffectivePrice,
+                    url: platformData?.url,
+                    ...(authenticity ? { discountAuthenticity: authenticity } : {})
+                }
+            }).catch(error => console.error('Failed to dispatch alert notification:', error));
+
+            triggered.push({
+                alertId: String(event._id),
+                ruleId: String(rule._id),
+                type: rule.type,
+                platform: change.platform,
+                details
+            });
+        }
+    }
+
+    return triggered;
+};
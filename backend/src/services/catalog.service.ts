@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import { CatalogProduct, type CatalogListing, type CatalogProductI } from '../models/CatalogProduct.js';
+import type { ProductDetails } from './ProductIntelligence.service.js';
+import { getAdapterForUrl } from './platforms/adapters.js';
+import { normalizeBrand, normalizeGtin, normalizeModelNumber, titleSimilarity, titleTokens } from '../utils/productMatching.js';
+
+export const CATALOG_CONFIG = {
+    // A listing scraped this recently is served from the catalog instead of being fetched again
+    listingTtlMinutes: Number(process.env.CATALOG_LISTING_TTL_MINUTES) || 10,
+    titleMatchThreshold: 0.8,
+    maxCandidates: 200,
+};
+
+export type ListingLoader = (url: string) => Promise<ProductDetails | null>;
+
+interface ListingId {
+    platform: string;
+    platformProductId: string;
+    key: string;
+}
+
+const inflight = new Map<string, Promise<ProductDetails | null>>();
+
+// ASINs and FSNs are the `amazon:` and `flipkart:` keys; URLs without a recognizable id yield nothing
+export const listingIdFromUrl = (url: string): ListingId | undefined => {
+    const adapter = getAdapterForUrl(url);
+    const platformProductId = adapter?.productId(url);
+    if (!adapter || !platformProductId) return undefined;
+    return { platform: adapter.platform, platformProductId, key: `${adapter.platform}:${platformProductId}` };
+};
+
+// Host without `www.` and path without a trailing slash; query strings and fragments are tracking noise
+const normalizeListingUrl = (url: string) => {
+    const parsed = new URL(url);
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`.toLowerCase();
+};
+
+// The id a listing's observations are pooled under. Pages without a recognizable id fall back to
+// a hash of the normalized URL, so every tracker and every refresh of the page agree on it.
+export const platformProductIdFor = (url: string): string =>
+    listingIdFromUrl(url)?.platformProductId
+    ?? `url-${crypto.createHash('sha256').update(normalizeListingUrl(url)).digest('hex').slice(0, 24)}`;
+
+const identifiersFor = (details: ProductDetails): string[] => {
+    const identifiers: string[] = [];
+    const listingId = listingIdFromUrl(details.url);
+    // Every entry needs at least one key, empty arrays would collide in the unique index
+    identifiers.push(listingId ? listingId.key : `url:${normalizeListingUrl(details.url)}`);
+
+    const gtin = normalizeGtin(details.gtin);
+    if (gtin) identifiers.push(`gtin:${gtin}`);
+
+    // Model numbers are only unique within a brand
+    const brand = normalizeBrand(details.brand);
+    const model = normalizeModelNumber(details.modelNumber);
+    if (brand && model) identifiers.push(`mpn:${brand}:${model}`);
+
+    return identifiers;
+};
+
+const toListing = (details: ProductDetails, listingId: ListingId, lastScraped: Date): CatalogListing => ({
+    platform: listingId.platform,
+    platformProductId: listingId.platformProductId,
+    url: details.url,
+    title: details.title,
+    currentPrice: details.price,
+    availability: details.availability,
+    ...(details.originalPrice !== undefined ? { originalPrice: details.originalPrice } : {}),
+    ...(details.discount !== undefined ? { discount: details.discount } : {}),
+    ...(details.offers !== undefined ? { offers: details.offers } : {}),
+    ...(details.seller !== undefined ? { seller: details.seller } : {}),
+    ...(details.rating !== undefined ? { rating: details.rating } : {}),
+    ...(details.reviews !== undefined ? { reviews: details.reviews } : {}),
+    lastScraped
+});
+
+const fromListing = (listing: CatalogListing, catalog: CatalogProductI, url: string): ProductDetails => ({
+    title: listing.title,
+    price: listing.currentPrice,
+    availability: listing.availability,
+    platform: listing.platform,
+    url,
+    ...(catalog.brand ? { brand: catalog.brand } : {}),
+    ...(catalog.category ? { category: catalog.category } : {}),
+    ...(listing.originalPrice != null ? { originalPrice: listing.originalPrice } : {}),
+    ...(listing.discount != null ? { discount: listing.discount } : {}),
+    ...(listing.offers != null ? { offers: listing.offers } : {}),
+    ...(listing.seller != null ? { seller: listing.seller } : {}),
+    ...(listing.rating != null ? { rating: listing.rating } : {}),
+    ...(listing.reviews != null ? { reviews: listing.reviews } : {})
+});
+
+const isSameListing = (listing: CatalogListing, listingId: ListingId) =>
+    listing.platform === listingId.platform && listing.platformProductId === listingId.platformProductId;
+
+const storeListing = async (catalogId: unknown, listing: CatalogListing) => {
+    const updated = await CatalogProduct.updateOne(
+        { _id: catalogId, listings: { $elemMatch: { platform: listing.platform, platformProductId: listing.platformProductId } } },
+        { $set: { 'listings.$': listing } }
+    );
+    if (updated.matchedCount === 0) {
+        await CatalogProduct.updateOne({ _id: catalogId }, { $push: { listings: listing } });
+    }
+};
+
+// Every tracker of a listing refreshes through here: a recent scrape from the
+// catalog is reused, and concurrent refreshes of the same listing share one request.
+export const fetchListing = async (url: string, load: ListingLoader): Promise<ProductDetails | null> => {
+    const listingId = listingIdFromUrl(url);
+    if (!listingId) return load(url);
+
+    const catalog = await CatalogProduct.findOne({ identifiers: listingId.key });
+    const listing = catalog?.listings.find(item => isSameListing(item, listingId));
+    const freshSince = Date.now() - CATALOG_CONFIG.listingTtlMinutes * 60000;
+    if (catalog && listing && listing.lastScraped.getTime() >= freshSince) {
+        return fromListing(listing, catalog, url);
+    }
+
+    let pending = inflight.get(listingId.key);
+    if (!pending) {
+        pending = load(url).finally(() => inflight.delete(listingId.key));
+        inflight.set(listingId.key, pending);
+    }
+
+    const details = await pending;
+    if (details && catalog) {
+        await storeListing(catalog._id, toListing(details, listingId, new Date()));
+    }
+    return details;
+};
+
+// Fuzzy matching needs a brand, titles alone are too weak a signal. Fuzzy matches
+// only join listings across platforms: a second listing on the same platform is a
+// different variant, and conflicting GTINs or model numbers rule a candidate out.
+const findSimilar = async (details: ProductDetails[]): Promise<CatalogProductI | null> => {
+    const brand = details.find(item => item.brand)?.brand;
+    const normalizedBrand = normalizeBrand(brand);
+    const tokens = titleTokens(details[0]!.title, brand);
+    if (!normalizedBrand || tokens.length === 0) return null;
+
+    const platforms = new Set(details.map(item => item.platform));
+    const gtin = normalizeGtin(details.find(item => item.gtin)?.gtin);
+    const model = normalizeModelNumber(details.find(item => item.modelNumber)?.modelNumber);
+
+    const candidates = await CatalogProduct.find({ normalizedBrand, titleTokens: { $in: tokens } })
+        .sort({ updatedAt: -1 })
+        .limit(CATALOG_CONFIG.maxCandidates);
+
+    let best: CatalogProductI | null = null;
+    let bestScore = CATALOG_CONFIG.titleMatchThreshold;
+    for (const candidate of candidates) {
+        if (candidate.listings.some(listing => platforms.has(listing.platform))) continue;
+        if (gtin && candidate.gtin && normalizeGtin(candidate.gtin) !== gtin) continue;
+        if (model && candidate.modelNumber && normalizeModelNumber(candidate.modelNumber) !== model) continue;
+
+        const score = titleSimilarity(tokens, candidate.titleTokens);
+        if (score >= bestScore) {
+            best = candidate;
+            bestScore = score;
+        }
+    }
+    return best;
+};
+
+// Links freshly scraped listings of one item (a user may give several platform URLs
+// for it) to a catalog entry: by identifier first, then by brand and title, else a new entry.
+export const linkToCatalog = async (details: ProductDetails[], retryOnConflict = true): Promise<CatalogProductI> => {
+    if (details.length === 0) {
+        throw new Error('Cannot link a product without listings to the catalog');
+    }
+
+    const identifiers = [...new Set(details.flatMap(identifiersFor))];
+    const matches = identifiers.length > 0
+        ? await CatalogProduct.find({ identifiers: { $in: identifiers } }).sort({ createdAt: 1 })
+        : [];
+
+    const primary = details[0]!;
+    const catalog = matches[0] ?? await findSimilar(details) ?? new CatalogProduct({
+        title: primary.title,
+        titleTokens: titleTokens(primary.title, details.find(item => item.brand)?.brand)
+    });
+
+    // Identifiers owned by other entries stay with them, the unique index would reject them anyway
+    const claimed = new Set(matches.slice(1).flatMap(match => match.identifiers));
+    const scrapedAt = new Date();
+    for (const item of details) {
+        const listingId = listingIdFromUrl(item.url);
+        if (!listingId || claimed.has(listingId.key)) continue;
+        if (!catalog.listings.some(listing => isSameListing(listing, listingId))) {
+            catalog.listings.push(toListing(item, listingId, scrapedAt));
+        }
+    }
+    catalog.identifiers = [...new Set([...catalog.identifiers, ...identifiers.filter(id => !claimed.has(id))])];
+
+    const fill = (field: 'brand' | 'category' | 'image' | 'gtin' | 'modelNumber' | 'normalizedBrand', value?: string) => {
+        if (!catalog[field] && value) catalog[field] = value;
+    };
+    fill('brand', details.find(item => item.brand)?.brand);
+    fill('category', details.find(item => item.category)?.category);
+    fill('image', details.find(item => item.image)?.image);
+    fill('gtin', details.map(item => normalizeGtin(item.gtin)).find(Boolean));
+    fill('modelNumber', details.find(item => normalizeModelNumber(item.modelNumber))?.modelNumber);
+    fill('normalizedBrand', normalizeBrand(catalog.brand));
+
+    try {
+        return await catalog.save();
+    } catch (error: any) {
+        // A concurrent request claimed one of the identifiers first, match against it instead
+        if (error?.code === 11000 && retryOnConflict) {
+            return linkToCatalog(details, false);
+        }
+        throw error;
+    }
+};
@@ -0,0 +1,154 @@
+import { getListingDailyPrices, type ListingDay } from './priceHistory.service.js';
+import { discountFrom } from './platforms/platformAdapter.js';
+import { formatCurrency, formatDateForDisplay } from '../utils/product.transformer.js';
+import type { PlatformData } from '../models/Product.js';
+
+export const DISCOUNT_CONFIG = {
+    // History considered when judging a claim, capped in practice by the raw retention
+    lookbackDays: Number(process.env.DISCOUNT_LOOKBACK_DAYS) || 90,
+    // Recent days where a pre-sale hike is looked for; the reference price is taken before it
+    hikeWindowDays: 30,
+    minHistoryDays: 7,
+    hikeThreshold: 0.1,
+    mrpInflationThreshold: 0.1,
+    // Claims this many points above the real discount are called out
+    overstatementPoints: 15,
+    // A claim below this is treated as no discount at all
+    minClaimedDiscount: 5,
+};
+
+export type DiscountVerdict = 'genuine' | 'exaggerated' | 'fake' | 'no_discount' | 'insufficient_data';
+
+export type DiscountEvidenceType = 'discount_overstated' | 'mrp_inflation' | 'mrp_never_charged' | 'pre_sale_hike';
+
+export interface DiscountEvidence {
+    type: DiscountEvidenceType;
+    message: string;
+}
+
+export interface DiscountAuthenticity {
+    verdict: DiscountVerdict;
+    claimedDiscount: number | null;
+    // Discount from the typical price before the hike window, negative when above it
+    actualDiscount: number | null;
+    referencePrice: number | null;
+    lowestPrice: number | null;
+    daysObserved: number;
+    evidence: DiscountEvidence[];
+}
+
+export interface DiscountClaim {
+    platform: string;
+    // Platform product id, the `meta.listing` of price observations
+    listing?: string;
+    price: number;
+    originalPrice?: number;
+    discount?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+};
+
+const percentOff = (reference: number, price: number) => Math.round(((reference - price) / reference) * 100);
+
+// Compares what the platform claims with what the listing actually sold for. The reference
+// price is the median daily price before the hike window, so raising the price shortly
+// before a sale does not make the sale look deeper than it is.
+export const evaluateDiscount = (claim: DiscountClaim, days: ListingDay[], now = new Date()): DiscountAuthenticity => {
+    const claimed = claim.discount ?? discountFrom(claim.price, claim.originalPrice) ?? null;
+    const hasClaim = claimed !== null && claimed >= DISCOUNT_CONFIG.minClaimedDiscount;
+
+    const result: DiscountAuthenticity = {
+        verdict: hasClaim ? 'insufficient_data' : 'no_discount',
+        claimedDiscount: claimed,
+        actualDiscount: null,
+        referencePrice: null,
+        lowestPrice: days.length > 0 ? Math.min(...days.map(day => day.close)) : null,
+        daysObserved: days.length,
+        evidence: []
+    };
+
+    const hikeWindowStart = now.getTime() - DISCOUNT_CONFIG.hikeWindowDays * DAY_MS;
+    const before = days.filter(day => day.time.getTime() < hikeWindowStart);
+    const baselineDays = before.length >= DISCOUNT_CONFIG.minHistoryDays ? before : days;
+    if (claim.price <= 0 || baselineDays.length < DISCOUNT_CONFIG.minHistoryDays) return result;
+
+    const reference = Math.round(median(baselineDays.map(day => day.close)));
+    const actual = percentOff(reference, claim.price);
+    result.referencePrice = reference;
+    result.actualDiscount = actual;
+
+    if (hasClaim && claimed - actual >= DISCOUNT_CONFIG.overstatementPoints) {
+        result.evidence.push({
+            type: 'discount_overstated',
+            message: `Claims ${claimed}% off, but the price is ${actual > 0 ? `only ${actual}% below` : actual < 0 ? `${-actual}% above` : 'the same as'} its typical ${formatCurrency(reference)}`
+        });
+    }
+
+    // Only meaningful when the baseline predates the hike window
+    if (baselineDays === before) {
+        const recent = days.filter(day => day.time.getTime() >= hikeWindowStart);
+        const peak = recent.reduce<ListingDay | null>((best, day) => !best || day.high > best.high ? day : best, null);
+        if (peak && peak.high >= reference * (1 + DISCOUNT_CONFIG.hikeThreshold) && claim.price >= reference * (1 - DISCOUNT_CONFIG.hikeThreshold / 2)) {
+            result.evidence.push({
+                type: 'pre_sale_hike',
+                message: `Price was raised from ${formatCurrency(reference)} to ${formatCurrency(peak.high)} on ${formatDateForDisplay(peak.time.toISOString())} before dropping to ${formatCurrency(claim.price)}`
+            });
+        }
+
+        const previousMrps = before.map(day => day.mrp).filter((mrp): mrp is number => mrp !== undefined);
+        if (claim.originalPrice && previousMrps.length > 0) {
+            const previousMrp = Math.round(median(previousMrps));
+            if (claim.originalPrice >= previousMrp * (1 + DISCOUNT_CONFIG.mrpInflationThreshold)) {
+                result.evidence.push({
+                    type: 'mrp_inflation',
+                    message: `MRP went up from ${formatCurrency(previousMrp)} to ${formatCurrency(claim.originalPrice)}`
+                });
+            }
+        }
+    }
+
+    const highest = Math.max(...days.map(day => day.high));
+    if (hasClaim && claim.originalPrice && days.length >= DISCOUNT_CONFIG.hikeWindowDays && highest <= claim.originalPrice * (1 - DISCOUNT_CONFIG.overstatementPoints / 100)) {
+        result.evidence.push({
+            type: 'mrp_never_charged',
+            message: `Never sold above ${formatCurrency(highest)} in ${days.length} tracked days, against an MRP of ${formatCurrency(claim.originalPrice)}`
+        });
+    }
+
+    if (hasClaim) {
+        result.verdict = actual < DISCOUNT_CONFIG.minClaimedDiscount ? 'fake' : result.evidence.length > 0 ? 'exaggerated' : 'genuine';
+    }
+    return result;
+};
+
+// The claim made by a tracked listing on its last scrape
+export const claimFromPlatform = (platform: string, data: PlatformData): DiscountClaim => ({
+    platform,
+    listing: data.platformProductId,
+    price: data.availability === 'out_of_stock' ? 0 : data.currentPrice,
+    ...(data.originalPrice != null ? { originalPrice: data.originalPrice } : {}),
+    ...(data.discount != null ? { discount: data.discount } : {})
+});
+
+export const assessDiscount = async (claim: DiscountClaim, now = new Date()): Promise<DiscountAuthenticity> => {
+    const days = claim.listing
+        ? await getListingDailyPrices(claim.platform, claim.listing, new Date(now.getTime() - DISCOUNT_CONFIG.lookbackDays * DAY_MS), now)
+        : [];
+    return evaluateDiscount(claim, days, now);
+};
+
+// A failed lookup should never hide the listing itself, it is reported as unjudged instead
+export const assessDiscounts = async (claims: DiscountClaim[], now = new Date()): Promise<DiscountAuthenticity[]> => {
+    const settled = await Promise.allSettled(claims.map(claim => assessDiscount(claim, now)));
+    return settled.map((outcome, index) => {
+        if (outcome.status === 'fulfilled') return outcome.value;
+        console.warn(`Could not assess the discount of a ${claims[index]!.platform} listing:`, outcome.reason);
+        return evaluateDiscount(claims[index]!, [], now);
+    });
+};
@@ -0,0 +1,117 @@
+import { User } from '../models/User.js';
+import { Product } from '../models/Product.js';
+import type { MarketAnalysis, ProductDetails } from './ProductIntelligence.service.js';
+import { OFFER_CONFIG, bankById } from '../config/offerConfig.js';
+import {
+    calculateEffectivePrice,
+    describePaymentMethod,
+    type EffectivePrice,
+    type EffectivePriceOptions,
+    type PaymentMethod
+} from '../utils/offers.js';
+import { formatCurrency, formatPlatformName } from '../utils/product.transformer.js';
+import { NotFoundError } from '../utils/errors.js';
+
+export const listSupportedBanks = () => OFFER_CONFIG.banks.map(({ id, name }) => ({ id, name }));
+
+export const getPaymentMethods = async (userId: string): Promise<PaymentMethod[]> => {
+    const user = await User.findById(userId).select('paymentMethods').lean();
+    if (!user) throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+    return (user.paymentMethods ?? []).map(({ type, bank, label }) => ({ type, bank, ...(label ? { label } : {}) }));
+};
+
+// Stored effective prices on tracked products are recomputed from their stored offers so
+// alert baselines and rankings follow the new methods without waiting for a refresh
+export const repriceUserProducts = async (userId: string, methods: PaymentMethod[]) => {
+    const products = await Product.find({ user: userId });
+    let updated = 0;
+
+    for (const product of products) {
+        let changed = false;
+        for (const data of product.platforms.values()) {
+            const { effectivePrice } = calculateEffectivePrice(data.currentPrice, data.offers ?? [], methods);
+            if (data.effectivePrice !== effectivePrice) {
+                data.effectivePrice = effectivePrice;
+                changed = true;
+            }
+        }
+        if (!changed) continue;
+        product.markModified('platforms');
+        await product.save();
+        updated++;
+    }
+    return updated;
+};
+
+export const replacePaymentMethods = async (userId: string, methods: PaymentMethod[]) => {
+    const user = await User.findById(userId);
+    if (!user) throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+
+    user.paymentMethods = methods;
+    await user.save();
+
+    const saved = await getPaymentMethods(userId);
+    const repricedProducts = await repriceUserProducts(userId, saved);
+    return { paymentMethods: saved, repricedProducts };
+};
+
+export const priceListings = (products: ProductDetails[], methods: PaymentMethod[], options: EffectivePriceOptions = {}): EffectivePrice[] =>
+    products.map(product => calculateEffectivePrice(product.price, product.offers ?? [], methods, options));
+
+const describeDeal = (pricing: EffectivePrice) => {
+    const via = pricing.paymentMethod ? ` with your ${describePaymentMethod(pricing.paymentMethod)}` : ' with the listed offers';
+    const emi = pricing.requiresEmi ? ' on EMI' : '';
+    return `${formatCurrency(pricing.effectivePrice)}${via}${emi} (listed at ${formatCurrency(pricing.price)})`;
+};
+
+// Re-ranks the LLM's best deal on what the user actually pays and replaces its EMI note with
+// one built from the listings' no-cost EMI offers. Exchange bonuses are left out since they
+// depend on a device the user may not have.
+export const applyEffectivePricing = (analysis: MarketAnalysis, products: ProductDetails[], methods: PaymentMethod[]): MarketAnalysis => {
+    const pricing = priceListings(products, methods);
+    const candidates = products
+        .map((product, index) => ({ product, pricing: pricing[index]! }))
+        .filter(({ product }) => product.availability !== 'out_of_stock' && product.price > 0);
+    if (candidates.length === 0) return analysis;
+
+    const best = candidates.reduce((cheapest, candidate) =>
+        candidate.pricing.effectivePrice < cheapest.pricing.effectivePrice ? candidate : cheapest
+    );
+    const sameDeal = best.product.platform === analysis.bestDeal.platform && best.pricing.savings === 0;
+    const bestDeal: MarketAnalysis['bestDeal'] = {
+        platform: best.product.platform,
+        price: best.product.price,
+        reason: sameDeal
+            ? analysis.bestDeal.reason
+            : best.pricing.savings > 0
+                ? `Lowest price you pay: ${describeDeal(best.pricing)}`
+                : 'Lowest listed price among in-stock listings',
+        effectivePrice: best.pricing.effectivePrice,
+        ...(best.pricing.paymentMethod ? { paymentMethod: best.pricing.paymentMethod } : {}),
+        appliedOffers: best.pricing.applied
+    };
+
+    // Prefer no-cost EMI on the best deal, else the cheapest listing that has it
+    const withEmi = [best, ...[...candidates].sort((a, b) => a.pricing.effectivePrice - b.pricing.effectivePrice)]
+        .find(({ product }) => product.offers?.some(offer => offer.type === 'no_cost_emi'));
+    if (!withEmi) return { ...analysis, bestDeal };
+
+    const emiOffers = withEmi.product.offers!.filter(offer => offer.type === 'no_cost_emi');
+    const banks = [...new Set(emiOffers.flatMap(offer => offer.banks))];
+    const tenures = [...new Set(emiOffers.flatMap(offer => offer.tenures))].sort((a, b) => a - b);
+    const bankNames = banks.length > 0 ? banks.map(bank => bankById(bank)?.name ?? bank).join(', ') : 'select credit cards';
+    const own = withEmi.pricing.noCostEmi;
+
+    return {
+        ...analysis,
+        bestDeal,
+        EMI: {
+            platform: withEmi.product.platform,
+            reason: own
+                ? `No-cost EMI on ${formatPlatformName(withEmi.product.platform)} with your ${describePaymentMethod(own.paymentMethod)}: ${formatCurrency(own.monthlyPayment)}/month for ${own.tenures[own.tenures.length - 1]} months`
+                : `No-cost EMI on ${formatPlatformName(withEmi.product.platform)} with ${bankNames} for ${tenures.join('/')} months`,
+            banks,
+            tenures
+        }
+    };
+};
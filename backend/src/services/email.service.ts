@@ -0,0 +1,26 @@
+import { sendMail } from '../config/mailConfig.js';
+import { escapeHtml } from '../utils/html.js';
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+export const sendPasswordResetEmail = async (to: string, name: string, token: string, expiresInMinutes: number) => {
+    const resetUrl = `${CLIENT_URL}/reset-password/${token}`;
+
+    await sendMail({
+        to,
+        subject: 'Reset your password',
+        text: `Hi ${name},\n\nWe received a request to reset your password. Use the link below to choose a new one:\n\n${resetUrl}\n\nThis link expires in ${expiresInMinutes} minutes and can only be used once. If you did not request a reset, you can ignore this email.\n`,
+        html: `<p>Hi ${escapeHtml(name)},</p><p>We received a request to reset your password. Use the link below to choose a new one:</p><p><a href="${resetUrl}">Reset password</a></p><p>This link expires in ${expiresInMinutes} minutes and can only be used once. If you did not request a reset, you can ignore this email.</p>`
+    });
+};
+
+export const sendVerificationEmail = async (to: string, name: string, token: string) => {
+    const verifyUrl = `${CLIENT_URL}/verify-email/${token}`;
+
+    await sendMail({
+        to,
+        subject: 'Verify your email address',
+        text: `Hi ${name},\n\nPlease confirm that this is your email address so we can send you price alerts:\n\n${verifyUrl}\n\nThis link expires in 24 hours.\n`,
+        html: `<p>Hi ${escapeHtml(name)},</p><p>Please confirm that this is your email address so we can send you price alerts:</p><p><a href="${verifyUrl}">Verify email</a></p><p>This link expires in 24 hours.</p>`
+    });
+};
@@ -1,5 +1,7 @@
-import { StateGraph, START, END, CompiledStateGraph, Annotation } from '@langchain/langgraph';
+import { StateGraph, START, END, CompiledStateGraph, Annotation, type BaseCheckpointSaver } from '@langchain/langgraph';
 import { BaseMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { v4 as uuidv4 } from 'uuid';
 import { 
   type PricePrediction, 
   type MarketAnalysis, 
@@ -7,7 +9,17 @@ import {
   type ProductDetails,
   ProductIntelligenceService 
 } from './ProductIntelligence.service.js';
+import { historyForListings } from './priceForecast.service.js';
+import { getSaleCalendar, upcomingSaleEvent, type SaleEventWindow } from './saleEvent.service.js';
+import { applyEffectivePricing, getPaymentMethods } from './effectivePrice.service.js';
+import { getLLMProvider, type LLMProvider } from './llm/index.js';
+import { MongoCheckpointSaver } from './mongoCheckpointSaver.js';
+import { chargeTo } from './llm/usageMeter.js';
+import { activeRun, finishRun, inNode, recordStep, recordingProvider, startRun, toRecordedState } from './workflowRecorder.js';
 import { User } from '../models/User.js';
+import { PRICE_HISTORY_CONFIG } from '../config/priceHistoryConfig.js';
+import { WORKFLOW_CONFIG } from '../config/workflowConfig.js';
+import { AppError, NotFoundError, RateLimitExceededError, ServiceUnavailableError } from '../utils/errors.js';
 
 export const WorkflowStateAnnotation = Annotation.Root({
   query: Annotation<string | null>({
@@ -41,50 +53,159 @@ export const WorkflowStateAnnotation = Annotation.Root({
       return left.concat([right]);
     },
   }),
+  // First failure of an optional node; later ones are only recorded in `messages`
   error: Annotation<string | null>({
     default: () => null,
-    value: (_left, right) => right,
+    value: (left, right) => left ?? right,
   }),
 });
 
 export type WorkflowState = typeof WorkflowStateAnnotation.State;
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Further out than this, waiting for a sale is not worth recommending over buying
+const SALE_WAIT_DAYS = 45;
+
+const formatSaleDate = (date: Date) => date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', timeZone: PRICE_HISTORY_CONFIG.timezone });
+
 
 export interface WorkflowResult extends Omit<WorkflowState, "messages"> {
+  runId: string;
   messages: string[];
 }
 
+export type WorkflowNode =
+  | "checkUserLimits"
+  | "searchProducts"
+  | "analyzeMarket"
+  | "predictTrends"
+  | "rankDeals"
+  | "generateRecommendations"
+  | "fallback";
+
+type NodeUpdate = Partial<WorkflowState>;
+
+const elapsed = (startedAt: number) => `${Date.now() - startedAt}ms`;
+
+// `work` is handed a signal that aborts when the node runs out of time or the run is cancelled,
+// so the LLM call in flight is dropped instead of running on after the node has failed
+const withTimeout = <T>(work: (signal: AbortSignal) => Promise<T>, ms: number, node: WorkflowNode, runSignal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      const error = new ServiceUnavailableError(`${node} did not finish within ${ms}ms`, "WORKFLOW_STEP_TIMEOUT");
+      controller.abort(error);
+      reject(error);
+    }, ms);
+  });
+  const signal = runSignal ? AbortSignal.any([controller.signal, runSignal]) : controller.signal;
+  return Promise.race([work(signal), timeout]).finally(() => clearTimeout(timer));
+};
+
+export interface WorkflowStep {
+  runId: string;
+  node: WorkflowNode;
+  state: Partial<WorkflowState>;
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  // Id to store the run under, generated when absent
+  runId?: string;
+  // Run id this run replays; replays skip the search limit check
+  replayOf?: string;
+}
+
+type RunEvent =
+  | { runId: string; mode: "updates"; chunk: Record<WorkflowNode, Partial<WorkflowState>> }
+  | { runId: string; mode: "values"; chunk: WorkflowState };
+
+const checkpointer = new MongoCheckpointSaver();
+
 export class PriceIntelligenceWorkflow {
-  private productService = new ProductIntelligenceService();
+  private productService: ProductIntelligenceService;
   private workflow: CompiledStateGraph<WorkflowState, Partial<WorkflowState>>;
 
-  constructor() {
+  constructor(private llm: LLMProvider = getLLMProvider(), private checkpoints: BaseCheckpointSaver = checkpointer) {
+    this.productService = new ProductIntelligenceService(recordingProvider(llm));
     this.workflow = this.initializeWorkflow();
   }
 
+  //   checkUserLimits -> searchProducts -> analyzeMarket + predictTrends (in parallel) -> rankDeals
+  //     -> generateRecommendations, or fallback once an optional node has failed
+  // analyzeMarket is skipped when the listings come from fewer than two platforms.
   private initializeWorkflow() {
     const graph = new StateGraph(WorkflowStateAnnotation);
 
-    graph.addNode("checkUserLimits", this.checkUserLimitsNode.bind(this));
-    graph.addNode("searchProducts", this.searchProductsNode.bind(this));
-    graph.addNode("analyzeMarket", this.analyzeMarketNode.bind(this));
-    graph.addNode("predictTrends", this.predictTrendsNode.bind(this));
-    graph.addNode("generateRecommendations", this.generateRecommendationsNode.bind(this));
+    graph.addNode("checkUserLimits", this.node("checkUserLimits", this.checkUserLimitsNode.bind(this), { required: true }));
+    graph.addNode("searchProducts", this.node("searchProducts", this.searchProductsNode.bind(this), { required: true }));
+    graph.addNode("analyzeMarket", this.node("analyzeMarket", this.analyzeMarketNode.bind(this)));
+    graph.addNode("predictTrends", this.node("predictTrends", this.predictTrendsNode.bind(this)));
+    graph.addNode("rankDeals", this.node("rankDeals", this.rankDealsNode.bind(this)));
+    graph.addNode("generateRecommendations", this.node("generateRecommendations", this.generateRecommendationsNode.bind(this)));
+    graph.addNode("fallback", this.node("fallback", this.fallbackNode.bind(this), { required: true }));
 
-  
     graph.addEdge(START, "checkUserLimits" as any);
     graph.addEdge("checkUserLimits" as any, "searchProducts" as any);
-    graph.addEdge("searchProducts" as any, "analyzeMarket" as any);
-    graph.addEdge("analyzeMarket" as any, "predictTrends" as any);
-    graph.addEdge("predictTrends" as any, "generateRecommendations" as any);
-    graph.addEdge("generateRecommendations" as any, END);
+    graph.addConditionalEdges("searchProducts" as any, this.routeAfterSearch.bind(this), ["analyzeMarket", "predictTrends"] as any);
+    // Both branches finish in the same step, so rankDeals runs once with both results merged
+    graph.addEdge("analyzeMarket" as any, "rankDeals" as any);
+    graph.addEdge("predictTrends" as any, "rankDeals" as any);
+    graph.addConditionalEdges("rankDeals" as any, this.routeOnError("generateRecommendations"), ["generateRecommendations", "fallback"] as any);
+    graph.addConditionalEdges("generateRecommendations" as any, this.routeOnError(END), [END, "fallback"] as any);
+    graph.addEdge("fallback" as any, END);
 
-    
-      return graph.compile();
+    // Every superstep is checkpointed under the run id, which is the thread id
+    return graph.compile({ checkpointer: this.checkpoints });
+  }
+
+  // Runs a node within its time budget and records the outcome in `messages` and on the
+  // stored run. Failures of required nodes end the workflow; optional ones set `error` so
+  // the graph can route around them.
+  private node(name: WorkflowNode, work: (state: WorkflowState, config: RunnableConfig) => Promise<NodeUpdate>, { required = false } = {}) {
+    return async (state: WorkflowState, config: RunnableConfig): Promise<NodeUpdate> => {
+      const run = activeRun(config.configurable?.thread_id);
+      const startedAt = new Date();
+      try {
+        const update = await withTimeout(
+          signal => chargeTo(state.userId, () => inNode(run, name, () => work(state, { ...config, signal }))),
+          WORKFLOW_CONFIG.nodeTimeoutMs[name],
+          name,
+          config.signal
+        );
+        recordStep(run, { node: name, status: "completed", startedAt, durationMs: Date.now() - startedAt.getTime(), update: toRecordedState(update) });
+        return {
+          ...update,
+          messages: [...(update.messages ?? []), new AIMessage(`${name}: completed in ${elapsed(startedAt.getTime())}`)],
+        };
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        recordStep(run, { node: name, status: "failed", startedAt, durationMs: Date.now() - startedAt.getTime(), error: reason });
+        if (required) throw err;
+
+        console.warn(`Workflow node ${name} failed:`, err);
+        return {
+          error: `${name}: ${reason}`,
+          messages: [new AIMessage(`${name}: failed after ${elapsed(startedAt.getTime())}: ${reason}`)],
+        };
+      }
+    };
   }
 
-  async executeWorkflow(query: string, userId: string): Promise<WorkflowResult> {
-    const initial: WorkflowState = {
+  private routeAfterSearch(state: WorkflowState) {
+    const platforms = new Set((state.searchResults ?? []).map(product => product.platform));
+    return platforms.size >= WORKFLOW_CONFIG.minPlatformsForAnalysis
+      ? ["analyzeMarket", "predictTrends"]
+      : ["predictTrends"];
+  }
+
+  private routeOnError(next: string) {
+    return (state: WorkflowState) => (state.error ? "fallback" : next);
+  }
+
+  private initialState(query: string, userId: string): WorkflowState {
+    return {
       query,
       userId,
       searchResults: [],
@@ -94,21 +215,81 @@ export class PriceIntelligenceWorkflow {
       messages: [new HumanMessage(`Search for: ${query}`)],
       error: null
     };
+  }
+
+  async executeWorkflow(query: string, userId: string, options: Omit<RunOptions, "signal"> = {}): Promise<WorkflowResult> {
+    let runId = "";
+    let result: WorkflowState | null = null;
+    for await (const event of this.run(query, userId, options)) {
+      runId = event.runId;
+      if (event.mode === "values") result = event.chunk;
+    }
+
+    return {
+      ...result!,
+      runId,
+      messages: result!.messages.map(m => m.content as string),
+    };
+  }
+
+  // Yields each node's output as soon as the node finishes. Aborting `signal` stops the
+  // graph before its next node; a model call already in flight still runs to completion.
+  async *streamWorkflow(query: string, userId: string, signal?: AbortSignal): AsyncGenerator<WorkflowStep> {
+    for await (const event of this.run(query, userId, signal ? { signal } : {})) {
+      if (event.mode !== "updates") continue;
+      for (const [node, state] of Object.entries(event.chunk) as [WorkflowNode, Partial<WorkflowState>][]) {
+        yield { runId: event.runId, node, state };
+      }
+    }
+  }
+
+  // Executes the graph as a stored run: node steps and LLM calls are recorded as they
+  // happen and saved with the final state once the run ends, however it ends.
+  private async *run(query: string, userId: string, { signal, runId = uuidv4(), replayOf }: RunOptions): AsyncGenerator<RunEvent> {
+    const run = await startRun({ runId, userId, query, provider: this.llm, ...(replayOf ? { replayOf } : {}) });
+    let state: WorkflowState | null = null;
+    let finished = false;
 
     try {
-      const result = await this.workflow.invoke(initial) as WorkflowResult;
-      return {
-        ...result,
-        messages: (result.messages as BaseMessage[]).map(m => m.content as string),
+      const stream = await this.workflow.stream(this.initialState(query, userId), {
+        configurable: { thread_id: run.runId, ...(replayOf ? { replayOf } : {}) },
+        streamMode: ["updates", "values"],
+        ...(signal ? { signal } : {}),
+      }) as unknown as AsyncIterable<["updates", RunEvent["chunk"]] | ["values", WorkflowState]>;
+
+      for await (const [mode, chunk] of stream) {
+        if (mode === "values") state = chunk;
+        yield { runId: run.runId, mode, chunk } as RunEvent;
       }
+      finished = true;
+      await finishRun(run, { status: "completed", state });
     } catch (err) {
+      finished = true;
+      await finishRun(run, { status: signal?.aborted ? "cancelled" : "failed", state, error: err });
+      if (err instanceof AppError || signal?.aborted) throw err;
       throw new Error(`Workflow failed: ${err}`);
+    } finally {
+      // The consumer stopped reading before the graph finished
+      if (!finished) await finishRun(run, { status: "cancelled", state });
+    }
+  }
+
+  // Checkpointed state after each superstep of a run, oldest first
+  async stateHistory(runId: string) {
+    const snapshots = [];
+    for await (const snapshot of this.workflow.getStateHistory({ configurable: { thread_id: runId } })) {
+      snapshots.push(snapshot);
     }
+    return snapshots.reverse();
   }
 
-  private async checkUserLimitsNode(state: WorkflowState) {
+  private async checkUserLimitsNode(state: WorkflowState, config: RunnableConfig): Promise<NodeUpdate> {
+    if (config.configurable?.replayOf) {
+      return { messages: [new AIMessage(`Replaying run ${config.configurable.replayOf}, user limits not checked`)] };
+    }
+
     const user = await User.findById(state.userId);
-    if (!user) throw new Error("User not found");
+    if (!user) throw new NotFoundError("User not found", "USER_NOT_FOUND");
 
     const now = new Date();
     if (user.searchLimitResetsAt && now > user.searchLimitResetsAt) {
@@ -118,52 +299,139 @@ export class PriceIntelligenceWorkflow {
     }
 
     if (user.searchCount && user.searchCount >= 100) {
-      throw new Error("Weekly search limit exceeded.");
+      throw new RateLimitExceededError("Weekly search limit exceeded.", "SEARCH_LIMIT_EXCEEDED", undefined, {
+        limitResetsAt: user.searchLimitResetsAt,
+      });
     }
 
-    state.messages.push(new AIMessage("User limits validated"));
-    return state;
+    return { messages: [new AIMessage("User limits validated")] };
   }
 
-  private async searchProductsNode(state: WorkflowState) {
-    const products = await this.productService.searchProductsAcrossPlatforms(state.query!);
-    if (!products.length) throw new Error("No products found");
+  private async searchProductsNode(state: WorkflowState, { signal }: RunnableConfig): Promise<NodeUpdate> {
+    const products = await this.productService.searchProductsAcrossPlatforms(state.query!, signal);
+    if (!products.length) throw new NotFoundError("No products found", "NO_PRODUCTS_FOUND");
 
-    state.searchResults = products;
-    state.messages.push(new AIMessage(`Found ${products.length} products`));
-    return state;
+    const platforms = new Set(products.map(product => product.platform)).size;
+    const messages = [new AIMessage(`Found ${products.length} products`)];
+    if (platforms < WORKFLOW_CONFIG.minPlatformsForAnalysis) {
+      messages.push(new AIMessage(`analyzeMarket: skipped, found on ${platforms} platform`));
+    }
+    return { searchResults: products, messages };
   }
 
-  private async analyzeMarketNode(state: WorkflowState) {
-    state.marketAnalysis = await this.productService.analyzeMarket(state.searchResults);
-    state.messages.push(new AIMessage(`Market analysis complete`));
-    return state;
+  private async analyzeMarketNode(state: WorkflowState, { signal }: RunnableConfig): Promise<NodeUpdate> {
+    const analysis = await this.productService.analyzeMarket(state.searchResults ?? [], signal);
+    return { marketAnalysis: analysis, messages: [new AIMessage("Market analysis complete")] };
+  }
+
+  private async predictTrendsNode(state: WorkflowState, { signal }: RunnableConfig): Promise<NodeUpdate> {
+    // Listings someone already tracks come with history, the rest are forecast from category priors
+    const history = await historyForListings(state.searchResults ?? []);
+    const prediction = await this.productService.predictPriceTrends(state.searchResults ?? [], history, signal);
+    return { pricePrediction: prediction, messages: [new AIMessage("Price prediction complete")] };
+  }
+
+  // Joins the parallel branches. Without an LLM analysis (skipped or failed) the listings
+  // are summarised locally so there is still a best deal to recommend.
+  private async rankDealsNode(state: WorkflowState): Promise<NodeUpdate> {
+    const products = state.searchResults ?? [];
+    const analysis = state.marketAnalysis ?? this.listingAnalysis(products);
+    // The best deal is re-ranked on what this user pays with their saved cards
+    const ranked = applyEffectivePricing(analysis, products, await getPaymentMethods(state.userId!));
+    return { marketAnalysis: ranked, messages: [new AIMessage(`Best deal on ${ranked.bestDeal.platform}`)] };
+  }
+
+  private async generateRecommendationsNode(state: WorkflowState): Promise<NodeUpdate> {
+    const products = state.searchResults ?? [];
+    const calendar = await getSaleCalendar().catch(error => {
+      console.warn("Could not load the sale calendar:", error);
+      return [] as SaleEventWindow[];
+    });
+    const category = products.find(product => product.category)?.category;
+    const saleEvent = upcomingSaleEvent(calendar, {
+      platforms: [...new Set(products.map(product => product.platform))],
+      ...(category ? { category } : {})
+    });
+
+    return {
+      recommendations: [this.createRecommendation(state.marketAnalysis!, state.pricePrediction!, products, saleEvent)],
+      messages: [new AIMessage("Recommendation generated")],
+    };
   }
 
-  private async predictTrendsNode(state: WorkflowState) {
-    state.pricePrediction = await this.productService.predictPriceTrends(state.searchResults);
-    state.messages.push(new AIMessage("Price prediction complete"));
-    return state;
+  // Reached when an optional node failed: recommends watching the best listing found, since
+  // a buy or wait call needs both the analysis and the prediction
+  private async fallbackNode(state: WorkflowState): Promise<NodeUpdate> {
+    const analysis = state.marketAnalysis ?? this.listingAnalysis(state.searchResults ?? []);
+    const { bestDeal } = analysis;
+    const dealPrice = bestDeal.effectivePrice ?? bestDeal.price;
+
+    return {
+      ...(state.marketAnalysis ? {} : { marketAnalysis: analysis }),
+      recommendations: [{
+        action: "monitor",
+        rationale: `Lowest price found is ₹${dealPrice} on ${bestDeal.platform}. Part of the analysis could not be completed, so keep tracking before deciding.`,
+        confidence: Math.min(analysis.confidence, 40),
+        targetPrice: dealPrice,
+        platform: bestDeal.platform,
+      }],
+      messages: [new AIMessage(`Fallback recommendation after ${state.error}`)],
+    };
   }
 
-  private async generateRecommendationsNode(state: WorkflowState) {
-    state.recommendations = [
-      this.createRecommendation(state.marketAnalysis!, state.pricePrediction!, state.searchResults)
-    ];
-    state.messages.push(new AIMessage("Recommendation generated"));
-    return state;
+  private listingAnalysis(products: ProductDetails[]): MarketAnalysis {
+    const priced = products.filter(product => product.price > 0);
+    if (priced.length === 0) throw new NotFoundError("No priced listings to analyze", "NO_PRODUCTS_FOUND");
+
+    const prices = priced.map(product => product.price);
+    const cheapest = priced.reduce((best, product) => (product.price < best.price ? product : best));
+    return {
+      averagePrice: Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length),
+      priceRange: { min: Math.min(...prices), max: Math.max(...prices) },
+      bestDeal: { platform: cheapest.platform, price: cheapest.price, reason: "Lowest listed price" },
+      marketTrend: "stable",
+      recommendedAction: "monitor",
+      confidence: 50,
+      insights: [],
+    };
   }
 
-  private createRecommendation(analysis: MarketAnalysis, prediction: PricePrediction, products: ProductDetails[]): Recommendation {
+  private createRecommendation(
+    analysis: MarketAnalysis,
+    prediction: PricePrediction,
+    products: ProductDetails[],
+    saleEvent?: SaleEventWindow,
+    now = new Date()
+  ): Recommendation {
     const { bestDeal, averagePrice, marketTrend, confidence } = analysis;
+    const dealPrice = bestDeal.effectivePrice ?? bestDeal.price;
+    const daysToSale = saleEvent ? Math.ceil((saleEvent.startsAt.getTime() - now.getTime()) / DAY_MS) : undefined;
+    const saleRunning = daysToSale !== undefined && daysToSale <= 0;
+    // A sale close enough to be worth waiting for
+    const saleAhead = daysToSale !== undefined && daysToSale > 0 && daysToSale <= SALE_WAIT_DAYS ? saleEvent : undefined;
 
-    if (analysis.recommendedAction === "buy_now" && confidence > 70) {
+    if (analysis.recommendedAction === "buy_now" && confidence > 70 && !(saleAhead && daysToSale! <= 14)) {
       return {
         action: "buy_now",
-        rationale: `Best deal at ₹${bestDeal.price} on ${bestDeal.platform}. High confidence decision.`,
+        rationale: `Best deal at ₹${dealPrice} on ${bestDeal.platform}${dealPrice < bestDeal.price ? ` after offers (listed ₹${bestDeal.price})` : ''}${saleRunning ? ` during ${saleEvent!.name}` : ''}. High confidence decision.`,
         confidence,
-        targetPrice: bestDeal.price,
+        targetPrice: dealPrice,
         platform: bestDeal.platform,
+        ...(saleRunning ? { saleEvent: this.describeSale(saleEvent!) } : {})
+      };
+    }
+
+    if (saleAhead) {
+      const when = formatSaleDate(saleAhead.startsAt);
+      const discount = saleAhead.typicalDiscount ? `, which usually brings ${saleAhead.typicalDiscount.min}-${saleAhead.typicalDiscount.max}% off` : '';
+      return {
+        action: "wait",
+        rationale: `${saleAhead.name} starts ${when} (in ${daysToSale} days)${discount}. Predicted range: ₹${prediction.nextMonthRange.min}-₹${prediction.nextMonthRange.max}.`,
+        confidence: prediction.confidence,
+        targetPrice: prediction.nextMonthRange.min,
+        ...(saleAhead.platforms.length === 1 ? { platform: saleAhead.platforms[0]! } : {}),
+        timeFrame: `Until ${when}`,
+        saleEvent: this.describeSale(saleAhead)
       };
     }
 
@@ -179,9 +447,13 @@ export class PriceIntelligenceWorkflow {
 
     return {
       action: "monitor",
-      rationale: `Uncertain market. Avg price ₹${averagePrice}.`,
+      rationale: `Uncertain market. Avg price ₹${averagePrice}.${saleEvent && !saleRunning ? ` Next sale: ${saleEvent.name} from ${formatSaleDate(saleEvent.startsAt)}.` : ''}`,
       confidence: 50,
       targetPrice: averagePrice,
     };
   }
+
+  private describeSale({ name, platforms, startsAt, endsAt, typicalDiscount }: SaleEventWindow): NonNullable<Recommendation["saleEvent"]> {
+    return { name, platforms, startsAt, endsAt, ...(typicalDiscount ? { typicalDiscount } : {}) };
+  }
 }
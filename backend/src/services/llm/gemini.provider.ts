@@ -0,0 +1,32 @@
+import type { GoogleGenAI } from '@google/genai';
+import { GEMINI_CONFIG, getConfiguredAI, makeStreamingRequest } from '../../config/geminiConfig.js';
+import type { LLMProvider, LLMRequest, LLMResponse } from './llmProvider.js';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  readonly model = GEMINI_CONFIG.model;
+  private client: { ai: GoogleGenAI; config: any } | null = null;
+
+  // The client is created on first use so a missing API key only fails the
+  // AI-backed requests instead of the whole server at import time.
+  private getClient() {
+    if (!this.client) {
+      const { ai, config } = getConfiguredAI();
+      this.client = { ai, config };
+    }
+    return this.client;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const { ai, config } = this.getClient();
+    const contents = [
+      {
+        role: 'user',
+        parts: [{ text: request.prompt }],
+      },
+    ];
+
+    const { text, usage } = await makeStreamingRequest(ai, this.model, config, contents, request.signal);
+    return { text, provider: this.name, model: this.model, ...(usage ? { usage } : {}) };
+  }
+}
@@ -0,0 +1,31 @@
+import { LLM_CONFIG, type LLMProviderName } from '../../config/llmConfig.js';
+import { GeminiProvider } from './gemini.provider.js';
+import { OpenAICompatibleProvider } from './openai.provider.js';
+import { MockProvider } from './mock.provider.js';
+import type { LLMProvider } from './llmProvider.js';
+
+export type { LLMFeature, LLMProvider, LLMRequest, LLMResponse, LLMUsage } from './llmProvider.js';
+
+const createRealProvider = (name: Exclude<LLMProviderName, 'mock'>): LLMProvider => {
+  return name === 'openai' ? new OpenAICompatibleProvider() : new GeminiProvider();
+};
+
+export const createLLMProvider = (name: LLMProviderName = LLM_CONFIG.provider): LLMProvider => {
+  if (name !== 'mock') return createRealProvider(name);
+
+  if (LLM_CONFIG.mock.mode === 'record') {
+    const recordFrom = LLM_CONFIG.mock.recordProvider;
+    if (recordFrom === 'mock') {
+      throw new Error('LLM_RECORD_PROVIDER must be a real provider (gemini or openai)');
+    }
+    return new MockProvider(createRealProvider(recordFrom), 'record');
+  }
+  return new MockProvider();
+};
+
+let defaultProvider: LLMProvider | null = null;
+
+export const getLLMProvider = (): LLMProvider => {
+  if (!defaultProvider) defaultProvider = createLLMProvider();
+  return defaultProvider;
+};
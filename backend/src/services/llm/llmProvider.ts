@@ -0,0 +1,30 @@
+import type { LLMProviderName } from '../../config/llmConfig.js';
+
+export type LLMFeature = 'search' | 'analysis' | 'prediction' | 'extraction';
+
+export interface LLMRequest {
+  prompt: string;
+  feature: LLMFeature;
+  // Aborts the call in flight, e.g. when the workflow node making it runs out of time
+  signal?: AbortSignal | undefined;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // Told about requests answered from the response cache without calling `generate`
+  cacheHit?(request: LLMRequest, text: string): void;
+}
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { LLM_CONFIG } from '../../config/llmConfig.js';
+import type { LLMFeature, LLMProvider, LLMRequest, LLMResponse } from './llmProvider.js';
+
+export interface Recording {
+  feature: LLMFeature;
+  text: string;
+  model: string;
+  recordedAt: string;
+}
+
+export type RecordingFile = Record<string, Recording>;
+
+export const recordingKey = (request: LLMRequest): string => {
+  return crypto.createHash('sha256').update(`${request.feature}\n${request.prompt.trim()}`).digest('hex');
+};
+
+const PLATFORMS = ['amazon', 'flipkart', 'myntra'] as const;
+
+const PLATFORM_URLS: Record<(typeof PLATFORMS)[number], string> = {
+  amazon: 'https://www.amazon.in/s?k=',
+  flipkart: 'https://www.flipkart.com/search?q=',
+  myntra: 'https://www.myntra.com/',
+};
+
+// Stable pseudo-random number derived from the prompt, so the same request
+// always yields the same canned answer.
+const seededNumber = (seed: string, min: number, max: number): number => {
+  const value = parseInt(crypto.createHash('md5').update(seed).digest('hex').slice(0, 8), 16);
+  return min + (value % (max - min + 1));
+};
+
+const cannedResponse = (request: LLMRequest): string => {
+  const basePrice = seededNumber(request.prompt, 500, 50000);
+
+  switch (request.feature) {
+    case 'search': {
+      const query = request.prompt.match(/Search for "([^"]+)"/)?.[1] ?? 'Product';
+      return JSON.stringify(PLATFORMS.map((platform, index) => {
+        const price = basePrice + index * Math.round(basePrice * 0.05);
+        const originalPrice = Math.round(price * 1.25);
+        return {
+          title: query,
+          brand: query.split(/\s+/)[0],
+          category: 'General',
+          price,
+          originalPrice,
+          discount: 20,
+          availability: 'in_stock',
+          seller: `${platform} Retail`,
+          rating: 4.1,
+          reviews: seededNumber(`${request.prompt}:${platform}`, 50, 5000),
+          delivery: 'Free delivery in 3-5 days',
+          platform,
+          features: [],
+          url: `${PLATFORM_URLS[platform]}${encodeURIComponent(query)}`,
+          offers: platform === 'myntra' ? [] : [
+            { type: 'bank', bank: 'HDFC Bank', paymentTypes: ['credit_card'], kind: 'percent', value: 10, maxDiscount: 1500, minSpend: 5000, description: '10% off on HDFC Bank Credit Cards, up to ₹1,500 on orders of ₹5,000 and above' },
+            { type: 'no_cost_emi', banks: [], tenures: [3, 6], minSpend: 3000, description: 'No Cost EMI on select credit cards for 3 and 6 months' },
+          ],
+        };
+      }));
+    }
+    case 'analysis':
+      return JSON.stringify({
+        averagePrice: basePrice,
+        priceRange: { min: Math.round(basePrice * 0.95), max: Math.round(basePrice * 1.05) },
+        bestDeal: { platform: 'amazon', price: Math.round(basePrice * 0.95), reason: 'Lowest listed price' },
+        marketTrend: 'stable',
+        recommendedAction: 'monitor',
+        confidence: 50,
+        insights: ['Prices are consistent across platforms'],
+      });
+    case 'prediction':
+      return JSON.stringify({
+        explanation: 'Offline mock explanation of the forecast.',
+      });
+    case 'extraction': {
+      const url = request.prompt.match(/https?:\/\/\S+/)?.[0]?.replace(/[")\s]+$/, '') ?? '';
+      const platform = PLATFORMS.find(name => url.includes(name)) ?? 'amazon';
+      return JSON.stringify({
+        title: 'Mock Product',
+        price: basePrice,
+        originalPrice: Math.round(basePrice * 1.25),
+        discount: 20,
+        availability: 'in_stock',
+        platform,
+        url,
+      });
+    }
+  }
+};
+
+// Offline provider for development and CI. In replay mode it answers from the
+// recordings file and falls back to deterministic canned JSON; in record mode
+// it forwards to a real provider and stores every answer for later replay.
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly model: string;
+  private recordings: RecordingFile | null = null;
+  private readonly recordingsPath: string;
+
+  // `recordings` replaces the recordings file, e.g. to replay the calls of a stored workflow run
+  constructor(private delegate: LLMProvider | null = null, private mode = LLM_CONFIG.mock.mode, recordings?: RecordingFile) {
+    this.recordingsPath = path.resolve(LLM_CONFIG.mock.recordingsPath);
+    this.model = delegate ? delegate.model : 'mock';
+    if (recordings) this.recordings = recordings;
+  }
+
+  private async loadRecordings(): Promise<RecordingFile> {
+    if (this.recordings) return this.recordings;
+    try {
+      this.recordings = JSON.parse(await fs.readFile(this.recordingsPath, 'utf8')) as RecordingFile;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.warn(`Could not read LLM recordings from ${this.recordingsPath}:`, error.message);
+      }
+      this.recordings = {};
+    }
+    return this.recordings;
+  }
+
+  private async saveRecordings(): Promise<void> {
+    await fs.writeFile(this.recordingsPath, JSON.stringify(this.recordings, null, 2));
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const recordings = await this.loadRecordings();
+    const key = recordingKey(request);
+
+    if (this.mode === 'record') {
+      if (!this.delegate) {
+        throw new Error('LLM record mode requires a real provider to record from');
+      }
+      const response = await this.delegate.generate(request);
+      recordings[key] = {
+        feature: request.feature,
+        text: response.text,
+        model: response.model,
+        recordedAt: new Date().toISOString(),
+      };
+      await this.saveRecordings();
+      return response;
+    }
+
+    const recording = recordings[key];
+    return {
+      text: recording ? recording.text : cannedResponse(request),
+      provider: this.name,
+      model: recording ? recording.model : this.model,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import axios from 'axios';
+import { LLM_CONFIG } from '../../config/llmConfig.js';
+import type { LLMProvider, LLMRequest, LLMResponse } from './llmProvider.js';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{ message: { content: string | null } }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+// Talks to any OpenAI-compatible /chat/completions endpoint, including local
+// servers such as Ollama, so no Google Search grounding is available here.
+// Makes a single attempt; retries are added by `retryingProvider`.
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+
+  constructor(private options = LLM_CONFIG.openai) {
+    this.model = options.model;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const { data } = await axios.post<ChatCompletionResponse>(
+      `${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        model: this.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: 0.2,
+        stream: false,
+      },
+      {
+        timeout: this.options.timeout,
+        ...(request.signal ? { signal: request.signal } : {}),
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {},
+      }
+    );
+
+    const text = data.choices[0]?.message.content ?? '';
+    return {
+      text,
+      provider: this.name,
+      model: data.model || this.model,
+      ...(data.usage ? { usage: { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens } } : {}),
+    };
+  }
+}
@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import { setTimeout as sleep } from 'timers/promises';
+import { getRedis } from '../../config/redisConfig.js';
+import { LLM_CONFIG } from '../../config/llmConfig.js';
+import type { LLMFeature } from './llmProvider.js';
+
+const { keyPrefix, ttlSeconds, lockMs, pollMs } = LLM_CONFIG.cache;
+const STATS_KEY = `${keyPrefix}:stats`;
+const FEATURES = Object.keys(ttlSeconds) as LLMFeature[];
+
+// hit: served from Redis; miss: the model was called; shared: joined a computation already
+// running in this or another instance
+type Outcome = 'hit' | 'miss' | 'shared';
+
+export interface CachedAnswer<T> {
+  value: T;
+  cached: boolean;
+}
+
+// An answer being computed in this process, shared by every caller asking for it. The load
+// runs under its own signal, aborted only once every caller waiting on it has gone.
+interface Pending {
+  answer: Promise<CachedAnswer<unknown>>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// Answers being computed in this process, so concurrent identical requests share one call
+const inFlight = new Map<string, Pending>();
+
+// Prompts are template literals; indentation and line breaks do not change the question
+export const normalizePrompt = (prompt: string) => prompt.normalize('NFKC').replace(/\s+/g, ' ').trim();
+
+const entryKey = (feature: LLMFeature, model: string, prompt: string) => {
+  const hash = crypto.createHash('sha256').update(`${model}\n${normalizePrompt(prompt)}`).digest('hex');
+  return `${keyPrefix}:entry:${feature}:${hash}`;
+};
+
+// The cache is an optimisation: while Redis is unavailable every request goes to the model
+const available = () => getRedis().status === 'ready';
+
+const quietly = async <T>(operation: () => Promise<T>): Promise<T | undefined> => {
+  try {
+    return await operation();
+  } catch (error) {
+    console.warn('LLM cache unavailable:', error instanceof Error ? error.message : error);
+    return undefined;
+  }
+};
+
+const count = (feature: LLMFeature, outcome: Outcome) => {
+  if (!available()) return;
+  void quietly(() => getRedis().multi()
+    .hsetnx(STATS_KEY, 'since', new Date().toISOString())
+    .hincrby(STATS_KEY, `${feature}:${outcome}`, 1)
+    .exec());
+};
+
+const read = async <T>(key: string): Promise<T | undefined> => {
+  const raw = await quietly(() => getRedis().get(key));
+  return raw ? JSON.parse(raw) as T : undefined;
+};
+
+const RELEASE_LOCK = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0`;
+
+// Waits for the instance holding the lock to store its answer, giving up once the lock is gone.
+// Stops polling, by throwing, when `signal` aborts.
+const waitForAnswer = async <T>(key: string, lockKey: string, signal: AbortSignal): Promise<T | undefined> => {
+  const deadline = Date.now() + lockMs;
+  while (Date.now() < deadline) {
+    await sleep(pollMs, undefined, { signal });
+    const value = await read<T>(key);
+    if (value !== undefined) return value;
+    if (!(await quietly(() => getRedis().exists(lockKey)))) return undefined;
+  }
+  return undefined;
+};
+
+const lookupOrLoad = async <T>(feature: LLMFeature, key: string, load: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<CachedAnswer<T>> => {
+  const stored = await read<T>(key);
+  if (stored !== undefined) {
+    count(feature, 'hit');
+    return { value: stored, cached: true };
+  }
+
+  const lockKey = `${keyPrefix}:lock:${key}`;
+  const token = crypto.randomUUID();
+  const locked = await quietly(() => getRedis().set(lockKey, token, 'PX', lockMs, 'NX'));
+  if (locked === null) {
+    const shared = await waitForAnswer<T>(key, lockKey, signal);
+    if (shared !== undefined) {
+      count(feature, 'shared');
+      return { value: shared, cached: true };
+    }
+  }
+
+  count(feature, 'miss');
+  try {
+    const value = await load(signal);
+    await quietly(() => getRedis().set(key, JSON.stringify(value), 'EX', ttlSeconds[feature]));
+    return { value, cached: false };
+  } finally {
+    if (locked === 'OK') await quietly(() => getRedis().eval(RELEASE_LOCK, 1, lockKey, token));
+  }
+};
+
+// Waits for a shared answer until `signal` aborts. Leaving only rejects this caller; the load
+// goes on for the others and is aborted when the last one leaves.
+const awaitShared = <T>(key: string, pending: Pending, signal?: AbortSignal): Promise<CachedAnswer<T>> => {
+  const answer = pending.answer as Promise<CachedAnswer<T>>;
+  pending.waiters++;
+  if (!signal) return answer;
+
+  return new Promise((resolve, reject) => {
+    const leave = () => {
+      reject(signal.reason);
+      if (--pending.waiters > 0) return;
+      if (inFlight.get(key) === pending) inFlight.delete(key);
+      pending.controller.abort(signal.reason);
+    };
+    if (signal.aborted) return leave();
+    signal.addEventListener('abort', leave, { once: true });
+    answer.then(resolve, reject).finally(() => signal.removeEventListener('abort', leave));
+  });
+};
+
+// Returns the stored answer for this model and prompt, or runs `load` once across every
+// caller asking the same thing at the same time and stores what it returns. Failed loads
+// are not cached. `load` gets the signal of the shared computation, never `signal`, so one
+// caller aborting does not fail the others.
+export const cachedAnswer = async <T>(
+  feature: LLMFeature,
+  model: string,
+  prompt: string,
+  load: (signal?: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<CachedAnswer<T>> => {
+  if (!LLM_CONFIG.cache.enabled || !available()) return { value: await load(signal), cached: false };
+
+  const key = entryKey(feature, model, prompt);
+  const pending = inFlight.get(key);
+  if (pending) {
+    count(feature, 'shared');
+    return { value: (await awaitShared<T>(key, pending, signal)).value, cached: true };
+  }
+
+  const controller = new AbortController();
+  const started: Pending = {
+    controller,
+    waiters: 0,
+    answer: lookupOrLoad(feature, key, load, controller.signal).finally(() => {
+      if (inFlight.get(key) === started) inFlight.delete(key);
+    }),
+  };
+  inFlight.set(key, started);
+  return awaitShared<T>(key, started, signal);
+};
+
+const countEntries = async () => {
+  const entries = Object.fromEntries(FEATURES.map(feature => [feature, 0])) as Record<LLMFeature, number>;
+  let cursor = '0';
+  do {
+    const [next, keys] = await getRedis().scan(cursor, 'MATCH', `${keyPrefix}:entry:*`, 'COUNT', 1000);
+    cursor = next;
+    for (const key of keys) {
+      const feature = key.split(':')[2] as LLMFeature;
+      if (feature in entries) entries[feature]++;
+    }
+  } while (cursor !== '0');
+  return entries;
+};
+
+export const getCacheStats = async () => {
+  const [counters, entries] = await Promise.all([getRedis().hgetall(STATS_KEY), countEntries()]);
+  const value = (field: string) => Number(counters[field] ?? 0);
+
+  const features = FEATURES.map(feature => {
+    const hits = value(`${feature}:hit`);
+    const shared = value(`${feature}:shared`);
+    const misses = value(`${feature}:miss`);
+    const requests = hits + shared + misses;
+    return {
+      feature,
+      hits,
+      shared,
+      misses,
+      hitRate: requests > 0 ? Math.round(((hits + shared) / requests) * 1000) / 10 : null,
+      entries: entries[feature],
+      ttlSeconds: ttlSeconds[feature],
+    };
+  });
+
+  return {
+    enabled: LLM_CONFIG.cache.enabled,
+    since: counters.since ?? null,
+    features,
+  };
+};
+
+export const resetCacheStats = async () => {
+  await getRedis().del(STATS_KEY);
+};
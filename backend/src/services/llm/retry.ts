@@ -0,0 +1,30 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { LLM_CONFIG } from '../../config/llmConfig.js';
+import { AppError } from '../../utils/errors.js';
+import type { LLMProvider } from './llmProvider.js';
+
+// Retries failed calls with exponential backoff. Providers make a single attempt each, so when
+// this wraps the metered provider every attempt is admitted and counted on its own. Refusals
+// and other application errors are final and are not retried, and neither is an aborted request.
+export const retryingProvider = (llm: LLMProvider, { maxRetries, retryDelay } = LLM_CONFIG): LLMProvider => ({
+  name: llm.name,
+  model: llm.model,
+  generate: async (request) => {
+    let lastError;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        return await llm.generate(request);
+      } catch (error) {
+        if (error instanceof AppError || request.signal?.aborted) throw error;
+        lastError = error;
+        console.warn(`${llm.name} request attempt ${attempt} failed:`, error instanceof Error ? error.message : error);
+
+        if (attempt < maxRetries) await sleep(retryDelay * Math.pow(2, attempt - 1), undefined, { signal: request.signal });
+      }
+    }
+
+    throw new Error(`${llm.name} request failed after ${maxRetries} attempts: ${lastError}`);
+  },
+  ...(llm.cacheHit ? { cacheHit: llm.cacheHit.bind(llm) } : {}),
+});
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+
+const PLATFORMS = ['amazon', 'flipkart', 'myntra', 'meesho', 'nykaa', 'ajio'] as const;
+
+const price = z.number().positive();
+const confidence = z.number().min(0).max(100);
+
+const discountTerms = {
+  description: z.string().trim().min(1),
+  kind: z.enum(['percent', 'flat']),
+  value: price,
+  maxDiscount: price.optional(),
+  minSpend: price.optional(),
+};
+
+// Banks are named as the model wrote them and mapped to bank ids afterwards
+export const offerSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('bank'),
+    bank: z.string(),
+    paymentTypes: z.array(z.enum(['credit_card', 'debit_card', 'upi', 'netbanking'])).default([]),
+    emiOnly: z.boolean().default(false),
+    ...discountTerms,
+  }),
+  z.object({ type: z.literal('coupon'), code: z.string().optional(), ...discountTerms }),
+  z.object({ type: z.literal('exchange'), description: z.string().trim().min(1), maxBonus: price }),
+  z.object({
+    type: z.literal('no_cost_emi'),
+    description: z.string().trim().min(1),
+    banks: z.array(z.string()).default([]),
+    tenures: z.array(z.number().int().positive()).default([]),
+    minSpend: price.optional(),
+  }),
+]);
+
+export const productDetailsSchema = z.object({
+  title: z.string().trim().min(1),
+  brand: z.string().optional(),
+  category: z.string().optional(),
+  price,
+  originalPrice: price.optional(),
+  discount: z.number().min(0).max(100).optional(),
+  availability: z.enum(['in_stock', 'out_of_stock', 'limited_stock']),
+  seller: z.string().optional(),
+  rating: z.number().min(0).max(5).optional(),
+  reviews: z.number().int().min(0).optional(),
+  delivery: z.string().optional(),
+  image: z.string().optional(),
+  url: z.url(),
+  platform: z.enum(PLATFORMS),
+  features: z.array(z.string()).optional(),
+  specifications: z.record(z.string(), z.string()).optional(),
+  gtin: z.string().optional(),
+  modelNumber: z.string().optional(),
+  // A malformed offer list is dropped rather than failing the whole answer
+  offers: z.array(offerSchema).optional().catch(undefined),
+});
+
+// Search answers may omit the URL, a search link for the platform is filled in instead
+export const searchResultsSchema = z.array(productDetailsSchema.extend({ url: z.url().optional() })).min(1);
+
+// The platform and URL of an extracted product are already known from the request
+export const extractedProductSchema = productDetailsSchema.extend({
+  url: z.string().optional(),
+  platform: z.string().optional(),
+});
+
+export const marketAnalysisSchema = z.object({
+  averagePrice: price,
+  priceRange: z.object({ min: price, max: price }).refine(range => range.min <= range.max, 'min must not exceed max'),
+  bestDeal: z.object({ platform: z.string().min(1), price, reason: z.string() }),
+  marketTrend: z.enum(['rising', 'falling', 'stable']),
+  recommendedAction: z.enum(['buy_now', 'wait', 'monitor']),
+  confidence,
+  insights: z.array(z.string()),
+});
+
+// Forecast numbers are computed locally, the model only writes the explanation
+export const predictionExplanationSchema = z.object({
+  explanation: z.string().trim().min(1),
+});
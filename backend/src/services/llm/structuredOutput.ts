@@ -0,0 +1,88 @@
+import type { z } from 'zod';
+import { AIServiceError, type AIValidationIssue } from '../../utils/errors.js';
+import type { LLMFeature, LLMProvider } from './llmProvider.js';
+
+type ParseResult<T> = { success: true; data: T } | { success: false; issues: AIValidationIssue[] };
+
+// Models wrap JSON in prose or ```json fences; take the outermost array or object.
+const extractJson = (text: string): unknown => {
+  const start = text.search(/[[{]/);
+  if (start === -1) throw new Error('No JSON found in response');
+
+  const closing = text[start] === '[' ? ']' : '}';
+  const end = text.lastIndexOf(closing);
+  if (end <= start) throw new Error('Unterminated JSON in response');
+
+  return JSON.parse(text.slice(start, end + 1));
+};
+
+// Models use null for "unknown"; treat it as an omitted field so optional schema keys accept it
+const dropNulls = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(dropNulls);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== null)
+        .map(([key, entry]) => [key, dropNulls(entry)])
+    );
+  }
+  return value;
+};
+
+const parseResponse = <S extends z.ZodType>(text: string, schema: S): ParseResult<z.output<S>> => {
+  let json: unknown;
+  try {
+    json = dropNulls(extractJson(text));
+  } catch (error) {
+    return { success: false, issues: [{ path: '', message: error instanceof Error ? error.message : String(error) }] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) return { success: true, data: result.data };
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+  };
+};
+
+const formatIssues = (issues: AIValidationIssue[]) => {
+  return issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`).join('\n');
+};
+
+const repairPrompt = (prompt: string, answer: string, issues: AIValidationIssue[]) => `
+${prompt}
+
+Your previous answer was rejected because it does not match the required JSON structure.
+
+Previous answer:
+${answer}
+
+Problems found:
+${formatIssues(issues)}
+
+Return ONLY the corrected JSON, no additional text.
+`;
+
+// Asks the model for JSON matching `schema`. An invalid answer gets exactly one
+// repair round-trip with the validation problems; if that also fails the
+// issues are surfaced as an AIServiceError and nothing is returned.
+export const generateStructured = async <S extends z.ZodType>(
+  llm: LLMProvider,
+  feature: LLMFeature,
+  prompt: string,
+  schema: S,
+  signal?: AbortSignal
+): Promise<z.output<S>> => {
+  const first = await llm.generate({ prompt, feature, signal });
+  const parsed = parseResponse(first.text, schema);
+  if (parsed.success) return parsed.data;
+
+  console.warn(`Invalid ${feature} response from ${llm.name}, requesting a repair:\n${formatIssues(parsed.issues)}`);
+
+  const repaired = await llm.generate({ prompt: repairPrompt(prompt, first.text, parsed.issues), feature, signal });
+  const reparsed = parseResponse(repaired.text, schema);
+  if (reparsed.success) return reparsed.data;
+
+  throw new AIServiceError(feature, 'Response did not match the expected schema', reparsed.issues);
+};
@@ -0,0 +1,273 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { setTimeout as sleep } from 'timers/promises';
+import type { Redis } from 'ioredis';
+import { getRedis } from '../../config/redisConfig.js';
+import { LLM_CONFIG } from '../../config/llmConfig.js';
+import { RateLimitExceededError } from '../../utils/errors.js';
+import type { APIUsageStats } from '../../utils/product.types.js';
+import type { LLMFeature, LLMProvider, LLMUsage } from './llmProvider.js';
+
+const {
+  keyPrefix, requestsPerMinute, requestsPerDay, userRequestsPerDay, userCostPerDayUsd, maxQueueMs, retentionDays, pricing,
+} = LLM_CONFIG.quota;
+const FEATURES: LLMFeature[] = ['search', 'analysis', 'prediction', 'extraction'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUCKET_KEY = `${keyPrefix}:bucket`;
+// Usage is kept a day longer than reported so the oldest reported day is complete
+const USAGE_TTL_SECONDS = (retentionDays + 1) * 24 * 60 * 60;
+
+// Counters per day, for everyone and for each user. `admitted` and `cost` are the day's totals
+// the budgets are checked against; everything else is counted per feature as `<feature>:<field>`.
+const dayOf = (date: Date) => date.toISOString().slice(0, 10);
+const usageKey = (day: string, userId?: string) => `${keyPrefix}:${day}:${userId ? `user:${userId}` : 'all'}`;
+
+// The user that LLM calls made while `work` runs are charged to
+const payer = new AsyncLocalStorage<string>();
+
+export const chargeTo = <T>(userId: string | null | undefined, work: () => Promise<T>): Promise<T> =>
+  userId ? payer.run(userId, work) : work();
+
+// Limits are enforced on a best-effort basis: while Redis is unavailable calls are neither limited nor counted
+const available = () => getRedis().status === 'ready';
+
+const quietly = async <T>(operation: () => Promise<T>): Promise<T | undefined> => {
+  try {
+    return await operation();
+  } catch (error) {
+    console.warn('LLM usage metering unavailable:', error instanceof Error ? error.message : error);
+    return undefined;
+  }
+};
+
+// Checks the daily quota and the user's budgets, then takes a token from the per-minute bucket.
+// Returns [status, wait in ms, tokens left]: 1 admitted, 0 bucket empty, -1 daily quota used,
+// -2 user's daily requests used, -3 user's daily cost budget used.
+// KEYS: bucket, today's totals, today's totals for the user (optional)
+// ARGV: requests per minute, requests per day, user requests per day, user cost per day, usage TTL
+const ADMIT = `
+local clock = redis.call('TIME')
+local now = tonumber(clock[1]) * 1000 + math.floor(tonumber(clock[2]) / 1000)
+local perMinute = tonumber(ARGV[1])
+if tonumber(redis.call('HGET', KEYS[2], 'admitted') or '0') >= tonumber(ARGV[2]) then return {-1, 0, 0} end
+if KEYS[3] then
+  if tonumber(redis.call('HGET', KEYS[3], 'admitted') or '0') >= tonumber(ARGV[3]) then return {-2, 0, 0} end
+  if tonumber(redis.call('HGET', KEYS[3], 'cost') or '0') >= tonumber(ARGV[4]) then return {-3, 0, 0} end
+end
+local rate = perMinute / 60000
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or perMinute
+local elapsed = math.max(0, now - (tonumber(bucket[2]) or now))
+tokens = math.min(perMinute, tokens + elapsed * rate)
+local admitted = tokens >= 1
+if admitted then tokens = tokens - 1 end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], 120000)
+if not admitted then return {0, math.ceil((1 - tokens) / rate), 0} end
+for i = 2, #KEYS do
+  redis.call('HINCRBY', KEYS[i], 'admitted', 1)
+  redis.call('EXPIRE', KEYS[i], ARGV[5])
+end
+return {1, 0, math.floor(tokens)}
+`;
+
+const secondsUntilTomorrow = () => {
+  const tomorrow = new Date();
+  tomorrow.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((tomorrow.getTime() - Date.now()) / 1000);
+};
+
+export const estimateCost = (model: string, usage?: LLMUsage) => {
+  const price = pricing[model];
+  if (!price || !usage) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+const todaysKeys = (userId?: string) => {
+  const day = dayOf(new Date());
+  return [usageKey(day), ...(userId ? [usageKey(day, userId)] : [])];
+};
+
+// Adds to today's counters for everyone and for the user
+const count = (userId: string | undefined, add: (multi: ReturnType<Redis['multi']>, key: string) => void) => {
+  if (!available()) return;
+  const multi = getRedis().multi();
+  todaysKeys(userId).forEach(key => {
+    add(multi, key);
+    multi.expire(key, USAGE_TTL_SECONDS);
+  });
+  void quietly(() => multi.exec());
+};
+
+const refusal = (status: number, waitMs: number) => {
+  switch (status) {
+    case 0:
+      return new RateLimitExceededError('AI request quota exceeded, try again later', 'AI_RATE_LIMITED', Math.ceil(waitMs / 1000), {
+        limit: { perMinute: requestsPerMinute },
+      });
+    case -1:
+      return new RateLimitExceededError('AI request quota exceeded, try again later', 'AI_RATE_LIMITED', secondsUntilTomorrow(), {
+        limit: { perDay: requestsPerDay },
+      });
+    default:
+      return new RateLimitExceededError('Daily AI budget used up, try again tomorrow', 'AI_BUDGET_EXCEEDED', secondsUntilTomorrow(), {
+        budget: { requestsPerDay: userRequestsPerDay, costPerDayUsd: userCostPerDayUsd },
+      });
+  }
+};
+
+// Calls queue while the bucket refills, as long as that fits in `maxQueueMs`; exhausted daily
+// quotas and budgets are refused straight away
+const admit = async (feature: LLMFeature, userId: string | undefined, signal: AbortSignal | undefined) => {
+  const deadline = Date.now() + maxQueueMs;
+  for (;;) {
+    if (!available()) return;
+    const keys = [BUCKET_KEY, ...todaysKeys(userId)];
+    const result = await quietly(() => getRedis().eval(
+      ADMIT, keys.length, ...keys,
+      requestsPerMinute, requestsPerDay, userRequestsPerDay, userCostPerDayUsd, USAGE_TTL_SECONDS,
+    ) as Promise<[number, number, number]>);
+    if (!result) return;
+
+    const [status, waitMs] = result;
+    if (status === 1) return;
+    if (status === 0 && Date.now() + waitMs <= deadline) {
+      await sleep(waitMs, undefined, { signal });
+      continue;
+    }
+
+    count(userId, (multi, key) => multi.hincrby(key, `${feature}:refused`, 1));
+    throw refusal(status, waitMs);
+  }
+};
+
+const record = (userId: string | undefined, feature: LLMFeature, model: string, latencyMs: number, succeeded: boolean, usage?: LLMUsage) => {
+  const cost = estimateCost(model, usage);
+  count(userId, (multi, key) => {
+    multi.hincrby(key, `${feature}:requests`, 1).hincrby(key, `${feature}:latencyMs`, latencyMs);
+    if (!succeeded) multi.hincrby(key, `${feature}:failed`, 1);
+    if (usage) {
+      multi.hincrby(key, `${feature}:inputTokens`, usage.inputTokens).hincrby(key, `${feature}:outputTokens`, usage.outputTokens);
+    }
+    if (cost > 0) multi.hincrbyfloat(key, `${feature}:cost`, cost).hincrbyfloat(key, 'cost', cost);
+  });
+};
+
+// Applies the shared rate limit and budgets to every call, and counts its tokens, cost and latency
+// for everyone and for the user it is charged to
+export const meteredProvider = (llm: LLMProvider): LLMProvider => ({
+  name: llm.name,
+  model: llm.model,
+  generate: async (request) => {
+    const userId = payer.getStore();
+    await admit(request.feature, userId, request.signal);
+
+    const startedAt = Date.now();
+    try {
+      const response = await llm.generate(request);
+      record(userId, request.feature, response.model, Date.now() - startedAt, true, response.usage);
+      return response;
+    } catch (error) {
+      record(userId, request.feature, llm.model, Date.now() - startedAt, false);
+      throw error;
+    }
+  },
+  ...(llm.cacheHit ? { cacheHit: llm.cacheHit.bind(llm) } : {}),
+});
+
+interface FeatureUsage {
+  requests: number;
+  failed: number;
+  refused: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  latencyMs: number;
+}
+
+const emptyUsage = (): FeatureUsage => ({ requests: 0, failed: 0, refused: 0, inputTokens: 0, outputTokens: 0, cost: 0, latencyMs: 0 });
+
+const add = (total: FeatureUsage, usage: FeatureUsage) => {
+  for (const field of Object.keys(total) as (keyof FeatureUsage)[]) total[field] += usage[field];
+  return total;
+};
+
+const featureUsage = (counters: Record<string, string>, feature: LLMFeature): FeatureUsage => {
+  const value = (field: string) => Number(counters[`${feature}:${field}`] ?? 0);
+  return {
+    requests: value('requests'),
+    failed: value('failed'),
+    refused: value('refused'),
+    inputTokens: value('inputTokens'),
+    outputTokens: value('outputTokens'),
+    cost: value('cost'),
+    latencyMs: value('latencyMs'),
+  };
+};
+
+const usd = (amount: number) => Math.round(amount * 1_000_000) / 1_000_000;
+const averageLatency = ({ requests, latencyMs }: FeatureUsage) => requests > 0 ? Math.round(latencyMs / requests) : 0;
+
+const readDays = async (days: string[], userId?: string) => {
+  const pipeline = getRedis().pipeline();
+  days.forEach(day => pipeline.hgetall(usageKey(day, userId)));
+  const results = await pipeline.exec();
+  return (results ?? []).map(([error, counters]) => {
+    if (error) throw error;
+    return counters as Record<string, string>;
+  });
+};
+
+// Usage over the retention window, for one user or, without `userId`, for everyone
+export const getUsage = async (userId?: string) => {
+  const days = Array.from({ length: retentionDays }, (_, index) => dayOf(new Date(Date.now() - index * DAY_MS)));
+  const [counters, [everyoneToday = {}]] = await Promise.all([readDays(days, userId), readDays(days.slice(0, 1))]);
+
+  const perDay = counters.map(day => FEATURES.reduce((total, feature) => add(total, featureUsage(day, feature)), emptyUsage()));
+  const total = perDay.reduce(add, emptyUsage());
+  const today = perDay[0] ?? emptyUsage();
+  const thisWeek = perDay.slice(0, 7).reduce(add, emptyUsage());
+
+  const admittedToday = (day: Record<string, string>) => Number(day.admitted ?? 0);
+  const remainingQuota = Math.max(0, Math.min(
+    requestsPerDay - admittedToday(everyoneToday),
+    userId ? userRequestsPerDay - admittedToday(counters[0] ?? {}) : Infinity,
+  ));
+
+  const stats: APIUsageStats = {
+    totalRequests: total.requests,
+    successfulRequests: total.requests - total.failed,
+    failedRequests: total.failed,
+    averageResponseTime: averageLatency(total),
+    requestsToday: today.requests,
+    requestsThisWeek: thisWeek.requests,
+    remainingQuota,
+  };
+
+  const features = FEATURES.map(feature => {
+    const usage = counters.reduce((sum, day) => add(sum, featureUsage(day, feature)), emptyUsage());
+    return {
+      feature,
+      requests: usage.requests,
+      failed: usage.failed,
+      refused: usage.refused,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      estimatedCostUsd: usd(usage.cost),
+      averageResponseTime: averageLatency(usage),
+    };
+  });
+
+  return {
+    scope: userId ? 'user' as const : 'all' as const,
+    since: days[days.length - 1]!,
+    stats,
+    tokens: { input: total.inputTokens, output: total.outputTokens },
+    estimatedCostUsd: { today: usd(today.cost), thisWeek: usd(thisWeek.cost), total: usd(total.cost) },
+    features,
+    limits: {
+      requestsPerMinute,
+      requestsPerDay,
+      ...(userId ? { userRequestsPerDay, userCostPerDayUsd, remainingBudgetUsd: usd(Math.max(0, userCostPerDayUsd - today.cost)) } : {}),
+    },
+  };
+};
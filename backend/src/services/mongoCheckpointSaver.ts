@@ -0,0 +1,136 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
+import {
+    BaseCheckpointSaver,
+    WRITES_IDX_MAP,
+    copyCheckpoint,
+    getCheckpointId,
+    type Checkpoint,
+    type CheckpointListOptions,
+    type CheckpointMetadata,
+    type CheckpointTuple,
+    type PendingWrite
+} from '@langchain/langgraph-checkpoint';
+import { WorkflowCheckpoint, WorkflowCheckpointWrite, type WorkflowCheckpointI } from '../models/WorkflowCheckpoint.js';
+
+const threadOf = (config: RunnableConfig, action: string): string => {
+    const threadId = config.configurable?.thread_id;
+    if (threadId === undefined) throw new Error(`Cannot ${action}: the config has no configurable.thread_id`);
+    return String(threadId);
+};
+
+// LangGraph checkpointer on the app's Mongo connection, following MemorySaver's semantics
+export class MongoCheckpointSaver extends BaseCheckpointSaver {
+    private async dump(value: unknown) {
+        const [type, bytes] = await this.serde.dumpsTyped(value);
+        return { type, data: Buffer.from(bytes).toString(type === 'json' ? 'utf8' : 'base64') };
+    }
+
+    private load(type: string, data: string) {
+        return this.serde.loadsTyped(type, type === 'json' ? data : Buffer.from(data, 'base64'));
+    }
+
+    private async toTuple(doc: WorkflowCheckpointI): Promise<CheckpointTuple> {
+        const { threadId, checkpointNs, checkpointId, parentCheckpointId } = doc;
+        const writes = await WorkflowCheckpointWrite.find({ threadId, checkpointNs, checkpointId }).sort({ taskId: 1, idx: 1 }).lean();
+
+        return {
+            config: { configurable: { thread_id: threadId, checkpoint_ns: checkpointNs, checkpoint_id: checkpointId } },
+            checkpoint: await this.load(doc.type, doc.checkpoint),
+            metadata: await this.load('json', doc.metadata),
+            pendingWrites: await Promise.all(writes.map(async write =>
+                [write.taskId, write.channel, await this.load(write.type, write.value)] as [string, string, unknown]
+            )),
+            ...(parentCheckpointId
+                ? { parentConfig: { configurable: { thread_id: threadId, checkpoint_ns: checkpointNs, checkpoint_id: parentCheckpointId } } }
+                : {})
+        };
+    }
+
+    async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+        const checkpointId = getCheckpointId(config);
+        const doc = await WorkflowCheckpoint.findOne({
+            threadId: threadOf(config, 'read a checkpoint'),
+            checkpointNs: config.configurable?.checkpoint_ns ?? '',
+            ...(checkpointId ? { checkpointId } : {})
+        }).sort({ checkpointId: -1 }).lean<WorkflowCheckpointI>();
+
+        return doc ? this.toTuple(doc) : undefined;
+    }
+
+    async *list(config: RunnableConfig, options: CheckpointListOptions = {}): AsyncGenerator<CheckpointTuple> {
+        const { before, filter } = options;
+        let { limit } = options;
+        const { thread_id, checkpoint_ns, checkpoint_id } = config.configurable ?? {};
+        const beforeId = before?.configurable?.checkpoint_id;
+
+        const cursor = WorkflowCheckpoint.find({
+            ...(thread_id !== undefined ? { threadId: String(thread_id) } : {}),
+            ...(checkpoint_ns !== undefined ? { checkpointNs: checkpoint_ns } : {}),
+            ...(checkpoint_id || beforeId
+                ? { checkpointId: { ...(checkpoint_id ? { $eq: checkpoint_id } : {}), ...(beforeId ? { $lt: beforeId } : {}) } }
+                : {})
+        }).sort({ checkpointId: -1 }).lean<WorkflowCheckpointI[]>().cursor();
+
+        for await (const doc of cursor) {
+            if (limit !== undefined && limit <= 0) break;
+            // Metadata is stored serialized, so the filter is applied after loading
+            if (filter) {
+                const metadata = await this.load('json', doc.metadata) as Record<string, unknown>;
+                if (!Object.entries(filter).every(([key, value]) => metadata[key] === value)) continue;
+            }
+            if (limit !== undefined) limit--;
+            yield await this.toTuple(doc);
+        }
+    }
+
+    async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+        const threadId = threadOf(config, 'save a checkpoint');
+        const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+        const [serialized, serializedMetadata] = await Promise.all([this.dump(copyCheckpoint(checkpoint)), this.dump(metadata)]);
+        const parentCheckpointId = config.configurable?.checkpoint_id;
+
+        await WorkflowCheckpoint.updateOne(
+            { threadId, checkpointNs, checkpointId: checkpoint.id },
+            {
+                $set: {
+                    type: serialized.type,
+                    checkpoint: serialized.data,
+                    metadata: serializedMetadata.data,
+                    ...(parentCheckpointId ? { parentCheckpointId } : {})
+                }
+            },
+            { upsert: true }
+        );
+
+        return { configurable: { thread_id: threadId, checkpoint_ns: checkpointNs, checkpoint_id: checkpoint.id } };
+    }
+
+    // Regular writes keep the first value stored for a task, special ones (errors, interrupts) are replaced
+    async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+        const threadId = threadOf(config, 'save writes');
+        const checkpointId = config.configurable?.checkpoint_id;
+        if (checkpointId === undefined) throw new Error('Cannot save writes: the config has no configurable.checkpoint_id');
+        const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+
+        const operations = await Promise.all(writes.map(async ([channel, value], index) => {
+            const idx = WRITES_IDX_MAP[channel] ?? index;
+            const { type, data } = await this.dump(value);
+            const fields = { channel, type, value: data };
+            return {
+                updateOne: {
+                    filter: { threadId, checkpointNs, checkpointId, taskId, idx },
+                    update: idx >= 0 ? { $setOnInsert: fields } : { $set: fields },
+                    upsert: true
+                }
+            };
+        }));
+        if (operations.length > 0) await WorkflowCheckpointWrite.bulkWrite(operations, { ordered: false });
+    }
+
+    async deleteThread(threadId: string): Promise<void> {
+        await Promise.all([
+            WorkflowCheckpoint.deleteMany({ threadId }),
+            WorkflowCheckpointWrite.deleteMany({ threadId })
+        ]);
+    }
+}
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import { sendMail } from '../config/mailConfig.js';
+import type { userI } from '../models/User.js';
+import { escapeHtml } from '../utils/html.js';
+import { BadRequestError } from '../utils/errors.js';
+import type { NotificationChannelType } from '../models/Notification.js';
+
+export interface NotificationPayload {
+    id: string;
+    type: string;
+    title: string;
+    message: string;
+    data?: Record<string, any>;
+    createdAt: Date;
+}
+
+export interface NotificationChannel {
+    readonly type: NotificationChannelType;
+    isEnabled(user: userI): boolean;
+    send(user: userI, payload: NotificationPayload): Promise<void>;
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-PriceTracker-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-PriceTracker-Timestamp';
+
+// Receivers recompute the HMAC over `${timestamp}.${rawBody}` with their secret
+// and reject requests whose timestamp is too old to prevent replays.
+export const signWebhookPayload = (secret: string, timestamp: string, body: string): string => {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+};
+
+export const generateWebhookSecret = (): string => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+// Webhooks are requests our servers make, so they must never reach our own network:
+// loopback, private, CGNAT, link-local (cloud metadata), multicast and reserved ranges are refused.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const nonPublicAddresses = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+    nonPublicAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    nonPublicAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+const isPublicAddress = (address: string) => !nonPublicAddresses.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+const notAllowed = () => new BadRequestError('Webhook URL must point to a public host', 'WEBHOOK_URL_NOT_ALLOWED');
+
+// Checked when the URL is saved and again before every delivery
+export const assertPublicWebhookUrl = async (url: string) => {
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    const addresses = net.isIP(host)
+        ? [host]
+        : (await dns.promises.lookup(host, { all: true, verbatim: true }).catch(() => [])).map(entry => entry.address);
+    if (addresses.length === 0) {
+        throw new BadRequestError('Webhook host could not be resolved', 'WEBHOOK_URL_NOT_ALLOWED');
+    }
+    if (!addresses.every(isPublicAddress)) throw notAllowed();
+};
+
+// The connection is made to the addresses checked here, so a host that resolves to a public
+// address when saved and to an internal one at delivery (DNS rebinding) is still refused
+const publicOnlyLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error);
+        if (addresses.length === 0 || !addresses.every(entry => isPublicAddress(entry.address))) return callback(notAllowed());
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0]!.address, addresses[0]!.family);
+    });
+}) as unknown as net.LookupFunction;
+
+const webhookHttpAgent = new http.Agent({ lookup: publicOnlyLookup });
+const webhookHttpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+class EmailChannel implements NotificationChannel {
+    readonly type = 'email' as const;
+
+    isEnabled(user: userI): boolean {
+        return Boolean(user.notificationPreferences?.email?.enabled && user.email);
+    }
+
+    async send(user: userI, payload: NotificationPayload): Promise<void> {
+        await sendMail({
+            to: user.email,
+            subject: payload.title,
+            text: `Hi ${user.name},\n\n${payload.message}\n`,
+            html: `<p>Hi ${escapeHtml(user.name)},</p><p>${escapeHtml(payload.message)}</p>`
+        });
+    }
+}
+
+class WebhookChannel implements NotificationChannel {
+    readonly type = 'webhook' as const;
+
+    isEnabled(user: userI): boolean {
+        const webhook = user.notificationPreferences?.webhook;
+        return Boolean(webhook?.enabled && webhook.url);
+    }
+
+    async send(user: userI, payload: NotificationPayload): Promise<void> {
+        const { url, secret } = user.notificationPreferences.webhook;
+        if (!url || !secret) {
+            throw new Error('Webhook URL or secret missing');
+        }
+
+        const body = JSON.stringify({ event: payload.type, notification: payload });
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+
+        // IP literals never reach the lookup above
+        await assertPublicWebhookUrl(url);
+        await axios.post(url, body, {
+            timeout: 10000,
+            // A redirect could point anywhere, so it fails the delivery instead of being followed
+            maxRedirects: 0,
+            proxy: false,
+            httpAgent: webhookHttpAgent,
+            httpsAgent: webhookHttpsAgent,
+            headers: {
+                'Content-Type': 'application/json',
+                [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+                [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhookPayload(secret, timestamp, body)}`
+            }
+        });
+    }
+}
+
+// In-app notifications are the stored Notification documents themselves,
+// so delivery only needs the inbox preference to be on.
+class InAppChannel implements NotificationChannel {
+    readonly type = 'in_app' as const;
+
+    isEnabled(user: userI): boolean {
+        return user.notificationPreferences?.inApp?.enabled !== false;
+    }
+
+    async send(): Promise<void> {}
+}
+
+export const notificationChannels: Record<NotificationChannelType, NotificationChannel> = {
+    email: new EmailChannel(),
+    webhook: new WebhookChannel(),
+    in_app: new InAppChannel()
+};
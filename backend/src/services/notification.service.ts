@@ -0,0 +1,192 @@
+import type { Job } from 'bull';
+import { lazyQueue } from '../config/queueConfig.js';
+import { User } from '../models/User.js';
+import { Notification, type NotificationChannelType } from '../models/Notification.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { assertPublicWebhookUrl, notificationChannels, generateWebhookSecret, type NotificationPayload } from './notification.channels.js';
+
+export interface NotificationInput {
+    type: string;
+    title: string;
+    message: string;
+    data?: Record<string, any>;
+}
+
+interface DeliveryJob {
+    notificationId: string;
+    channel: NotificationChannelType;
+}
+
+const DELIVERY_ATTEMPTS = 5;
+
+const deliveryQueue = lazyQueue<DeliveryJob>('notification-delivery');
+let workerStarted = false;
+
+const toPayload = (notification: any): NotificationPayload => ({
+    id: notification._id.toString(),
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    data: notification.data,
+    createdAt: notification.createdAt
+});
+
+export const notifyUser = async (userId: string, input: NotificationInput) => {
+    const user = await User.findById(userId);
+    if (!user) return null;
+
+    const enabledChannels = Object.values(notificationChannels)
+        .filter(channel => channel.isEnabled(user))
+        .map(channel => channel.type);
+    if (enabledChannels.length === 0) return null;
+
+    const now = new Date();
+    const notification = await Notification.create({
+        user: userId,
+        ...input,
+        deliveries: enabledChannels.map(channel => channel === 'in_app'
+            ? { channel, status: 'sent', attempts: 1, deliveredAt: now }
+            : { channel, status: 'pending' })
+    });
+
+    for (const channel of enabledChannels) {
+        if (channel === 'in_app') continue;
+        await deliveryQueue.get().add(
+            { notificationId: String(notification._id), channel },
+            {
+                attempts: DELIVERY_ATTEMPTS,
+                backoff: { type: 'exponential', delay: 30000 },
+                removeOnComplete: true,
+                removeOnFail: true
+            }
+        );
+    }
+
+    return notification;
+};
+
+const processDelivery = async (job: Job<DeliveryJob>) => {
+    const { notificationId, channel } = job.data;
+    const notification = await Notification.findById(notificationId);
+    if (!notification) return;
+
+    const user = await User.findById(notification.user).select('+notificationPreferences.webhook.secret');
+    if (!user) return;
+
+    const attempts = job.attemptsMade + 1;
+    try {
+        await notificationChannels[channel].send(user, toPayload(notification));
+        await Notification.updateOne(
+            { _id: notificationId, 'deliveries.channel': channel },
+            { $set: { 'deliveries.$.status': 'sent', 'deliveries.$.attempts': attempts, 'deliveries.$.deliveredAt': new Date() } }
+        );
+    } catch (error: any) {
+        const exhausted = attempts >= (job.opts.attempts ?? 1);
+        await Notification.updateOne(
+            { _id: notificationId, 'deliveries.channel': channel },
+            { $set: { 'deliveries.$.status': exhausted ? 'failed' : 'pending', 'deliveries.$.attempts': attempts, 'deliveries.$.error': error.message } }
+        );
+        throw error;
+    }
+};
+
+export const startNotificationWorker = () => {
+    if (workerStarted) return;
+    workerStarted = true;
+
+    deliveryQueue.get().process(processDelivery);
+    deliveryQueue.get().on('failed', (job, err) => {
+        console.warn(`Notification ${job.data.notificationId} via ${job.data.channel} failed (attempt ${job.attemptsMade}):`, err.message);
+    });
+};
+
+export const stopNotificationWorker = async () => {
+    await deliveryQueue.close();
+};
+
+const inboxQuery = (userId: string) => ({ user: userId, 'deliveries.channel': 'in_app' });
+
+export const findUserNotifications = async (userId: string, options: any) => {
+    const { page = 1, limit = 20, unread } = options;
+    const query: any = inboxQuery(userId);
+    if (unread === 'true' || unread === true) {
+        query.readAt = null;
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const notifications = await Notification.find(query)
+        .select('-deliveries')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .lean();
+    const totalNotifications = await Notification.countDocuments(query);
+    const unreadCount = await Notification.countDocuments({ ...inboxQuery(userId), readAt: null });
+
+    return { notifications, totalNotifications, unreadCount, page, limit };
+};
+
+export const countUnread = (userId: string) => {
+    return Notification.countDocuments({ ...inboxQuery(userId), readAt: null });
+};
+
+export const setReadState = async (notificationId: string, userId: string, read: boolean) => {
+    const notification = await Notification.findOneAndUpdate(
+        { _id: notificationId, ...inboxQuery(userId) },
+        { readAt: read ? new Date() : null },
+        { new: true }
+    ).select('-deliveries');
+    if (!notification) throw new NotFoundError('Notification not found', 'NOTIFICATION_NOT_FOUND');
+    return notification;
+};
+
+export const markAllRead = (userId: string) => {
+    return Notification.updateMany({ ...inboxQuery(userId), readAt: null }, { readAt: new Date() });
+};
+
+export const deleteNotification = async (notificationId: string, userId: string) => {
+    const notification = await Notification.findOneAndDelete({ _id: notificationId, user: userId });
+    if (!notification) throw new NotFoundError('Notification not found', 'NOTIFICATION_NOT_FOUND');
+    return notification;
+};
+
+export const getPreferences = async (userId: string) => {
+    const user = await User.findById(userId).select('notificationPreferences');
+    if (!user) throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+    return user.notificationPreferences;
+};
+
+export const updatePreferences = async (userId: string, updates: any) => {
+    const user = await User.findById(userId).select('+notificationPreferences.webhook.secret');
+    if (!user) throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+
+    const preferences = user.notificationPreferences;
+    const { email, inApp, webhook } = updates;
+    let newSecret: string | undefined;
+
+    if (email?.enabled !== undefined) preferences.email.enabled = email.enabled;
+    if (inApp?.enabled !== undefined) preferences.inApp.enabled = inApp.enabled;
+    if (webhook) {
+        if (webhook.url !== undefined) {
+            await assertPublicWebhookUrl(webhook.url);
+            preferences.webhook.url = webhook.url;
+        }
+        if (webhook.enabled !== undefined) preferences.webhook.enabled = webhook.enabled;
+        if (preferences.webhook.enabled && !preferences.webhook.url) {
+            throw new BadRequestError('A webhook URL is required to enable webhook notifications', 'WEBHOOK_URL_REQUIRED');
+        }
+        if (webhook.rotateSecret || (preferences.webhook.enabled && !preferences.webhook.secret)) {
+            newSecret = generateWebhookSecret();
+            preferences.webhook.secret = newSecret;
+        }
+    }
+
+    user.markModified('notificationPreferences');
+    await user.save();
+
+    const saved = user.toObject().notificationPreferences;
+    delete saved.webhook.secret;
+
+    // The secret is only ever returned at the moment it is generated
+    return { preferences: saved, webhookSecret: newSecret };
+};
@@ -0,0 +1,108 @@
+import { User } from '../models/User.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { revokeAllSessions } from './session.service.js';
+
+export interface OAuthProfile {
+    provider: 'google';
+    id: string;
+    displayName?: string;
+    email?: string;
+    emailVerified: boolean;
+}
+
+// Signs in with an existing Google link, otherwise links the Google account to the
+// local account that owns the same email, otherwise creates a new user.
+export const findOrCreateGoogleUser = async (profile: OAuthProfile) => {
+    const linkedUser = await User.findOne({ googleId: profile.id });
+    if (linkedUser) {
+        linkedUser.lastLogin = new Date();
+        return await linkedUser.save();
+    }
+
+    if (!profile.email || !profile.emailVerified) {
+        throw new BadRequestError('Google account has no verified email address', 'OAUTH_EMAIL_NOT_VERIFIED');
+    }
+
+    const email = profile.email.trim();
+    const existingUser = await User.findOne({ email }).select('+password');
+    if (existingUser) {
+        // Nobody proved they own an unverified address, so whoever registered it may not be the
+        // Google account holder: their password and sessions go, and Google becomes the only way in
+        const takeOver = !existingUser.isEmailVerified;
+        if (takeOver) {
+            existingUser.set({ password: undefined, resetPasswordToken: undefined, resetPasswordExpires: undefined });
+            existingUser.authProviders = existingUser.authProviders.filter(p => p !== 'local');
+        }
+        existingUser.googleId = profile.id;
+        if (!existingUser.authProviders.includes('google')) {
+            existingUser.authProviders.push('google');
+        }
+        existingUser.isEmailVerified = true;
+        existingUser.lastLogin = new Date();
+        await existingUser.save();
+        if (takeOver) await revokeAllSessions(existingUser._id.toString());
+        return existingUser;
+    }
+
+    const user = new User({
+        name: profile.displayName?.trim() || email.split('@')[0],
+        email,
+        googleId: profile.id,
+        authProviders: ['google'],
+        isEmailVerified: true,
+        lastLogin: new Date()
+    });
+    return await user.save();
+};
+
+export const linkGoogleAccount = async (userId: string, profile: OAuthProfile) => {
+    const owner = await User.findOne({ googleId: profile.id });
+    if (owner && owner._id.toString() !== userId) {
+        throw new ConflictError('This Google account is already linked to another user', 'OAUTH_ACCOUNT_ALREADY_LINKED');
+    }
+
+    const user = await User.findById(userId);
+    if (!user) throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+
+    user.googleId = profile.id;
+    if (!user.authProviders.includes('google')) {
+        user.authProviders.push('google');
+    }
+    if (profile.emailVerified && profile.email?.toLowerCase() === user.email.toLowerCase()) {
+        user.isEmailVerified = true;
+    }
+    return await user.save();
+};
+
+export const setLocalPassword = async (userId: string, password: string) => {
+    const user = await User.findById(userId).select('+password');
+    if (!user) throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+
+    if (user.authProviders.includes('local')) {
+        throw new ConflictError('Password sign-in is already enabled for this account', 'PASSWORD_LOGIN_ALREADY_ENABLED');
+    }
+
+    user.password = password;
+    user.authProviders.push('local');
+    return await user.save();
+};
+
+export const unlinkProvider = async (userId: string, provider: 'local' | 'google') => {
+    const user = await User.findById(userId).select('+password');
+    if (!user) throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+
+    if (!user.authProviders.includes(provider)) {
+        throw new BadRequestError(`The ${provider} sign-in method is not linked to this account`, 'PROVIDER_NOT_LINKED');
+    }
+    if (user.authProviders.length <= 1) {
+        throw new BadRequestError('Cannot remove the only remaining sign-in method', 'LAST_SIGN_IN_METHOD');
+    }
+
+    user.authProviders = user.authProviders.filter(p => p !== provider);
+    if (provider === 'google') {
+        user.set('googleId', undefined);
+    } else {
+        user.set('password', undefined);
+    }
+    return await user.save();
+};
@@ -0,0 +1,55 @@
+import axios from 'axios';
+import type { PlatformAdapter } from './platformAdapter.js';
+import type { ProductDetails } from '../ProductIntelligence.service.js';
+import { amazonAdapter } from './amazon.adapter.js';
+import { flipkartAdapter } from './flipkart.adapter.js';
+import { myntraAdapter } from './myntra.adapter.js';
+import { meeshoAdapter } from './meesho.adapter.js';
+import { nykaaAdapter } from './nykaa.adapter.js';
+import { ajioAdapter } from './ajio.adapter.js';
+
+export const platformAdapters: PlatformAdapter[] = [
+  amazonAdapter,
+  flipkartAdapter,
+  myntraAdapter,
+  meeshoAdapter,
+  nykaaAdapter,
+  ajioAdapter
+];
+
+const FETCH_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml',
+  'Accept-Language': 'en-IN,en;q=0.9'
+};
+
+export const getAdapterForUrl = (url: string): PlatformAdapter | undefined => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  return platformAdapters.find(adapter =>
+    adapter.hosts.some(host => hostname === host || hostname.endsWith(`.${host}`))
+  );
+};
+
+export const fetchProductPage = async (url: string): Promise<string> => {
+  const response = await axios.get<string>(url, {
+    headers: FETCH_HEADERS,
+    timeout: 15000,
+    maxRedirects: 5,
+    responseType: 'text'
+  });
+  return response.data;
+};
+
+// Returns null when the platform is unsupported or the page could not be parsed
+export const scrapeProduct = async (url: string): Promise<ProductDetails | null> => {
+  const adapter = getAdapterForUrl(url);
+  if (!adapter) return null;
+
+  const html = await fetchProductPage(url);
+  return adapter.parse(html, url);
+};
@@ -0,0 +1,41 @@
+import type { PlatformAdapter } from './platformAdapter.js';
+import {
+  loadHtml, extractJsonLd, extractOpenGraph, extractAssignedJson, mergeFields, toProductDetails, definedFields, idFromUrl,
+  firstText, parsePrice, parseCount, parseRating, cleanText
+} from './platformAdapter.js';
+
+export const ajioAdapter: PlatformAdapter = {
+  platform: 'ajio',
+  hosts: ['ajio.com'],
+
+  productId(url) {
+    return idFromUrl(url, [/\/p\/([0-9a-z_]+)/i]);
+  },
+
+  parse(html, url) {
+    const $ = loadHtml(html);
+
+    const product = extractAssignedJson($, 'window.__PRELOADED_STATE__')?.product?.productDetails;
+    const stock = product?.stock?.stockLevelStatus;
+    const embedded = product ? definedFields({
+      title: cleanText(product.name),
+      brand: cleanText(product.brandName ?? product.fnlColorVariantData?.brandName),
+      category: cleanText(product.brickName ?? product.categories?.at(-1)?.name),
+      price: parsePrice(product.price?.value),
+      originalPrice: parsePrice(product.wasPriceData?.value),
+      availability: stock === 'outOfStock' ? 'out_of_stock' : stock === 'lowStock' ? 'limited_stock' : stock ? 'in_stock' : undefined,
+      rating: parseRating(product.ratingsResponse?.aggregateRating?.averageRating),
+      reviews: parseCount(product.ratingsResponse?.aggregateRating?.numUserRatings),
+      image: product.images?.[0]?.url
+    }) : {};
+
+    const selectors = definedFields({
+      title: firstText($, ['h1.prod-name']),
+      brand: firstText($, ['h2.brand-name']),
+      price: parsePrice(firstText($, ['div.prod-sp'])),
+      originalPrice: parsePrice(firstText($, ['span.prod-cp']))
+    });
+
+    return toProductDetails(mergeFields(embedded, selectors, extractJsonLd($), extractOpenGraph($)), 'ajio', url);
+  }
+};
@@ -0,0 +1,67 @@
+import type { PlatformAdapter } from './platformAdapter.js';
+import {
+  loadHtml, extractJsonLd, extractOpenGraph, mergeFields, toProductDetails, definedFields, idFromUrl,
+  firstText, firstAttr, specValue, extractOffers, parsePrice, parseCount, parseRating, parseAvailability, cleanText
+} from './platformAdapter.js';
+
+export const amazonAdapter: PlatformAdapter = {
+  platform: 'amazon',
+  hosts: ['amazon.in', 'amazon.com', 'amzn.in', 'amzn.to'],
+
+  productId(url) {
+    return idFromUrl(url, [/\/(?:dp|gp\/product|gp\/aw\/d)\/([A-Z0-9]{10})(?:[/?]|$)/i])?.toUpperCase();
+  },
+
+  parse(html, url) {
+    const $ = loadHtml(html);
+
+    const priceText = firstText($, [
+      '#corePriceDisplay_desktop_feature_div .priceToPay .a-offscreen',
+      '#corePrice_feature_div .a-price .a-offscreen',
+      '#corePriceDisplay_desktop_feature_div .a-price .a-offscreen',
+      '#priceblock_dealprice',
+      '#priceblock_ourprice',
+      '.a-price .a-offscreen'
+    ]);
+    const mrpText = firstText($, [
+      '#corePriceDisplay_desktop_feature_div .basisPrice .a-offscreen',
+      '#corePrice_feature_div .a-text-price .a-offscreen',
+      '.a-price.a-text-price .a-offscreen'
+    ]);
+    const brandText = firstText($, ['#bylineInfo', 'tr.po-brand td.po-break-word']);
+    const features = $('#feature-bullets li span.a-list-item')
+      .map((_, el) => cleanText($(el).text()))
+      .get()
+      .filter(Boolean)
+      .slice(0, 5);
+
+    const selectors = definedFields({
+      title: firstText($, ['#productTitle', '#title']),
+      brand: brandText?.replace(/^(Visit the|Brand:)\s*/i, '').replace(/\s*Store$/i, ''),
+      category: cleanText($('#wayfinding-breadcrumbs_feature_div li a').last().text()),
+      price: parsePrice(priceText),
+      originalPrice: parsePrice(mrpText),
+      availability: parseAvailability(firstText($, ['#availability span', '#availability'])),
+      seller: firstText($, ['#sellerProfileTriggerId', '#merchant-info a span', '#merchantInfoFeature_feature_div .offer-display-feature-text-message']),
+      rating: parseRating(firstAttr($, ['#acrPopover'], 'title') ?? firstText($, ['#acrPopover .a-icon-alt'])),
+      reviews: parseCount(firstText($, ['#acrCustomerReviewText'])),
+      delivery: firstText($, ['#mir-layout-DELIVERY_BLOCK-slot-PRIMARY_DELIVERY_MESSAGE_LARGE', '#deliveryBlockMessage']),
+      image: firstAttr($, ['#landingImage', '#imgBlkFront'], 'data-old-hires') ?? firstAttr($, ['#landingImage', '#imgBlkFront'], 'src'),
+      features: features.length > 0 ? features : undefined,
+      offers: extractOffers($, [
+        '#itembox-InstantBankDiscount .a-truncate-full',
+        '#itembox-NoCostEmi .a-truncate-full',
+        '#itembox-Coupons .a-truncate-full',
+        '.offers-items .a-truncate-full',
+        '#promoPriceBlockMessage_feature_div label'
+      ]),
+      modelNumber: specValue($, [
+        '#productDetails_techSpec_section_1 tr',
+        '#productDetails_detailBullets_sections1 tr',
+        '#detailBullets_feature_div li'
+      ], /^item model number$/i)
+    });
+
+    return toProductDetails(mergeFields(selectors, extractJsonLd($), extractOpenGraph($)), 'amazon', url);
+  }
+};
@@ -0,0 +1,36 @@
+import type { PlatformAdapter } from './platformAdapter.js';
+import {
+  loadHtml, extractJsonLd, extractOpenGraph, mergeFields, toProductDetails, definedFields, idFromUrl,
+  firstText, firstAttr, specValue, extractOffers, parsePrice, parseCount, parseRating, parseAvailability
+} from './platformAdapter.js';
+
+// Flipkart ships hashed class names that change between releases, so both the
+// current and the previous generation of selectors are listed.
+export const flipkartAdapter: PlatformAdapter = {
+  platform: 'flipkart',
+  hosts: ['flipkart.com', 'dl.flipkart.com'],
+
+  productId(url) {
+    return idFromUrl(url, [/\/p\/(itm[0-9a-z]+)/i], ['pid']);
+  },
+
+  parse(html, url) {
+    const $ = loadHtml(html);
+
+    const soldOut = $('div._16FRp0, div.Z8JjpR').length > 0 ? 'out_of_stock' : undefined;
+    const selectors = definedFields({
+      title: firstText($, ['h1 span.VU-ZEz', 'span.B_NuCI', 'h1 span']),
+      price: parsePrice(firstText($, ['div.Nx9bqj.CxhGGd', 'div._30jeq3._16Jk6d', 'div.Nx9bqj'])),
+      originalPrice: parsePrice(firstText($, ['div.yRaY8j.A6\\+E6v', 'div._3I9_wc._2p6lqe', 'div.yRaY8j'])),
+      availability: soldOut ?? parseAvailability(firstText($, ['div._16FRp0', 'div.Z8JjpR'])),
+      seller: firstText($, ['#sellerName span span', 'div#sellerName span']),
+      rating: parseRating(firstText($, ['div.XQDdHH', 'div._3LWZlK'])),
+      reviews: parseCount(firstText($, ['span.Wphh3N span', 'span._2_R_DZ span'])),
+      image: firstAttr($, ['img.DByuf4', 'img._396cs4'], 'src'),
+      offers: extractOffers($, ['li.kF1Ml8', 'li._16eBzU']),
+      modelNumber: specValue($, ['table tr'], /^model (number|id)$/i)
+    });
+
+    return toProductDetails(mergeFields(selectors, extractJsonLd($), extractOpenGraph($)), 'flipkart', url);
+  }
+};
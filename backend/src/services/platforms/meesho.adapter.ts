@@ -0,0 +1,58 @@
+import type { PlatformAdapter } from './platformAdapter.js';
+import {
+  loadHtml, extractJsonLd, extractOpenGraph, mergeFields, toProductDetails, definedFields, idFromUrl,
+  firstText, parsePrice, parseCount, parseRating, cleanText
+} from './platformAdapter.js';
+
+// Meesho is a Next.js app; the product sits somewhere under __NEXT_DATA__ and its
+// exact path has moved between releases, so look for the first node shaped like one.
+const findProductState = (node: any, depth = 0): any => {
+  if (!node || typeof node !== 'object' || depth > 8) return undefined;
+  if (typeof node.name === 'string' && (typeof node.price === 'number' || typeof node.min_product_price === 'number')) {
+    return node;
+  }
+  for (const value of Object.values(node)) {
+    const found = findProductState(value, depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+export const meeshoAdapter: PlatformAdapter = {
+  platform: 'meesho',
+  hosts: ['meesho.com'],
+
+  productId(url) {
+    return idFromUrl(url, [/\/p\/([0-9a-z]+)/i]);
+  },
+
+  parse(html, url) {
+    const $ = loadHtml(html);
+
+    let nextData: any;
+    try {
+      nextData = JSON.parse($('script#__NEXT_DATA__').contents().text() || 'null');
+    } catch {
+      nextData = null;
+    }
+    const product = findProductState(nextData?.props?.pageProps);
+    const embedded = product ? definedFields({
+      title: cleanText(product.name),
+      category: cleanText(product.category_name ?? product.sub_sub_category_name),
+      price: parsePrice(product.price ?? product.min_product_price),
+      originalPrice: parsePrice(product.mrp_details?.mrp ?? product.original_price),
+      availability: product.in_stock === undefined ? undefined : product.in_stock ? 'in_stock' : 'out_of_stock',
+      seller: cleanText(product.supplier_name ?? product.supplier?.name),
+      rating: parseRating(product.review_summary?.data?.average_rating ?? product.rating),
+      reviews: parseCount(product.review_summary?.data?.rating_count ?? product.rating_count),
+      image: product.images?.[0]
+    }) : {};
+
+    const selectors = definedFields({
+      title: firstText($, ['h1', 'span[class*="ProductTitle"]']),
+      price: parsePrice(firstText($, ['h4[class*="Price"]', 'h4']))
+    });
+
+    return toProductDetails(mergeFields(embedded, extractJsonLd($), extractOpenGraph($), selectors), 'meesho', url);
+  }
+};
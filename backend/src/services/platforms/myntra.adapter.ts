@@ -0,0 +1,44 @@
+import type { PlatformAdapter } from './platformAdapter.js';
+import {
+  loadHtml, extractJsonLd, extractOpenGraph, extractAssignedJson, mergeFields, toProductDetails, definedFields, idFromUrl,
+  firstText, parsePrice, parseCount, parseRating, cleanText
+} from './platformAdapter.js';
+
+export const myntraAdapter: PlatformAdapter = {
+  platform: 'myntra',
+  hosts: ['myntra.com'],
+
+  productId(url) {
+    return idFromUrl(url, [/\/(\d+)\/buy/, /\/(\d{5,})\/?$/]);
+  },
+
+  parse(html, url) {
+    const $ = loadHtml(html);
+
+    // Myntra renders the product page from the `window.__myx` state blob
+    const pdp = extractAssignedJson($, 'window.__myx')?.pdpData;
+    const sizes: any[] = pdp?.sizes ?? [];
+    const embedded = pdp ? definedFields({
+      title: cleanText(pdp.name),
+      brand: cleanText(pdp.brand?.name),
+      category: cleanText(pdp.analytics?.articleType ?? pdp.articleType?.typeName),
+      price: parsePrice(pdp.price?.discounted),
+      originalPrice: parsePrice(pdp.price?.mrp),
+      availability: sizes.length === 0 ? undefined : sizes.some(size => size.available) ? 'in_stock' : 'out_of_stock',
+      seller: cleanText(sizes.find(size => size.available)?.sizeSellerData?.[0]?.sellerName),
+      rating: parseRating(pdp.ratings?.averageRating),
+      reviews: parseCount(pdp.ratings?.totalCount),
+      image: pdp.media?.albums?.[0]?.images?.[0]?.imageURL
+    }) : {};
+
+    const selectors = definedFields({
+      title: firstText($, ['h1.pdp-name']),
+      brand: firstText($, ['h1.pdp-title']),
+      price: parsePrice(firstText($, ['span.pdp-price strong', 'span.pdp-price'])),
+      originalPrice: parsePrice(firstText($, ['span.pdp-mrp s'])),
+      rating: parseRating(firstText($, ['div.index-overallRating div']))
+    });
+
+    return toProductDetails(mergeFields(embedded, selectors, extractJsonLd($), extractOpenGraph($)), 'myntra', url);
+  }
+};
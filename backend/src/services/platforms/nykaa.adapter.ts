@@ -0,0 +1,40 @@
+import type { PlatformAdapter } from './platformAdapter.js';
+import {
+  loadHtml, extractJsonLd, extractOpenGraph, extractAssignedJson, mergeFields, toProductDetails, definedFields, idFromUrl,
+  firstText, parsePrice, parseCount, parseRating, cleanText
+} from './platformAdapter.js';
+
+export const nykaaAdapter: PlatformAdapter = {
+  platform: 'nykaa',
+  hosts: ['nykaa.com', 'nykaafashion.com'],
+
+  productId(url) {
+    return idFromUrl(url, [/\/p\/(\d+)/], ['productId']);
+  },
+
+  parse(html, url) {
+    const $ = loadHtml(html);
+
+    const product = extractAssignedJson($, 'window.__PRELOADED_STATE__')?.productPage?.product;
+    const embedded = product ? definedFields({
+      title: cleanText(product.name),
+      brand: cleanText(product.brandName),
+      category: cleanText(product.primaryCategories?.l1?.name),
+      price: parsePrice(product.offerPrice),
+      originalPrice: parsePrice(product.mrp),
+      discount: typeof product.discount === 'number' ? Math.round(product.discount) : undefined,
+      availability: typeof product.inStock === 'boolean' ? (product.inStock ? 'in_stock' : 'out_of_stock') : undefined,
+      rating: parseRating(product.rating),
+      reviews: parseCount(product.ratingCount ?? product.reviewCount),
+      image: product.imageUrl
+    }) : {};
+
+    const selectors = definedFields({
+      title: firstText($, ['h1.css-1gc4x7i', 'h1']),
+      price: parsePrice(firstText($, ['span.css-1jczs19'])),
+      originalPrice: parsePrice(firstText($, ['span.css-u05rr span']))
+    });
+
+    return toProductDetails(mergeFields(embedded, selectors, extractJsonLd($), extractOpenGraph($)), 'nykaa', url);
+  }
+};
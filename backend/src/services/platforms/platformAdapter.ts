@@ -0,0 +1,272 @@
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { ProductDetails } from '../ProductIntelligence.service.js';
+import type { AvailabilityStatus, Platform } from '../../utils/product.types.js';
+import { parseOfferText, type Offer } from '../../utils/offers.js';
+
+export interface PlatformAdapter {
+  readonly platform: Platform;
+  readonly hosts: string[];
+  // The platform's own id for the listing (ASIN, Flipkart FSN, style id...), used to match catalog entries
+  productId(url: string): string | undefined;
+  parse(html: string, url: string): ProductDetails | null;
+}
+
+// Partial product assembled from one source (JSON-LD, OpenGraph, selectors, embedded state).
+// Sources are merged in priority order, the first defined value per field wins.
+export type ProductFields = Partial<Omit<ProductDetails, 'platform' | 'url'>>;
+
+export const loadHtml = (html: string): CheerioAPI => cheerio.load(html);
+
+export const parsePrice = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  const match = value.replace(/,/g, '').match(/\d+(\.\d+)?/);
+  if (!match) return undefined;
+  const price = Number(match[0]);
+  return price > 0 ? Math.round(price * 100) / 100 : undefined;
+};
+
+export const parseCount = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return undefined;
+
+  const match = value.replace(/,/g, '').match(/(\d+(\.\d+)?)\s*([kKlL])?/);
+  if (!match) return undefined;
+  const multiplier = match[3]?.toLowerCase() === 'k' ? 1000 : match[3]?.toLowerCase() === 'l' ? 100000 : 1;
+  return Math.round(Number(match[1]) * multiplier);
+};
+
+export const parseRating = (value: unknown): number | undefined => {
+  const rating = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(rating) && rating > 0 && rating <= 5 ? rating : undefined;
+};
+
+export const parseAvailability = (value: unknown): AvailabilityStatus | undefined => {
+  if (typeof value === 'boolean') return value ? 'in_stock' : 'out_of_stock';
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+
+  const normalized = value.toLowerCase();
+  if (/outofstock|out of stock|sold ?out|unavailable|discontinued|currently unavailable/.test(normalized)) return 'out_of_stock';
+  if (/limitedavailability|only \d+ left|few left|limited/.test(normalized)) return 'limited_stock';
+  if (/instock|in stock|available|preorder|add to cart|buy now/.test(normalized)) return 'in_stock';
+  return undefined;
+};
+
+export const cleanText = (value: string | undefined | null): string | undefined => {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text ? text : undefined;
+};
+
+export const firstText = ($: CheerioAPI, selectors: string[]): string | undefined => {
+  for (const selector of selectors) {
+    const text = cleanText($(selector).first().text());
+    if (text) return text;
+  }
+  return undefined;
+};
+
+// Reads a "label: value" row from a spec table or detail bullet list
+export const specValue = ($: CheerioAPI, rowSelectors: string[], label: RegExp): string | undefined => {
+  for (const selector of rowSelectors) {
+    let value: string | undefined;
+    $(selector).each((_, row) => {
+      if (value) return;
+      const cells = $(row).children('th, td');
+      const [name, text] = cells.length >= 2
+        ? [$(cells[0]).text(), $(cells[cells.length - 1]).text()]
+        : $(row).text().split(/:(.*)/s);
+      if (name && text && label.test(cleanText(name.replace(/[\u200e\u200f]/g, '')) ?? '')) {
+        value = cleanText(text.replace(/[\u200e\u200f]/g, ''));
+      }
+    });
+    if (value) return value;
+  }
+  return undefined;
+};
+
+// Listing ids live in the URL path or query string; shortened share links carry none
+export const idFromUrl = (url: string, patterns: RegExp[], queryParams: string[] = []): string | undefined => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  for (const param of queryParams) {
+    const value = parsed.searchParams.get(param)?.trim();
+    if (value) return value;
+  }
+  for (const pattern of patterns) {
+    const match = parsed.pathname.match(pattern);
+    if (match?.[1]) return match[1];
+  }
+  return undefined;
+};
+
+export const firstAttr = ($: CheerioAPI, selectors: string[], attribute: string): string | undefined => {
+  for (const selector of selectors) {
+    const value = cleanText($(selector).first().attr(attribute));
+    if (value) return value;
+  }
+  return undefined;
+};
+
+// Every line of the listing's offers section that parses into a structured offer
+export const extractOffers = ($: CheerioAPI, selectors: string[]): Offer[] | undefined => {
+  const seen = new Set<string>();
+  const offers: Offer[] = [];
+  for (const selector of selectors) {
+    $(selector).each((_, element) => {
+      const text = cleanText($(element).text());
+      if (!text || seen.has(text)) return;
+      seen.add(text);
+      offers.push(...parseOfferText(text));
+    });
+  }
+  return offers.length > 0 ? offers : undefined;
+};
+
+// Drops undefined entries so objects stay assignable under exactOptionalPropertyTypes
+export const definedFields = (fields: Record<string, unknown>): ProductFields => {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as ProductFields;
+};
+
+export const discountFrom = (price?: number, originalPrice?: number): number | undefined => {
+  if (!price || !originalPrice || originalPrice <= price) return undefined;
+  return Math.round(((originalPrice - price) / originalPrice) * 100);
+};
+
+const asArray = <T>(value: T | T[] | undefined): T[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+const isProductNode = (node: any) => asArray(node?.['@type']).some((type: any) => String(type).toLowerCase() === 'product');
+
+const findProductNode = (node: any): any => {
+  if (!node || typeof node !== 'object') return undefined;
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findProductNode(item);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (isProductNode(node)) return node;
+  if (node['@graph']) return findProductNode(node['@graph']);
+  return undefined;
+};
+
+export const extractJsonLd = ($: CheerioAPI): ProductFields => {
+  let product: any;
+  $('script[type="application/ld+json"]').each((_, element) => {
+    if (product) return;
+    try {
+      product = findProductNode(JSON.parse($(element).contents().text()));
+    } catch {
+      // Malformed JSON-LD blocks are common, skip them
+    }
+  });
+  if (!product) return {};
+
+  const offers = asArray(product.offers).flatMap((offer: any) => offer?.['@type'] === 'AggregateOffer' ? [offer, ...asArray(offer.offers)] : [offer]);
+  const offer = offers.find((o: any) => parsePrice(o?.price ?? o?.lowPrice) !== undefined) ?? offers[0];
+  const brand = typeof product.brand === 'string' ? product.brand : product.brand?.name;
+  const image: any = asArray(product.image)[0];
+  const model = typeof product.model === 'string' ? product.model : product.model?.name;
+
+  return definedFields({
+    title: cleanText(product.name),
+    brand: cleanText(brand),
+    category: cleanText(product.category),
+    price: parsePrice(offer?.price ?? offer?.lowPrice),
+    availability: parseAvailability(offer?.availability),
+    seller: cleanText(offer?.seller?.name),
+    rating: parseRating(product.aggregateRating?.ratingValue),
+    reviews: parseCount(product.aggregateRating?.reviewCount ?? product.aggregateRating?.ratingCount),
+    image: typeof image === 'string' ? image : image?.url,
+    gtin: cleanText(String(product.gtin13 ?? product.gtin ?? product.gtin12 ?? product.gtin14 ?? product.gtin8 ?? '')),
+    modelNumber: cleanText(product.mpn ?? model)
+  });
+};
+
+export const extractOpenGraph = ($: CheerioAPI): ProductFields => {
+  const meta = (name: string) => cleanText($(`meta[property="${name}"]`).attr('content') ?? $(`meta[name="${name}"]`).attr('content'));
+
+  return definedFields({
+    title: meta('og:title'),
+    image: meta('og:image'),
+    price: parsePrice(meta('product:price:amount') ?? meta('og:price:amount')),
+    availability: parseAvailability(meta('product:availability') ?? meta('og:availability')),
+    brand: meta('product:brand')
+  });
+};
+
+// Pulls the JSON assigned to a global such as `window.__PRELOADED_STATE__ = {...};`
+export const extractAssignedJson = ($: CheerioAPI, variable: string): any => {
+  let data: any;
+  $('script').each((_, element) => {
+    if (data) return;
+    const source = $(element).contents().text();
+    const start = source.indexOf(variable);
+    if (start === -1) return;
+
+    const braceStart = source.indexOf('{', start);
+    if (braceStart === -1) return;
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = braceStart; i < source.length; i++) {
+      const char = source[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') inString = true;
+      else if (char === '{') depth++;
+      else if (char === '}' && --depth === 0) {
+        try {
+          data = JSON.parse(source.slice(braceStart, i + 1));
+        } catch {
+          // Not plain JSON (e.g. contains undefined), give up on this script
+        }
+        return;
+      }
+    }
+  });
+  return data;
+};
+
+export const mergeFields = (...sources: ProductFields[]): ProductFields => {
+  const merged: ProductFields = {};
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source)) {
+      if (value === undefined || value === null || value === '') continue;
+      if (Array.isArray(value) && value.length === 0) continue;
+      if ((merged as any)[key] === undefined) (merged as any)[key] = value;
+    }
+  }
+  return merged;
+};
+
+// A page only counts as parsed when it yields at least a title and a price;
+// anything less is handed to the AI fallback instead of being stored.
+export const toProductDetails = (fields: ProductFields, platform: Platform, url: string): ProductDetails | null => {
+  if (!fields.title || !fields.price) return null;
+
+  const discount = fields.discount ?? discountFrom(fields.price, fields.originalPrice);
+  return {
+    ...fields,
+    title: fields.title,
+    price: fields.price,
+    availability: fields.availability ?? 'in_stock',
+    ...(discount !== undefined ? { discount } : {}),
+    platform,
+    url
+  };
+};
@@ -0,0 +1,148 @@
+import { getListingDailyPrices } from './priceHistory.service.js';
+import { listingIdFromUrl } from './catalog.service.js';
+import type { ProductDetails } from './ProductIntelligence.service.js';
+import { appliesTo, saleEventOn, upcomingSaleEvent, type SaleEventWindow } from './saleEvent.service.js';
+import { FORECAST_CONFIG, priorForCategory } from '../config/forecastConfig.js';
+import { PRICE_HISTORY_CONFIG } from '../config/priceHistoryConfig.js';
+import { forecastSeries, type DailyPrice, type Forecast } from '../utils/forecasting.js';
+import { formatCurrency } from '../utils/product.transformer.js';
+import type { PricePrediction } from '../utils/product.types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const localParts = new Intl.DateTimeFormat('en-US', { timeZone: PRICE_HISTORY_CONFIG.timezone, weekday: 'short' });
+
+const weekdayOf = (date: Date) => {
+    const weekday = localParts.formatToParts(date).find(part => part.type === 'weekday')?.value;
+    return ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(weekday!);
+};
+
+const formatDay = (date: Date) => date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', timeZone: PRICE_HISTORY_CONFIG.timezone });
+
+// Cheapest reading per day across the given listings, from every tracker's observations
+export const historyForListings = async (products: ProductDetails[], now = new Date()): Promise<DailyPrice[]> => {
+    const from = new Date(now.getTime() - FORECAST_CONFIG.historyDays * DAY_MS);
+    const listings = products
+        .map(product => listingIdFromUrl(product.url))
+        .filter(listing => listing !== undefined);
+
+    const cheapest = new Map<number, number>();
+    const settled = await Promise.allSettled(listings.map(listing =>
+        getListingDailyPrices(listing.platform, listing.platformProductId, from, now)
+    ));
+    for (const outcome of settled) {
+        if (outcome.status === 'rejected') continue;
+        for (const day of outcome.value) {
+            const time = day.time.getTime();
+            cheapest.set(time, Math.min(cheapest.get(time) ?? Infinity, day.close));
+        }
+    }
+
+    return Array.from(cheapest.entries())
+        .map(([time, price]) => ({ time: new Date(time), price }))
+        .sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+const percent = (value: number) => `${Math.abs(Math.round(value * 1000) / 10)}%`;
+
+const describeFactors = (forecast: Forecast, category?: string): string[] => {
+    const factors = [
+        forecast.observedDays > 0
+            ? `Based on ${forecast.observedDays} days of tracked prices`
+            : `No tracked history yet, using typical behaviour for ${category || 'this kind of product'}`
+    ];
+
+    if (Math.abs(forecast.monthlyTrend) >= 0.005) {
+        factors.push(`Prices are trending ${forecast.monthlyTrend < 0 ? 'down' : 'up'} about ${percent(forecast.monthlyTrend)} a month`);
+    }
+    if (forecast.festivalEffect <= -0.01) {
+        factors.push(forecast.festivalEffectSource === 'history'
+            ? `Sale events cut the price by about ${percent(forecast.festivalEffect)} (seen on ${forecast.festivalDaysObserved} sale days)`
+            : `Sale events typically cut ${category || 'such'} prices by about ${percent(forecast.festivalEffect)}`);
+    }
+    if (forecast.weeklyPattern) {
+        const cheapest = forecast.weeklyPattern.indexOf(Math.min(...forecast.weeklyPattern));
+        factors.push(`Usually cheapest on ${WEEKDAYS[cheapest]}s`);
+    }
+    return factors;
+};
+
+// Confidence reflects how tight the 30-day interval is and how much history backs it
+const confidenceFrom = (forecast: Forecast) => {
+    const last = forecast.points[forecast.points.length - 1];
+    if (!last) return 0;
+    const relativeWidth = (last.upper - last.lower) / last.expected;
+    const support = Math.min(1, 0.4 + forecast.observedDays / 150);
+    return Math.round(Math.min(95, Math.max(5, (1 - relativeWidth) * 100 * support)));
+};
+
+// `calendar` is the sale calendar; only events on these products' platforms and category count
+export const buildPricePrediction = (products: ProductDetails[], history: DailyPrice[], calendar: SaleEventWindow[] = [], now = new Date()): PricePrediction => {
+    const inStock = products.filter(product => product.availability !== 'out_of_stock' && product.price > 0);
+    const prices = (inStock.length > 0 ? inStock : products).map(product => product.price).filter(price => price > 0);
+    const currentPrice = prices.length > 0 ? Math.min(...prices) : undefined;
+    const category = products.find(product => product.category)?.category;
+    const filter = { platforms: [...new Set(products.map(product => product.platform))], ...(category ? { category } : {}) };
+    const events = calendar.filter(event => appliesTo(event, filter));
+
+    const forecast = forecastSeries(history, {
+        horizonDays: 30,
+        prior: priorForCategory(category),
+        isFestival: date => saleEventOn(events, date) !== undefined,
+        weekday: weekdayOf,
+        now,
+        intervalLevel: FORECAST_CONFIG.intervalLevel,
+        trendDamping: FORECAST_CONFIG.trendDamping,
+        priorWeightDays: FORECAST_CONFIG.priorWeightDays,
+        minDaysForWeekly: FORECAST_CONFIG.minDaysForWeekly,
+        ...(currentPrice ? { currentPrice } : {})
+    });
+
+    const range = (points: Forecast['points']) => ({
+        min: Math.round(Math.min(...points.map(point => point.lower))),
+        max: Math.round(Math.max(...points.map(point => point.upper)))
+    });
+    const week = forecast.points.slice(0, 7);
+    const month = forecast.points;
+    const cheapestDay = month.reduce((best, point) => point.expected < best.expected ? point : best);
+
+    const upcoming = upcomingSaleEvent(events, {}, now);
+    const startsInDays = upcoming ? Math.max(0, Math.ceil((upcoming.startsAt.getTime() - now.getTime()) / DAY_MS)) : undefined;
+    const saleDip = forecast.festivalEffect <= -0.02;
+    const closes = history.map(point => point.price).sort((a, b) => a - b);
+    const highPrice = closes.length >= 14 ? closes[Math.floor(closes.length * 0.9)]! : undefined;
+
+    let bestTimeToBuy = 'Now, no meaningful drop is expected in the next month';
+    if (currentPrice && cheapestDay.expected < currentPrice * 0.97) {
+        const sale = saleEventOn(events, cheapestDay.time);
+        bestTimeToBuy = sale
+            ? `During ${sale.name}, expected around ${formatCurrency(Math.round(cheapestDay.expected))} by ${formatDay(cheapestDay.time)}`
+            : `Wait until around ${formatDay(cheapestDay.time)}, expected near ${formatCurrency(Math.round(cheapestDay.expected))}`;
+    } else if (upcoming && startsInDays! > 30 && saleDip) {
+        bestTimeToBuy = `Now, or wait ${startsInDays} days for ${upcoming.name}`;
+    }
+
+    return {
+        nextWeekRange: range(week),
+        nextMonthRange: range(month),
+        expectedPrice: {
+            nextWeek: Math.round(week[week.length - 1]!.expected),
+            nextMonth: Math.round(month[month.length - 1]!.expected)
+        },
+        intervalLevel: Math.round(forecast.intervalLevel * 100),
+        confidence: confidenceFrom(forecast),
+        factors: describeFactors(forecast, category),
+        bestTimeToBuy,
+        seasonalTrends: {
+            peak: forecast.weeklyPattern
+                ? `${WEEKDAYS[forecast.weeklyPattern.indexOf(Math.max(...forecast.weeklyPattern))]}s, outside sale events`
+                : 'Outside sale events',
+            low: upcoming && saleDip
+                ? `${upcoming.name}${startsInDays! > 0 ? `, from ${formatDay(upcoming.startsAt)}` : ', running now'}`
+                : 'No recurring sale-event dip',
+            current: saleEventOn(events, now) && saleDip ? 'low' : highPrice !== undefined && currentPrice !== undefined && currentPrice >= highPrice ? 'peak' : 'normal'
+        },
+        basedOnDays: forecast.observedDays
+    };
+};
@@ -0,0 +1,326 @@
+import cron, { type ScheduledTask } from 'node-cron';
+import mongoose, { type PipelineStage } from 'mongoose';
+import { PriceObservation, type PriceSource } from '../models/PriceObservation.js';
+import { PriceRollup } from '../models/PriceRollup.js';
+import { PRICE_HISTORY_CONFIG, type HistoryGranularity, type RollupGranularity } from '../config/priceHistoryConfig.js';
+
+export interface ObservationInput {
+    platform: string;
+    listing: string;
+    price: number;
+    originalPrice?: number;
+    availability?: 'in_stock' | 'out_of_stock' | 'limited_stock';
+    source: PriceSource;
+    observedAt: Date;
+}
+
+export interface PriceBucket {
+    time: Date;
+    min: number;
+    max: number;
+    avg: number;
+    close: number;
+    count: number;
+}
+
+export interface ListingDay {
+    time: Date;
+    close: number;
+    high: number;
+    // Last MRP listed that day
+    mrp?: number;
+}
+
+export interface PriceSeriesOptions {
+    from: Date;
+    // Exclusive
+    to: Date;
+    granularity?: HistoryGranularity | 'auto';
+    platform?: string;
+}
+
+export interface PriceSeries {
+    granularity: HistoryGranularity;
+    series: Record<string, PriceBucket[]>;
+}
+
+const ROLLUP_GRANULARITIES: RollupGranularity[] = ['hour', 'day', 'week'];
+const HOUR_MS = 3600000;
+const UNIT_MS: Record<RollupGranularity, number> = { hour: HOUR_MS, day: 24 * HOUR_MS, week: 7 * 24 * HOUR_MS };
+const ROLLUP_WRITE_BATCH = 1000;
+
+let rollupTask: ScheduledTask | null = null;
+
+const toObjectId = (id: unknown) => new mongoose.Types.ObjectId(String(id));
+
+// Raw observations older than this may already have been removed by the TTL
+const rawCutoff = (now = new Date()) => {
+    const days = PRICE_HISTORY_CONFIG.retentionDays.raw;
+    return days > 0 ? new Date(now.getTime() - days * 24 * HOUR_MS) : new Date(0);
+};
+
+const bucketStart = (granularity: RollupGranularity) => ({
+    $dateTrunc: {
+        date: '$observedAt',
+        unit: granularity,
+        timezone: PRICE_HISTORY_CONFIG.timezone,
+        ...(granularity === 'week' ? { startOfWeek: 'monday' } : {})
+    }
+});
+
+// Groups raw observations into buckets; `close` is the last price seen in the bucket
+const aggregateObservations = (match: Record<string, unknown>, granularity: RollupGranularity, byProduct = false) => {
+    const pipeline: PipelineStage[] = [
+        { $match: match },
+        { $sort: { observedAt: 1 } },
+        {
+            $group: {
+                _id: {
+                    ...(byProduct ? { product: '$meta.product' } : {}),
+                    platform: '$meta.platform',
+                    bucketStart: bucketStart(granularity)
+                },
+                listing: { $last: '$meta.listing' },
+                min: { $min: '$price' },
+                max: { $max: '$price' },
+                avg: { $avg: '$price' },
+                close: { $last: '$price' },
+                closedAt: { $last: '$observedAt' },
+                mrp: { $last: '$originalPrice' },
+                count: { $sum: 1 }
+            }
+        },
+        { $sort: { '_id.bucketStart': 1 } }
+    ];
+    return PriceObservation.aggregate(pipeline);
+};
+
+const appendBucket = (series: Record<string, PriceBucket[]>, platform: string, bucket: PriceBucket) => {
+    (series[platform] ??= []).push(bucket);
+};
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+export const recordObservations = async (productId: unknown, observations: ObservationInput[]) => {
+    if (observations.length === 0) return;
+    await PriceObservation.insertMany(observations.map(({ platform, listing, ...reading }) => ({
+        ...reading,
+        meta: { product: toObjectId(productId), platform, listing }
+    })));
+};
+
+// The finest granularity that keeps the range within roughly `targetPoints` buckets
+export const pickGranularity = (from: Date, to: Date): HistoryGranularity => {
+    const span = to.getTime() - from.getTime();
+    if (span <= 2 * UNIT_MS.day) return 'raw';
+    return ROLLUP_GRANULARITIES.find(granularity => span / UNIT_MS[granularity] <= PRICE_HISTORY_CONFIG.targetPoints) ?? 'week';
+};
+
+// Buckets that start inside raw retention are aggregated from raw observations, so the
+// current hour/day/week is always up to date; older buckets come from stored rollups.
+export const getPriceSeries = async (productId: unknown, options: PriceSeriesOptions): Promise<PriceSeries> => {
+    const { from, to, platform } = options;
+    const granularity = !options.granularity || options.granularity === 'auto' ? pickGranularity(from, to) : options.granularity;
+    const product = toObjectId(productId);
+    const series: Record<string, PriceBucket[]> = {};
+
+    if (granularity === 'raw') {
+        const observations = await PriceObservation.find({
+            'meta.product': product,
+            ...(platform ? { 'meta.platform': platform } : {}),
+            observedAt: { $gte: from, $lt: to }
+        }).sort({ observedAt: 1 }).lean();
+
+        for (const { meta, price, observedAt } of observations) {
+            appendBucket(series, meta.platform, { time: observedAt, min: price, max: price, avg: price, close: price, count: 1 });
+        }
+        return { granularity, series };
+    }
+
+    const cutoff = rawCutoff();
+    if (from < cutoff) {
+        const rollups = await PriceRollup.find({
+            product,
+            granularity,
+            ...(platform ? { platform } : {}),
+            bucketStart: { $gt: new Date(from.getTime() - UNIT_MS[granularity]), $lt: cutoff < to ? cutoff : to }
+        }).sort({ bucketStart: 1 }).lean();
+
+        for (const rollup of rollups) {
+            appendBucket(series, rollup.platform, {
+                time: rollup.bucketStart,
+                min: rollup.min,
+                max: rollup.max,
+                avg: rollup.avg,
+                close: rollup.close,
+                count: rollup.count
+            });
+        }
+    }
+
+    if (to > cutoff) {
+        const rawFrom = from < cutoff ? cutoff : from;
+        const buckets = await aggregateObservations({
+            'meta.product': product,
+            ...(platform ? { 'meta.platform': platform } : {}),
+            observedAt: { $gte: rawFrom, $lt: to }
+        }, granularity);
+
+        for (const bucket of buckets) {
+            // A bucket straddling the cutoff is only partially in raw storage, its rollup was used instead
+            if (from < cutoff && bucket._id.bucketStart < cutoff) continue;
+            appendBucket(series, bucket._id.platform, {
+                time: bucket._id.bucketStart,
+                min: bucket.min,
+                max: bucket.max,
+                avg: roundPrice(bucket.avg),
+                close: bucket.close,
+                count: bucket.count
+            });
+        }
+    }
+
+    return { granularity, series };
+};
+
+export const getLowestPrice = async (productId: unknown, platform: string, from: Date, to: Date): Promise<number | undefined> => {
+    const { series } = await getPriceSeries(productId, { from, to, platform, granularity: 'day' });
+    const lows = (series[platform] ?? []).map(bucket => bucket.min).filter(price => price > 0);
+    return lows.length > 0 ? Math.min(...lows) : undefined;
+};
+
+// Daily prices of one listing, pooled across every product tracking it, so a listing tracked
+// by several users is judged on all their reads. Daily rollups are kept long after raw
+// observations expire, so they supply the history; raw observations fill in the days since
+// the newest rollup, which may still be incomplete.
+export const getListingDailyPrices = async (platform: string, listing: string, from: Date, to: Date): Promise<ListingDay[]> => {
+    const rollups = await PriceRollup.aggregate([
+        { $match: { platform, listing, granularity: 'day', bucketStart: { $gte: from, $lt: to } } },
+        { $sort: { closedAt: 1 } },
+        {
+            $group: {
+                _id: '$bucketStart',
+                close: { $last: '$close' },
+                high: { $max: '$max' },
+                mrp: { $last: '$mrp' }
+            }
+        },
+        { $sort: { _id: 1 } }
+    ]);
+
+    const rawFrom = rollups.length > 0 ? rollups[rollups.length - 1]._id as Date : from;
+    const raw = await PriceObservation.aggregate([
+        { $match: { 'meta.platform': platform, 'meta.listing': listing, observedAt: { $gte: rawFrom, $lt: to }, price: { $gt: 0 } } },
+        { $sort: { observedAt: 1 } },
+        {
+            $group: {
+                _id: bucketStart('day'),
+                close: { $last: '$price' },
+                high: { $max: '$price' },
+                mrp: { $last: '$originalPrice' }
+            }
+        },
+        { $sort: { _id: 1 } }
+    ]);
+
+    // A day still in raw storage replaces its rollup, which may have been written before the day
+    // ended; a day straddling the raw cutoff is only partially in raw storage, so its rollup stays
+    const cutoff = rawCutoff();
+    const days = new Map<number, ListingDay>();
+    const add = (day: { _id: Date; close: number; high: number; mrp?: number | null }) => days.set(day._id.getTime(), {
+        time: day._id,
+        close: day.close,
+        high: day.high,
+        ...(day.mrp ? { mrp: day.mrp } : {})
+    });
+    rollups.forEach(add);
+    raw.filter(day => day._id >= cutoff || !days.has(day._id.getTime())).forEach(add);
+    return Array.from(days.values()).sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+export const deleteProductHistory = async (productId: unknown) => {
+    const product = toObjectId(productId);
+    await PriceObservation.deleteMany({ 'meta.product': product });
+    await PriceRollup.deleteMany({ product });
+};
+
+// Recomputes every bucket that starts after `since` (default: each granularity's
+// lookback). Matching one extra unit back and dropping buckets that start before it
+// means a bucket is only ever written from all of its observations.
+export const rollupPriceHistory = async (now = new Date(), since?: Date) => {
+    let written = 0;
+
+    for (const granularity of ROLLUP_GRANULARITIES) {
+        const windowStart = since ?? new Date(now.getTime() - PRICE_HISTORY_CONFIG.rollupLookbackHours[granularity] * HOUR_MS);
+        const matchFrom = new Date(windowStart.getTime() - UNIT_MS[granularity]);
+        const buckets = await aggregateObservations({ observedAt: { $gte: matchFrom, $lte: now } }, granularity, true);
+
+        const writes = buckets
+            .filter(bucket => bucket._id.bucketStart >= matchFrom)
+            .map(bucket => ({
+                updateOne: {
+                    filter: { product: bucket._id.product, granularity, platform: bucket._id.platform, bucketStart: bucket._id.bucketStart },
+                    update: {
+                        $set: {
+                            listing: bucket.listing,
+                            min: bucket.min,
+                            max: bucket.max,
+                            avg: roundPrice(bucket.avg),
+                            close: bucket.close,
+                            count: bucket.count,
+                            closedAt: bucket.closedAt,
+                            ...(bucket.mrp ? { mrp: bucket.mrp } : {})
+                        }
+                    },
+                    upsert: true
+                }
+            }));
+
+        for (let i = 0; i < writes.length; i += ROLLUP_WRITE_BATCH) {
+            await PriceRollup.bulkWrite(writes.slice(i, i + ROLLUP_WRITE_BATCH), { ordered: false });
+        }
+        written += writes.length;
+
+        const retentionDays = PRICE_HISTORY_CONFIG.retentionDays[granularity];
+        if (retentionDays > 0) {
+            await PriceRollup.deleteMany({ granularity, bucketStart: { $lt: new Date(now.getTime() - retentionDays * 24 * HOUR_MS) } });
+        }
+    }
+
+    return written;
+};
+
+// The TTL of a time-series collection is fixed when it is created, so a changed
+// raw retention setting is applied to the existing collection here.
+export const applyRetentionPolicy = async () => {
+    await PriceObservation.init();
+    const days = PRICE_HISTORY_CONFIG.retentionDays.raw;
+    await mongoose.connection.db!.command({
+        collMod: PriceObservation.collection.collectionName,
+        expireAfterSeconds: days > 0 ? days * 24 * 60 * 60 : 'off'
+    });
+};
+
+export const startPriceHistoryJobs = () => {
+    if (rollupTask) return rollupTask;
+
+    applyRetentionPolicy().catch(error => console.error('Failed to apply price history retention policy:', error));
+
+    rollupTask = cron.schedule(PRICE_HISTORY_CONFIG.rollupCron, async () => {
+        try {
+            const written = await rollupPriceHistory();
+            if (written > 0) console.log(`Updated ${written} price history rollups`);
+        } catch (error) {
+            console.error('Error rolling up price history:', error);
+        }
+    }, { name: 'price-history-rollup', noOverlap: true });
+
+    return rollupTask;
+};
+
+export const stopPriceHistoryJobs = async () => {
+    if (rollupTask) {
+        await rollupTask.stop();
+        rollupTask = null;
+    }
+};
@@ -0,0 +1,99 @@
+import cron, { type ScheduledTask } from 'node-cron';
+import type { Job } from 'bull';
+import { lazyQueue } from '../config/queueConfig.js';
+import { Product } from '../models/Product.js';
+import { updateProductPrices } from './product.service.js';
+
+export interface PriceRefreshJob {
+    productId: string;
+    userId: string;
+}
+
+export const REFRESH_CONFIG = {
+    cronExpression: process.env.PRICE_REFRESH_CRON || '*/5 * * * *',
+    batchSize: Number(process.env.PRICE_REFRESH_BATCH_SIZE) || 100,
+    concurrency: Number(process.env.PRICE_REFRESH_CONCURRENCY) || 2,
+    attempts: 3,
+    backoffDelay: 60000,
+};
+
+const refreshQueue = lazyQueue<PriceRefreshJob>('price-refresh');
+let cronTask: ScheduledTask | null = null;
+
+const processRefreshJob = async (job: Job<PriceRefreshJob>) => {
+    const { productId, userId } = job.data;
+    const result = await updateProductPrices(productId, userId);
+    return { productId, updated: result.updated };
+};
+
+// Queues every product whose refresh is due and pushes its next refresh forward,
+// so a slow queue never causes the same product to be picked up twice.
+export const enqueueDueProducts = async (): Promise<number> => {
+    const now = new Date();
+    const dueProducts = await Product.find({
+        nextRefreshAt: { $lte: now },
+        selectedPlatforms: { $exists: true, $ne: [] }
+    })
+        .select('_id user refreshIntervalMinutes platforms')
+        .sort({ nextRefreshAt: 1 })
+        .limit(REFRESH_CONFIG.batchSize);
+
+    let queued = 0;
+    for (const product of dueProducts) {
+        const hasActivePlatform = Array.from(product.platforms.values()).some(p => p.isActive);
+        const productId = String(product._id);
+
+        await Product.updateOne(
+            { _id: product._id },
+            { nextRefreshAt: new Date(now.getTime() + product.refreshIntervalMinutes * 60000) }
+        );
+        if (!hasActivePlatform) continue;
+
+        await refreshQueue.get().add(
+            { productId, userId: product.user.toString() },
+            {
+                jobId: `refresh:${productId}`,
+                attempts: REFRESH_CONFIG.attempts,
+                backoff: { type: 'exponential', delay: REFRESH_CONFIG.backoffDelay },
+                removeOnComplete: true,
+                removeOnFail: true
+            }
+        );
+        queued++;
+    }
+
+    return queued;
+};
+
+export const startPriceRefreshScheduler = () => {
+    if (cronTask) return cronTask;
+
+    refreshQueue.get().process(REFRESH_CONFIG.concurrency, processRefreshJob);
+
+    refreshQueue.get().on('failed', (job, err) => {
+        const attempts = job.opts.attempts ?? 1;
+        console.warn(`Price refresh for ${job.data.productId} failed (attempt ${job.attemptsMade}/${attempts}):`, err.message);
+    });
+
+    cronTask = cron.schedule(REFRESH_CONFIG.cronExpression, async () => {
+        try {
+            const queued = await enqueueDueProducts();
+            if (queued > 0) console.log(`Queued ${queued} products for price refresh`);
+        } catch (error) {
+            console.error('Error queueing price refreshes:', error);
+        }
+    }, { name: 'price-refresh', noOverlap: true });
+
+    console.log(`Price refresh scheduler started (${REFRESH_CONFIG.cronExpression})`);
+    return cronTask;
+};
+
+export const stopPriceRefreshScheduler = async () => {
+    if (cronTask) {
+        await cronTask.stop();
+        cronTask = null;
+    }
+    await refreshQueue.close();
+};
+
+export const getRefreshQueue = refreshQueue.get;
@@ -1,53 +1,95 @@
 import { User } from '../models/User.js'; 
 import { Product} from '../models/Product.js';
-import { ProductSearch } from '../models/ProductSearch.js';
-import { PriceIntelligenceWorkflow } from '../services/ai/LangChainWorkflows.js';
+import { ProductSearch, RECENT_SEARCH_TTL_SECONDS } from '../models/ProductSearch.js';
+import { AlertRule } from '../models/AlertRule.js';
+import { PriceIntelligenceWorkflow, type WorkflowState } from './langchain.workflow.js';
+import { ProductIntelligenceService, type ProductDetails } from './ProductIntelligence.service.js';
+import { evaluateAlerts, createRulesFromThresholds } from './alert.service.js';
+import { fetchListing, linkToCatalog, listingIdFromUrl, platformProductIdFor } from './catalog.service.js';
+import { assessDiscounts, claimFromPlatform } from './discountAuthenticity.service.js';
+import { applyEffectivePricing, getPaymentMethods, priceListings } from './effectivePrice.service.js';
+import { linkSearchToRun } from './workflowRecorder.js';
+import { chargeTo } from './llm/usageMeter.js';
+import { deleteProductHistory, getPriceSeries, recordObservations, type ObservationInput } from './priceHistory.service.js';
+import type { HistoryGranularity } from '../config/priceHistoryConfig.js';
+import { FORECAST_CONFIG } from '../config/forecastConfig.js';
+import type { PlatformChange, PriceUpdateResult } from '../utils/product.types.js';
+import { combineSeries, getPriceStatistics, type PriceStatistics } from '../utils/product.transformer.js';
+import { calculateEffectivePrice, describePaymentMethod, type EffectivePriceOptions } from '../utils/offers.js';
 import { v4 as uuidv4 } from 'uuid';
 import type { SortOrder } from 'mongoose';
-
-interface PriceEntry {
-  date: Date;
-  price: number;
-}
+import { AppError, BadRequestError, PlatformUnavailableError, ProductNotFoundError } from '../utils/errors.js';
 
 const aiWorkflow = new PriceIntelligenceWorkflow();
 const productIntelligence = new ProductIntelligenceService();
 
-export const searchAndAnalyze = async (query: string, userId: string) => {
+// AI extraction done while loading a listing is charged to the user it is loaded for
+const loadListing = (userId: string) => (url: string) => chargeTo(userId, () => productIntelligence.getProductByUrl(url));
 
-    const existingSearch = await ProductSearch.findOne({
-        User: userId,
-        SearchQuery: query,
-        createdAt: { $gte: new Date(Date.now() - 7*3600000) }
-    });
-    if (existingSearch) {
-        return { cached: true, data: existingSearch };
-    }
+const findRecentSearch = (query: string, userId: string) => ProductSearch.findOne({
+    User: userId,
+    SearchQuery: query,
+    createdAt: { $gte: new Date(Date.now() - RECENT_SEARCH_TTL_SECONDS * 1000) }
+});
 
-    const workflowResult = await aiWorkflow.executeWorkflow(query, userId);
+const buildSearchResults = async (searchResults: ProductDetails[], userId: string) => {
+    const pricing = priceListings(searchResults, await getPaymentMethods(userId));
+    // Claimed discounts are checked against what tracked users have seen the listing sell for
+    const authenticity = await assessDiscounts(searchResults.map(data => {
+        const listingId = listingIdFromUrl(data.url);
+        return {
+            platform: data.platform,
+            price: data.price,
+            ...(listingId ? { listing: listingId.platformProductId } : {}),
+            ...(data.originalPrice !== undefined ? { originalPrice: data.originalPrice } : {}),
+            ...(data.discount !== undefined ? { discount: data.discount } : {})
+        };
+    }));
 
-    const results = Array.from(workflowResult.scrapedData.entries() as Iterable<[string, any]>).map(([platform, data]) => ({
-        platform,
-        url: data.url || `https://${platform}.com/search?q=${encodeURIComponent(query)}`,
-        price: data.price || 0,
-        availability: data.availability || 'unknown',
+    return searchResults.map((data, index) => ({
+        platform: data.platform,
+        url: data.url,
+        price: data.price,
+        originalPrice: data.originalPrice,
+        discount: data.discount,
+        discountAuthenticity: authenticity[index],
+        offers: data.offers,
+        pricing: pricing[index],
+        availability: data.availability,
         seller: data.seller,
         rating: data.rating,
         reviews: data.reviews,
         delivery: data.delivery,
         lastUpdated: new Date()
     }));
+};
 
+type SearchResult = Awaited<ReturnType<typeof buildSearchResults>>[number];
+
+const saveSearch = async (query: string, userId: string, results: SearchResult[], runId: string) => {
     const searchId = uuidv4();
-    const productSearch = new ProductSearch({
+    await new ProductSearch({
         SearchQuery: query,
         searchId,
         results,
         User: userId
-    });
-    await productSearch.save();
+    }).save();
+
+    await Promise.all([incrementUserSearchCount(userId), linkSearchToRun(runId, searchId)]);
+    return searchId;
+};
+
+export const searchAndAnalyze = async (query: string, userId: string) => {
+
+    const existingSearch = await findRecentSearch(query, userId);
+    if (existingSearch) {
+        return { cached: true, data: existingSearch };
+    }
+
+    const workflowResult = await aiWorkflow.executeWorkflow(query, userId);
 
-    await incrementUserSearchCount(userId);
+    const results = await buildSearchResults(workflowResult.searchResults ?? [], userId);
+    const searchId = await saveSearch(query, userId, results, workflowResult.runId);
 
     return {
         cached: false,
@@ -57,41 +99,101 @@ export const searchAndAnalyze = async (query: string, userId: string) => {
             aiInsights: {
                 marketAnalysis: workflowResult.marketAnalysis,
                 recommendations: workflowResult.recommendations,
-                pricePredicition: workflowResult.pricePredicition
+                pricePrediction: workflowResult.pricePrediction
             }
         }
     };
 };
 
+export type SearchEvent =
+    | { type: 'cached'; data: { searchId: string; results: unknown[]; cachedAt: Date } }
+    | { type: 'results'; data: { searchId: string; results: SearchResult[] } }
+    | { type: 'analysis'; data: { marketAnalysis: WorkflowState['marketAnalysis'] } }
+    | { type: 'prediction'; data: { pricePrediction: WorkflowState['pricePrediction'] } }
+    | { type: 'recommendation'; data: { recommendations: WorkflowState['recommendations'] } };
+
+// Same search as searchAndAnalyze, yielding each part as its workflow step finishes. The search
+// is saved and counted once results are in, so a client leaving mid-analysis still used one.
+export async function* streamSearch(query: string, userId: string, signal?: AbortSignal): AsyncGenerator<SearchEvent> {
+    const existingSearch = await findRecentSearch(query, userId);
+    if (existingSearch) {
+        yield {
+            type: 'cached',
+            data: { searchId: existingSearch.searchId, results: existingSearch.results, cachedAt: existingSearch.createdAt }
+        };
+        return;
+    }
+
+    for await (const { runId, node, state } of aiWorkflow.streamWorkflow(query, userId, signal)) {
+        switch (node) {
+            case 'searchProducts': {
+                const results = await buildSearchResults(state.searchResults ?? [], userId);
+                const searchId = await saveSearch(query, userId, results, runId);
+                yield { type: 'results', data: { searchId, results } };
+                break;
+            }
+            case 'rankDeals':
+                if (state.marketAnalysis) yield { type: 'analysis', data: { marketAnalysis: state.marketAnalysis } };
+                break;
+            case 'predictTrends':
+                yield { type: 'prediction', data: { pricePrediction: state.pricePrediction ?? null } };
+                break;
+            case 'generateRecommendations':
+                if (state.recommendations) yield { type: 'recommendation', data: { recommendations: state.recommendations } };
+                break;
+            case 'fallback':
+                if (state.marketAnalysis) yield { type: 'analysis', data: { marketAnalysis: state.marketAnalysis } };
+                yield { type: 'recommendation', data: { recommendations: state.recommendations ?? null } };
+                break;
+        }
+    }
+}
+
+// Fetches every URL independently so one unreachable platform does not block tracking the rest
+const fetchTrackedUrls = async (urls: string[], userId: string) => {
+    const results = new Map<string, ProductDetails>();
+    const settled = await Promise.allSettled(urls.map(url => fetchListing(url, loadListing(userId))));
+
+    settled.forEach((outcome, index) => {
+        const url = urls[index]!;
+        if (outcome.status === 'fulfilled' && outcome.value) {
+            results.set(getPlatformFromUrl(url), { ...outcome.value, url });
+        } else {
+            console.warn(`Could not fetch product data for ${url}:`, outcome.status === 'rejected' ? outcome.reason : 'no data');
+        }
+    });
+
+    return results;
+};
+
 export const createTrackedProduct = async (productData: any, userId: string) => {
-    const { title, urls, brand, category, notes } = productData;
-    const masterProductId = uuidv4();
+    const { title, urls, brand, category, notes, refreshIntervalMinutes, alertThresholds } = productData;
     const platformsData = new Map();
     const selectedPlatforms: string[] = [];
 
     try {
-        const trackingResults = await aiWorkflow.executeTrackingWorkflow(urls, userId);
-        
+        const [trackingResults, paymentMethods] = await Promise.all([fetchTrackedUrls(urls, userId), getPaymentMethods(userId)]);
+
         if (trackingResults.size === 0) {
-            throw new Error('Unable to fetch product data from any of the provided URLs');
+            throw new PlatformUnavailableError(urls.map(getPlatformFromUrl).join(', '), 'Unable to fetch product data from any of the provided URLs');
         }
 
+        const catalog = await linkToCatalog(Array.from(trackingResults.values()));
+
         // Process results from AI service
         for (const [platform, data] of trackingResults.entries()) {
             const platformEntry = {
                 url: data.url,
-                platformProductId: `${platform}_${Date.now()}`,
+                platformProductId: platformProductIdFor(data.url),
                 currentPrice: data.price,
+                originalPrice: data.originalPrice,
+                discount: data.discount,
+                offers: data.offers,
+                effectivePrice: calculateEffectivePrice(data.price, data.offers ?? [], paymentMethods).effectivePrice,
                 availability: data.availability,
                 seller: data.seller,
                 rating: data.rating,
                 reviews: data.reviews,
-                priceHistory: [{ 
-                    date: new Date(), 
-                    price: data.price, 
-                    source: 'ai_fetched' as const, 
-                    availability: data.availability 
-                }],
                 lastScraped: new Date(),
                 isActive: true
             };
@@ -103,83 +205,156 @@ export const createTrackedProduct = async (productData: any, userId: string) =>
             title: title.trim(),
             brand: brand || Array.from(trackingResults.values())[0]?.brand,
             category: category || Array.from(trackingResults.values())[0]?.category,
-            masterProductId,
+            masterProductId: String(catalog._id),
+            catalogProduct: catalog._id,
             platforms: platformsData,
             user: userId,
             selectedPlatforms,
             trackingStartDate: new Date(),
+            ...(refreshIntervalMinutes ? { refreshIntervalMinutes } : {}),
             notes
         });
         
-        return await product.save();
+        const savedProduct = await product.save();
+        await recordObservations(savedProduct._id, Array.from(platformsData.entries()).map(([platform, entry]) => ({
+            platform,
+            listing: entry.platformProductId,
+            price: entry.currentPrice,
+            ...(entry.originalPrice !== undefined ? { originalPrice: entry.originalPrice } : {}),
+            availability: entry.availability,
+            source: 'ai_fetched' as const,
+            observedAt: entry.lastScraped
+        })));
+        if (alertThresholds) {
+            await createRulesFromThresholds(savedProduct, userId, alertThresholds);
+        }
+        return savedProduct;
     } catch (error) {
         console.error('Product tracking creation failed:', error);
+        if (error instanceof AppError) throw error;
         throw new Error(`Failed to create tracked product: ${error}`);
     }
 };
 
-export const updateProductPrices = async (productId: string, userId: string) => {
+export const updateProductPrices = async (productId: string, userId: string): Promise<PriceUpdateResult> => {
     const product = await Product.findOne({ _id: productId, user: userId });
     if (!product) {
-        throw new Error('Product not found');
+        throw new ProductNotFoundError(productId);
     }
 
-    const updatedPlatforms = new Map();
+    const paymentMethods = await getPaymentMethods(String(product.user));
+    const alertChanges: PlatformChange[] = [];
+    const fetched: ProductDetails[] = [];
+    const observations: ObservationInput[] = [];
     let hasUpdates = false;
+    let attempted = 0;
+    let failed = 0;
 
     // Update prices using AI service for each tracked platform
     for (const [platform, platformData] of product.platforms.entries()) {
-        if (!platformData.isActive) {
-            updatedPlatforms.set(platform, platformData);
-            continue;
-        }
+        if (!platformData.isActive) continue;
+        attempted++;
 
         try {
-            const updatedData = await productIntelligence.getProductByUrl(platformData.url);
-            
-            if (updatedData && updatedData.price !== platformData.currentPrice) {
-                // Price changed - add to history
-                platformData.priceHistory.push({
-                    date: new Date(),
-                    price: updatedData.price,
-                    source: 'ai_updated' as const,
-                    availability: updatedData.availability
-                });
+            const updatedData = await fetchListing(platformData.url, loadListing(userId));
+            if (!updatedData) {
+                throw new Error(`No product data returned for ${platformData.url}`);
+            }
+            fetched.push(updatedData);
+            // Products tracked before ids were derived from the URL carry one-off ids, which never pooled
+            platformData.platformProductId = platformProductIdFor(platformData.url);
 
-                // Update current data
+            const observedAt = new Date();
+            // Every successful read is recorded so rollup averages are time-weighted, not change-weighted
+            observations.push({
+                platform,
+                listing: platformData.platformProductId,
+                price: updatedData.price,
+                ...(updatedData.originalPrice !== undefined ? { originalPrice: updatedData.originalPrice } : {}),
+                availability: updatedData.availability,
+                source: 'ai_updated',
+                observedAt
+            });
+            const offers = updatedData.offers ?? [];
+            const pricing = calculateEffectivePrice(updatedData.price, offers, paymentMethods);
+            const oldEffectivePrice = platformData.effectivePrice ?? platformData.currentPrice;
+            // A new or expired bank offer moves what the owner pays without touching the list price
+            if (updatedData.price !== platformData.currentPrice
+                || updatedData.availability !== platformData.availability
+                || pricing.effectivePrice !== oldEffectivePrice) {
+                alertChanges.push({
+                    platform,
+                    oldPrice: platformData.currentPrice,
+                    newPrice: updatedData.price,
+                    oldEffectivePrice,
+                    newEffectivePrice: pricing.effectivePrice,
+                    ...(pricing.paymentMethod ? { paymentMethod: describePaymentMethod(pricing.paymentMethod) } : {}),
+                    oldAvailability: platformData.availability,
+                    newAvailability: updatedData.availability,
+                    observedAt
+                });
+            }
+            if (updatedData.price !== platformData.currentPrice) {
                 platformData.currentPrice = updatedData.price;
-                platformData.availability = updatedData.availability;
-                platformData.seller = updatedData.seller;
-                platformData.rating = updatedData.rating;
-                platformData.reviews = updatedData.reviews;
-                platformData.lastScraped = new Date();
-                
                 hasUpdates = true;
                 console.log(`Price updated for ${platform}: ₹${updatedData.price}`);
             }
-            
-            updatedPlatforms.set(platform, platformData);
-        } catch (error) {
+
+            // Update current data
+            platformData.availability = updatedData.availability;
+            // Assigned even when missing, a listing that drops its MRP no longer claims a discount
+            Object.assign(platformData, { originalPrice: updatedData.originalPrice, discount: updatedData.discount });
+            // Offers are replaced wholesale, ones no longer shown have ended
+            Object.assign(platformData, { offers: updatedData.offers, effectivePrice: pricing.effectivePrice });
+            if (updatedData.seller !== undefined) platformData.seller = updatedData.seller;
+            if (updatedData.rating !== undefined) platformData.rating = updatedData.rating;
+            if (updatedData.reviews !== undefined) platformData.reviews = updatedData.reviews;
+            platformData.lastScraped = observedAt;
+            platformData.failureCount = 0;
+        } catch (error: any) {
             console.error(`Failed to update ${platform}:`, error);
-            // Keep existing data if update fails
-            updatedPlatforms.set(platform, platformData);
+            // Keep existing data if update fails, but remember the failure
+            failed++;
+            platformData.failureCount = (platformData.failureCount || 0) + 1;
+            platformData.lastFailureAt = new Date();
+            platformData.lastError = error.message;
         }
     }
 
-    if (hasUpdates) {
-        product.platforms = updatedPlatforms;
-        await product.save();
-        
-        // Check for price alerts
-        const currentPrices = new Map();
-        for (const [platform, data] of updatedPlatforms.entries()) {
-            currentPrices.set(platform, data.currentPrice);
+    // Products tracked before the catalog existed are linked on their next successful refresh
+    if (!product.catalogProduct && fetched.length > 0) {
+        try {
+            const catalog = await linkToCatalog(fetched);
+            product.catalogProduct = catalog._id;
+            product.masterProductId = String(catalog._id);
+        } catch (error) {
+            console.warn(`Could not link product ${productId} to the catalog:`, error);
         }
-        
-        await aiWorkflow.checkPriceAlerts(productId, currentPrices);
     }
 
-    return { updated: hasUpdates, product };
+    product.nextRefreshAt = new Date(Date.now() + product.refreshIntervalMinutes * 60000);
+    product.markModified('platforms');
+    await product.save();
+    await recordObservations(product._id, observations);
+
+    // Check for price alerts
+    const alertsTriggered = await evaluateAlerts(product, alertChanges);
+
+    if (attempted > 0 && failed === attempted) {
+        throw new Error(`All ${attempted} platform refreshes failed for product ${productId}`);
+    }
+
+    const changes = alertChanges
+        .filter(change => change.oldPrice !== change.newPrice)
+        .map(({ platform, oldPrice, newPrice }) => ({
+            platform,
+            oldPrice,
+            newPrice,
+            priceChange: newPrice - oldPrice,
+            percentChange: oldPrice > 0 ? Math.round(((newPrice - oldPrice) / oldPrice) * 100) : 0
+        }));
+
+    return { updated: hasUpdates, product, changes, alertsTriggered };
 };
 
 export const findProductsByUser = async (userId: string, options: any) => {
@@ -202,12 +377,16 @@ export const findProductsByUser = async (userId: string, options: any) => {
 
 export const updateProductDetails = async (productId: string, userId: string, updates: any) => {
     const product = await Product.findOne({ _id: productId, user: userId });
-    if (!product) return null;
+    if (!product) throw new ProductNotFoundError(productId);
 
     if (updates.title) product.title = updates.title.trim();
     if (updates.brand !== undefined) product.brand = updates.brand;
     if (updates.category !== undefined) product.category = updates.category;
     if (updates.notes !== undefined) product.notes = updates.notes;
+    if (updates.refreshIntervalMinutes !== undefined) {
+        product.refreshIntervalMinutes = Number(updates.refreshIntervalMinutes);
+        product.nextRefreshAt = new Date(Date.now() + product.refreshIntervalMinutes * 60000);
+    }
     if (updates.selectedPlatforms && Array.isArray(updates.selectedPlatforms)) {
         product.selectedPlatforms = updates.selectedPlatforms;
         for (const [platform, data] of product.platforms) {
@@ -218,58 +397,110 @@ export const updateProductDetails = async (productId: string, userId: string, up
     return await product.save();
 };
 
-export const deleteProductById = (productId: string, userId: string) => {
-    return Product.findOneAndDelete({ _id: productId, user: userId });
+export const deleteProductById = async (productId: string, userId: string) => {
+    const product = await Product.findOneAndDelete({ _id: productId, user: userId });
+    if (!product) throw new ProductNotFoundError(productId);
+
+    await AlertRule.deleteMany({ product: productId });
+    await deleteProductHistory(product._id);
+    return product;
 };
 
-export const getProductPriceHistory = async (productId: string, userId: string, options: any) => {
-    const { platform, days = 30 } = options;
+export const getProductDetail = async (productId: string, userId: string) => {
     const product = await Product.findOne({ _id: productId, user: userId });
-    if (!product) return null;
-
-    const fromDate = new Date();
-    fromDate.setDate(fromDate.getDate() - Number(days));
-    const priceHistory: Record<string, PriceEntry[]> = {};
+    if (!product) throw new ProductNotFoundError(productId);
 
-    const platformsToProcess = platform ? [[platform, product.platforms.get(platform)]] : product.platforms.entries();
+    const activePlatforms = Array.from(product.platforms.entries()).filter(([, data]) => data.isActive);
+    const verdicts = await assessDiscounts(activePlatforms.map(([platform, data]) => claimFromPlatform(platform, data)));
 
-    for (const [platformName, data] of platformsToProcess) {
-        if (data) {
-            priceHistory[platformName] = data.priceHistory.filter((p: PriceEntry) => p.date >= fromDate);
-        }
-    }
-    
-    return { product, priceHistory, fromDate, days };
+    return {
+        product,
+        discountAuthenticity: Object.fromEntries(activePlatforms.map(([platform], index) => [platform, verdicts[index]!]))
+    };
 };
 
+export interface PriceHistoryOptions {
+    platform?: string;
+    days?: number;
+    from?: Date;
+    to?: Date;
+    granularity?: HistoryGranularity | 'auto';
+}
 
-
-export const getProductPriceHistory = async (productId: string, userId: string, options: any) => {
-    const { platform, days = 30 } = options;
+export const getProductPriceHistory = async (productId: string, userId: string, options: PriceHistoryOptions) => {
+    const { platform, days = 30, granularity = 'auto' } = options;
     const product = await Product.findOne({ _id: productId, user: userId });
-    if (!product) return null;
+    if (!product) throw new ProductNotFoundError(productId);
+
+    const toDate = options.to ?? new Date();
+    const fromDate = options.from ?? new Date(toDate.getTime() - days * 24 * 60 * 60 * 1000);
+    const history = await getPriceSeries(product._id, {
+        from: fromDate,
+        to: toDate,
+        granularity,
+        ...(platform ? { platform } : {})
+    });
+
+    return { product, ...history, fromDate, toDate };
+};
 
-    const fromDate = new Date();
-    fromDate.setDate(fromDate.getDate() - Number(days));
-    const priceHistory: Record<string, PriceEntry[]> = {};
+// Stats come from the daily series since tracking started, so every tracked day counts
+// once however often it was refreshed; `combined` follows the cheapest platform.
+export const getProductAnalytics = async (productId: string, userId: string) => {
+    const product = await Product.findOne({ _id: productId, user: userId });
+    if (!product) throw new ProductNotFoundError(productId);
 
-    const platformsToProcess = platform ? [[platform, product.platforms.get(platform)]] : product.platforms.entries();
+    const now = new Date();
+    const { series } = await getPriceSeries(product._id, {
+        from: product.trackingStartDate,
+        to: now,
+        granularity: 'day'
+    });
 
-    for (const [platformName, data] of platformsToProcess) {
-        if (data) {
-            priceHistory[platformName] = data.priceHistory.filter((p: PriceEntry) => p.date >= fromDate);
-        }
+    const platforms: Record<string, PriceStatistics> = {};
+    const currentPrices: number[] = [];
+    for (const [platform, data] of product.platforms.entries()) {
+        if (!data.isActive) continue;
+        const currentPrice = data.availability === 'out_of_stock' ? 0 : data.currentPrice;
+        if (currentPrice > 0) currentPrices.push(currentPrice);
+        platforms[platform] = getPriceStatistics(series[platform] ?? [], currentPrice, now);
     }
-    
-    return { product, priceHistory, fromDate, days };
+
+    const activeSeries = Object.fromEntries(Object.entries(series).filter(([platform]) => platform in platforms));
+    const combined = getPriceStatistics(
+        combineSeries(activeSeries),
+        currentPrices.length > 0 ? Math.min(...currentPrices) : 0,
+        now
+    );
+
+    return { product, platforms, combined, generatedAt: now };
+};
+
+// What the user pays on each active platform with their saved payment methods, cheapest first
+export const getEffectivePrices = async (productId: string, userId: string, options: EffectivePriceOptions) => {
+    const product = await Product.findOne({ _id: productId, user: userId });
+    if (!product) throw new ProductNotFoundError(productId);
+
+    const paymentMethods = await getPaymentMethods(userId);
+    const platforms = Array.from(product.platforms.entries())
+        .filter(([, data]) => data.isActive && data.availability !== 'out_of_stock' && data.currentPrice > 0)
+        .map(([platform, data]) => ({
+            platform,
+            url: data.url,
+            ...calculateEffectivePrice(data.currentPrice, data.offers ?? [], paymentMethods, options),
+            offers: data.offers ?? []
+        }))
+        .sort((a, b) => a.effectivePrice - b.effectivePrice);
+
+    return { product, paymentMethods, platforms, bestPlatform: platforms[0]?.platform ?? null };
 };
 
 export const getMarketAnalysis = async (productId: string, userId: string) => {
     const product = await Product.findOne({ _id: productId, user: userId });
-    if (!product) return null;
+    if (!product) throw new ProductNotFoundError(productId);
 
     // Get current prices from all platforms
-    const currentProducts = [];
+    const currentProducts: ProductDetails[] = [];
     for (const [platform, data] of product.platforms.entries()) {
         if (data.isActive) {
             currentProducts.push({
@@ -277,41 +508,45 @@ export const getMarketAnalysis = async (productId: string, userId: string) => {
                 title: product.title,
                 price: data.currentPrice,
                 availability: data.availability,
-                seller: data.seller,
-                rating: data.rating,
-                reviews: data.reviews,
+                ...(data.seller !== undefined ? { seller: data.seller } : {}),
+                ...(data.rating !== undefined ? { rating: data.rating } : {}),
+                ...(data.reviews !== undefined ? { reviews: data.reviews } : {}),
+                ...(data.offers ? { offers: data.offers } : {}),
                 url: data.url
             });
         }
     }
 
     if (currentProducts.length === 0) {
-        return { error: 'No active platforms for analysis' };
+        throw new BadRequestError('No active platforms for analysis');
     }
 
-    try {
-        // Use AI service for comprehensive analysis
-        const marketAnalysis = await productIntelligence.analyzeMarket(currentProducts);
-        const pricePrediction = await productIntelligence.predictPriceTrends(currentProducts, {
-            historicalData: Array.from(product.platforms.values()).map(p => p.priceHistory)
-        });
+    // Use AI service for comprehensive analysis
+    const marketAnalysis = applyEffectivePricing(
+        await chargeTo(userId, () => productIntelligence.analyzeMarket(currentProducts)),
+        currentProducts,
+        await getPaymentMethods(userId)
+    );
+    const { series } = await getPriceSeries(product._id, {
+        from: new Date(Date.now() - FORECAST_CONFIG.historyDays * 24 * 60 * 60 * 1000),
+        to: new Date(),
+        granularity: 'day'
+    });
+    const history = combineSeries(series).map(bucket => ({ time: bucket.time, price: bucket.close }));
+    const pricePrediction = await chargeTo(userId, () => productIntelligence.predictPriceTrends(currentProducts, history));
 
-        return {
-            product: {
-                id: product._id,
-                title: product.title,
-                category: product.category,
-                trackingStartDate: product.trackingStartDate
-            },
-            marketAnalysis,
-            pricePrediction,
-            currentPlatforms: currentProducts,
-            lastUpdated: new Date()
-        };
-    } catch (error) {
-        console.error('Market analysis failed:', error);
-        return { error: 'Failed to analyze market data' };
-    }
+    return {
+        product: {
+            id: product._id,
+            title: product.title,
+            category: product.category,
+            trackingStartDate: product.trackingStartDate
+        },
+        marketAnalysis,
+        pricePrediction,
+        currentPlatforms: currentProducts,
+        lastUpdated: new Date()
+    };
 };
 
 export const refreshProductData = async (productId: string, userId: string) => {
@@ -330,7 +565,7 @@ export const bulkUpdatePrices = async (userId: string, productIds?: string[]) =>
 
     for (const product of products) {
         try {
-            const updateResult = await updateProductPrices(product._id.toString(), userId);
+            const updateResult = await updateProductPrices(String(product._id), userId);
             results.push({
                 productId: product._id,
                 title: product.title,
@@ -342,7 +577,7 @@ export const bulkUpdatePrices = async (userId: string, productIds?: string[]) =>
                 productId: product._id,
                 title: product.title,
                 updated: false,
-                error: error.message
+                error: error instanceof Error ? error.message : String(error)
             });
         }
     }
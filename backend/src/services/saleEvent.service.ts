@@ -0,0 +1,146 @@
+import { SaleEvent, type SaleEventI } from '../models/SaleEvent.js';
+import { SALE_EVENT_SEED } from '../config/saleEventSeed.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
+
+export interface SaleEventWindow {
+    id: string;
+    name: string;
+    platforms: string[];
+    categories: string[];
+    startsAt: Date;
+    endsAt: Date;
+    typicalDiscount?: { min: number; max: number };
+}
+
+export interface SaleEventFilter {
+    platforms?: string[];
+    category?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Long enough to mark the sale days of a year of history and to look a year ahead
+const CALENDAR_SPAN_DAYS = 400;
+const CALENDAR_TTL_MS = 10 * 60 * 1000;
+
+let calendar: { events: SaleEventWindow[]; loadedAt: number } | null = null;
+
+const toWindow = (event: SaleEventI): SaleEventWindow => ({
+    id: String(event._id),
+    name: event.name,
+    platforms: event.platforms,
+    categories: event.categories,
+    startsAt: event.startsAt,
+    endsAt: event.endsAt,
+    ...(event.typicalDiscount ? { typicalDiscount: { min: event.typicalDiscount.min, max: event.typicalDiscount.max } } : {})
+});
+
+const rethrowDuplicate = (error: any): never => {
+    if (error?.code === 11000) {
+        throw new ConflictError('A sale event with this name already starts on that date', 'SALE_EVENT_EXISTS');
+    }
+    throw error;
+};
+
+// An event with no platforms or categories applies to everything
+export const appliesTo = (event: SaleEventWindow, filter: SaleEventFilter) => {
+    const platformMatch = event.platforms.length === 0 || !filter.platforms?.length
+        || event.platforms.some(platform => filter.platforms!.includes(platform));
+    const category = filter.category?.toLowerCase();
+    const categoryMatch = event.categories.length === 0 || !category
+        || event.categories.some(keyword => category.includes(keyword.toLowerCase()));
+    return platformMatch && categoryMatch;
+};
+
+export const saleEventOn = (events: SaleEventWindow[], date: Date) =>
+    events.find(event => event.startsAt <= date && date <= event.endsAt);
+
+// The sale running at `now`, else the next one to start
+export const upcomingSaleEvent = (events: SaleEventWindow[], filter: SaleEventFilter = {}, now = new Date()) =>
+    events
+        .filter(event => event.endsAt >= now && appliesTo(event, filter))
+        .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())[0];
+
+// Active events around now, cached in memory since the forecaster and every search need them
+export const getSaleCalendar = async (now = new Date()): Promise<SaleEventWindow[]> => {
+    if (calendar && now.getTime() - calendar.loadedAt < CALENDAR_TTL_MS) return calendar.events;
+
+    const events = await SaleEvent.find({
+        isActive: true,
+        endsAt: { $gte: new Date(now.getTime() - CALENDAR_SPAN_DAYS * DAY_MS) },
+        startsAt: { $lte: new Date(now.getTime() + CALENDAR_SPAN_DAYS * DAY_MS) }
+    }).sort({ startsAt: 1 });
+
+    calendar = { events: events.map(toWindow), loadedAt: now.getTime() };
+    return calendar.events;
+};
+
+const invalidateCalendar = () => {
+    calendar = null;
+};
+
+export const listSaleEvents = async (options: { from?: Date; to?: Date; platform?: string; includeInactive?: boolean }) => {
+    const { from = new Date(), to, platform, includeInactive = false } = options;
+    return SaleEvent.find({
+        endsAt: { $gte: from },
+        ...(to ? { startsAt: { $lte: to } } : {}),
+        ...(platform ? { $or: [{ platforms: platform }, { platforms: { $size: 0 } }] } : {}),
+        ...(includeInactive ? {} : { isActive: true })
+    }).sort({ startsAt: 1 }).lean();
+};
+
+export const createSaleEvent = async (data: Partial<SaleEventI>) => {
+    const event = await SaleEvent.create(data).catch(rethrowDuplicate);
+    invalidateCalendar();
+    return event;
+};
+
+export const updateSaleEvent = async (eventId: string, updates: Partial<SaleEventI>) => {
+    const event = await SaleEvent.findById(eventId);
+    if (!event) throw new NotFoundError('Sale event not found', 'SALE_EVENT_NOT_FOUND');
+
+    event.set(updates);
+    const saved = await event.save().catch(rethrowDuplicate);
+    invalidateCalendar();
+    return saved;
+};
+
+export const deleteSaleEvent = async (eventId: string) => {
+    const event = await SaleEvent.findByIdAndDelete(eventId);
+    if (!event) throw new NotFoundError('Sale event not found', 'SALE_EVENT_NOT_FOUND');
+    invalidateCalendar();
+    return event;
+};
+
+// Inserts the seed templates for the given years; occurrences that already exist
+// (possibly edited by an admin) are left alone.
+export const seedSaleEvents = async (years: number[]) => {
+    const operations = years.flatMap(year => SALE_EVENT_SEED.map(({ start, end, ...template }) => {
+        const startsAt = new Date(`${year}-${start}T00:00:00+05:30`);
+        // Windows running over New Year end in the following year
+        const endYear = end < start ? year + 1 : year;
+        return {
+            updateOne: {
+                filter: { name: template.name, startsAt },
+                update: { $setOnInsert: { ...template, startsAt, endsAt: new Date(`${endYear}-${end}T23:59:59.999+05:30`), isActive: true } },
+                upsert: true
+            }
+        };
+    }));
+
+    const result = await SaleEvent.bulkWrite(operations, { ordered: false });
+    invalidateCalendar();
+    return result.upsertedCount;
+};
+
+// On first start the calendar is filled from last year (to mark sale days in history)
+// through next year; afterwards next year's occurrences are added once the year turns.
+export const ensureSaleCalendar = async (now = new Date()) => {
+    const year = now.getFullYear();
+    if (!await SaleEvent.exists({})) {
+        return seedSaleEvents([year - 1, year, year + 1]);
+    }
+    if (!await SaleEvent.exists({ startsAt: { $gte: new Date(`${year + 1}-01-01T00:00:00+05:30`) } })) {
+        return seedSaleEvents([year + 1]);
+    }
+    return 0;
+};
@@ -0,0 +1,150 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRedis } from '../config/redisConfig.js';
+
+export const REFRESH_TOKEN_TTL_SECONDS = 3 * 24 * 60 * 60;
+// The token just rotated away still works this long, so two tabs refreshing at once do not
+// look like a stolen token; the late one is handed the token the first one got
+export const ROTATION_GRACE_MS = 10 * 1000;
+
+export interface SessionRecord {
+    sessionId: string;
+    userId: string;
+    // id of the only refresh token in this family that may still be used
+    currentTokenId: string;
+    previousTokenId?: string;
+    // Redis server time of the last rotation, in milliseconds
+    rotatedAt?: number;
+    userAgent?: string;
+    ip?: string;
+    createdAt: string;
+    lastUsedAt: string;
+}
+
+export interface DeviceInfo {
+    userAgent?: string | undefined;
+    ip?: string | undefined;
+}
+
+const sessionKey = (sessionId: string) => `session:${sessionId}`;
+const userSessionsKey = (userId: string) => `sessions:${userId}`;
+
+const saveSession = async (session: SessionRecord) => {
+    await getRedis()
+        .multi()
+        .set(sessionKey(session.sessionId), JSON.stringify(session), 'EX', REFRESH_TOKEN_TTL_SECONDS)
+        .sadd(userSessionsKey(session.userId), session.sessionId)
+        .expire(userSessionsKey(session.userId), REFRESH_TOKEN_TTL_SECONDS)
+        .exec();
+};
+
+export const getSession = async (sessionId: string): Promise<SessionRecord | null> => {
+    const raw = await getRedis().get(sessionKey(sessionId));
+    return raw ? JSON.parse(raw) as SessionRecord : null;
+};
+
+export const createSession = async (userId: string, device: DeviceInfo) => {
+    const now = new Date().toISOString();
+    const session: SessionRecord = {
+        sessionId: uuidv4(),
+        userId,
+        currentTokenId: uuidv4(),
+        ...(device.userAgent ? { userAgent: device.userAgent } : {}),
+        ...(device.ip ? { ip: device.ip } : {}),
+        createdAt: now,
+        lastUsedAt: now
+    };
+    await saveSession(session);
+    return session;
+};
+
+export type RotationResult =
+    | { status: 'rotated'; session: SessionRecord }
+    | { status: 'not_found' }
+    | { status: 'reused' };
+
+// Compare-and-swap of the token id, atomic so two requests replaying one token cannot both win.
+// KEYS: session, user's session set
+// ARGV: user id, presented token id, new token id, grace ms, TTL seconds, last used at, user agent, ip
+const ROTATE = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then return {'not_found'} end
+local session = cjson.decode(raw)
+if session.userId ~= ARGV[1] then return {'not_found'} end
+
+local clock = redis.call('TIME')
+local now = tonumber(clock[1]) * 1000 + math.floor(tonumber(clock[2]) / 1000)
+if session.currentTokenId == ARGV[2] then
+  session.previousTokenId = ARGV[2]
+  session.currentTokenId = ARGV[3]
+  session.rotatedAt = now
+  session.lastUsedAt = ARGV[6]
+  if ARGV[7] ~= '' then session.userAgent = ARGV[7] end
+  if ARGV[8] ~= '' then session.ip = ARGV[8] end
+  local encoded = cjson.encode(session)
+  redis.call('SET', KEYS[1], encoded, 'EX', ARGV[5])
+  redis.call('EXPIRE', KEYS[2], ARGV[5])
+  return {'rotated', encoded}
+end
+if session.previousTokenId == ARGV[2] and session.rotatedAt and now - session.rotatedAt <= tonumber(ARGV[4]) then
+  return {'rotated', raw}
+end
+
+redis.call('DEL', KEYS[1])
+redis.call('SREM', KEYS[2], session.sessionId)
+return {'reused'}
+`;
+
+// A refresh token can be exchanged exactly once. Presenting an already rotated
+// token means it leaked, so the whole family (the device session) is revoked.
+export const rotateSession = async (sessionId: string, userId: string, tokenId: string, device: DeviceInfo): Promise<RotationResult> => {
+    const [status, encoded] = await getRedis().eval(
+        ROTATE, 2, sessionKey(sessionId), userSessionsKey(userId),
+        userId, tokenId, uuidv4(), ROTATION_GRACE_MS, REFRESH_TOKEN_TTL_SECONDS,
+        new Date().toISOString(), device.userAgent ?? '', device.ip ?? ''
+    ) as [RotationResult['status'], string?];
+
+    if (status === 'rotated') return { status, session: JSON.parse(encoded!) as SessionRecord };
+    return { status };
+};
+
+export const listSessions = async (userId: string): Promise<SessionRecord[]> => {
+    const sessionIds = await getRedis().smembers(userSessionsKey(userId));
+    const sessions: SessionRecord[] = [];
+    const expired: string[] = [];
+
+    for (const sessionId of sessionIds) {
+        const session = await getSession(sessionId);
+        if (session) sessions.push(session);
+        else expired.push(sessionId);
+    }
+    if (expired.length > 0) {
+        await getRedis().srem(userSessionsKey(userId), ...expired);
+    }
+
+    return sessions.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+};
+
+export const revokeSession = async (userId: string, sessionId: string): Promise<boolean> => {
+    const session = await getSession(sessionId);
+    if (!session || session.userId !== userId) return false;
+
+    await getRedis()
+        .multi()
+        .del(sessionKey(sessionId))
+        .srem(userSessionsKey(userId), sessionId)
+        .exec();
+    return true;
+};
+
+export const revokeAllSessions = async (userId: string, exceptSessionId?: string) => {
+    const sessionIds = await getRedis().smembers(userSessionsKey(userId));
+    const toRevoke = sessionIds.filter(id => id !== exceptSessionId);
+    if (toRevoke.length === 0) return 0;
+
+    await getRedis()
+        .multi()
+        .del(...toRevoke.map(sessionKey))
+        .srem(userSessionsKey(userId), ...toRevoke)
+        .exec();
+    return toRevoke.length;
+};
@@ -1,13 +1,14 @@
 import { WatchList } from '../models/WatchList.js';
 import { Product } from '../models/Product.js';
 import mongoose from 'mongoose';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
 
 export const createNewWatchlist = async (data: any, userId: string) => {
     const { name, description, isDefault = false } = data;
 
     const existing = await WatchList.findOne({ user: userId, name: name.trim() });
     if (existing) {
-        throw new Error('Watchlist with this name already exists'); 
+        throw new ConflictError('Watchlist with this name already exists', 'WATCHLIST_NAME_TAKEN');
     }
 
     if (isDefault) {
@@ -40,7 +41,7 @@ export const findWatchlistWithProducts = async (watchlistId: string, userId: str
     const { page = 1, limit = 20, sortBy = 'createdAt' } = options;
 
     const watchlist = await WatchList.findOne({ _id: watchlistId, user: userId });
-    if (!watchlist) return null;
+    if (!watchlist) throw new NotFoundError('Watchlist not found', 'WATCHLIST_NOT_FOUND');
 
     const sortOptions: any = { [sortBy]: -1 };
     const skip = (Number(page) - 1) * Number(limit);
@@ -57,11 +58,11 @@ export const findWatchlistWithProducts = async (watchlistId: string, userId: str
 export const updateWatchlistDetails = async (watchlistId: string, userId: string, updates: any) => {
     const { name, description, isDefault } = updates;
     const watchlist = await WatchList.findOne({ _id: watchlistId, user: userId });
-    if (!watchlist) return null;
+    if (!watchlist) throw new NotFoundError('Watchlist not found', 'WATCHLIST_NOT_FOUND');
 
     if (name && name.trim() !== watchlist.name) {
         const existing = await WatchList.findOne({ user: userId, name: name.trim(), _id: { $ne: watchlistId } });
-        if (existing) throw new Error('Watchlist with this name already exists');
+        if (existing) throw new ConflictError('Watchlist with this name already exists', 'WATCHLIST_NAME_TAKEN');
         watchlist.name = name.trim();
     }
 
@@ -77,17 +78,19 @@ export const updateWatchlistDetails = async (watchlistId: string, userId: string
     return await watchlist.save();
 };
 
-export const deleteWatchlistById = (watchlistId: string, userId: string) => {
-    return WatchList.findOneAndDelete({ _id: watchlistId, user: userId });
+export const deleteWatchlistById = async (watchlistId: string, userId: string) => {
+    const watchlist = await WatchList.findOneAndDelete({ _id: watchlistId, user: userId });
+    if (!watchlist) throw new NotFoundError('Watchlist not found', 'WATCHLIST_NOT_FOUND');
+    return watchlist;
 };
 
 export const addProducts = async (watchlistId: string, productIds: string[], userId: string) => {
     const watchlist = await WatchList.findOne({ _id: watchlistId, user: userId });
-    if (!watchlist) throw new Error('Watchlist not found or access denied');
+    if (!watchlist) throw new NotFoundError('Watchlist not found or access denied', 'WATCHLIST_NOT_FOUND');
 
     const userProducts = await Product.countDocuments({ _id: { $in: productIds }, user: userId });
     if (userProducts !== productIds.length) {
-        throw new Error('One or more products not found or do not belong to the user');
+        throw new NotFoundError('One or more products not found or do not belong to the user', 'PRODUCT_NOT_FOUND');
     }
     
     const result = await WatchList.updateOne(
@@ -99,8 +102,12 @@ export const addProducts = async (watchlistId: string, productIds: string[], use
 };
 
 export const removeProduct = async (watchlistId: string, productId: string, userId: string) => {
-    return WatchList.updateOne(
-        { _id: watchlistId, user: userId },
+    const result = await WatchList.updateOne(
+        { _id: watchlistId, user: userId, products: productId },
         { $pull: { products: productId } } 
     );
+    if (result.modifiedCount === 0) {
+        throw new NotFoundError('Watchlist or product not found', 'WATCHLIST_NOT_FOUND');
+    }
+    return result;
 };
\ No newline at end of file
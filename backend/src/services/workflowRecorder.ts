@@ -0,0 +1,131 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { BaseMessage } from '@langchain/core/messages';
+import { WorkflowRun, type LLMCallI, type WorkflowRunStatus, type WorkflowStepI } from '../models/WorkflowRun.js';
+import type { LLMProvider } from './llm/index.js';
+import { AppError } from '../utils/errors.js';
+
+export interface RunRecord {
+    runId: string;
+    startedAt: Date;
+    steps: WorkflowStepI[];
+    llmCalls: LLMCallI[];
+}
+
+interface StartRunInput {
+    runId: string;
+    userId: string;
+    query: string;
+    provider: Pick<LLMProvider, 'name' | 'model'>;
+    replayOf?: string;
+}
+
+// Runs in progress in this process, by LangGraph thread id
+const activeRuns = new Map<string, RunRecord>();
+// The run and node an LLM call is made from
+const nodeScope = new AsyncLocalStorage<{ run: RunRecord; node: string }>();
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// State as stored on the run: messages as text, everything else as is
+export const toRecordedState = (state: Record<string, unknown> & { messages?: BaseMessage[] }) => {
+    const { messages, ...rest } = state;
+    return { ...rest, ...(messages ? { messages: messages.map(message => String(message.content)) } : {}) };
+};
+
+// Persistence failures are logged and otherwise ignored so a search never fails on its audit trail
+export const startRun = async ({ runId, userId, query, provider, replayOf }: StartRunInput): Promise<RunRecord> => {
+    const run: RunRecord = { runId, startedAt: new Date(), steps: [], llmCalls: [] };
+    activeRuns.set(runId, run);
+
+    await WorkflowRun.create({
+        runId,
+        user: userId,
+        query,
+        provider: { name: provider.name, model: provider.model },
+        startedAt: run.startedAt,
+        ...(replayOf ? { replayOf } : {})
+    }).catch(error => console.warn(`Could not record workflow run ${runId}:`, error));
+    return run;
+};
+
+export const finishRun = async (
+    run: RunRecord,
+    { status, state, error }: { status: Exclude<WorkflowRunStatus, 'running'>; state?: Record<string, unknown> | null; error?: unknown }
+) => {
+    activeRuns.delete(run.runId);
+    const finishedAt = new Date();
+    const { messages, ...result } = state ? toRecordedState(state) : { messages: [] };
+
+    await WorkflowRun.updateOne({ runId: run.runId }, {
+        status,
+        steps: run.steps,
+        llmCalls: run.llmCalls,
+        messages,
+        ...(state ? { result } : {}),
+        ...(error ? { error: { message: errorMessage(error), ...(error instanceof AppError ? { code: error.code } : {}) } } : {}),
+        finishedAt,
+        durationMs: finishedAt.getTime() - run.startedAt.getTime()
+    }).catch(err => console.warn(`Could not save workflow run ${run.runId}:`, err));
+};
+
+export const linkSearchToRun = (runId: string, searchId: string) =>
+    WorkflowRun.updateOne({ runId }, { searchId }).catch(error => console.warn(`Could not link search ${searchId} to run ${runId}:`, error));
+
+export const activeRun = (runId: unknown) => (typeof runId === 'string' ? activeRuns.get(runId) : undefined);
+
+export const recordStep = (run: RunRecord | undefined, step: WorkflowStepI) => {
+    run?.steps.push(step);
+};
+
+// LLM calls made while `work` runs are recorded against `node`
+export const inNode = <T>(run: RunRecord | undefined, node: string, work: () => Promise<T>): Promise<T> =>
+    run ? nodeScope.run({ run, node }, work) : work();
+
+// Records prompt, raw output and latency of every call made from inside a workflow node.
+// Cached answers are recorded too, as their validated JSON, so replays can serve them.
+export const recordingProvider = (llm: LLMProvider): LLMProvider => ({
+    name: llm.name,
+    model: llm.model,
+    generate: async (request) => {
+        const scope = nodeScope.getStore();
+        if (!scope) return llm.generate(request);
+
+        const startedAt = new Date();
+        const call = { node: scope.node, feature: request.feature, prompt: request.prompt, startedAt };
+        try {
+            const response = await llm.generate(request);
+            scope.run.llmCalls.push({
+                ...call,
+                provider: response.provider,
+                model: response.model,
+                output: response.text,
+                ...(response.usage ? { usage: response.usage } : {}),
+                durationMs: Date.now() - startedAt.getTime()
+            });
+            return response;
+        } catch (error) {
+            scope.run.llmCalls.push({
+                ...call,
+                provider: llm.name,
+                model: llm.model,
+                error: errorMessage(error),
+                durationMs: Date.now() - startedAt.getTime()
+            });
+            throw error;
+        }
+    },
+    cacheHit: (request, text) => {
+        const scope = nodeScope.getStore();
+        scope?.run.llmCalls.push({
+            node: scope.node,
+            feature: request.feature,
+            provider: llm.name,
+            model: llm.model,
+            prompt: request.prompt,
+            output: text,
+            cached: true,
+            startedAt: new Date(),
+            durationMs: 0
+        });
+    }
+});
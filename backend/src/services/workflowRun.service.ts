@@ -0,0 +1,100 @@
+import { WorkflowRun, type LLMCallI, type WorkflowRunStatus } from '../models/WorkflowRun.js';
+import { PriceIntelligenceWorkflow } from './langchain.workflow.js';
+import { toRecordedState } from './workflowRecorder.js';
+import { MockProvider, recordingKey, type RecordingFile } from './llm/mock.provider.js';
+import { NotFoundError } from '../utils/errors.js';
+import { v4 as uuidv4 } from 'uuid';
+
+// Workflow outputs compared between a run and its replay
+const REPLAYED_OUTPUTS = ['searchResults', 'marketAnalysis', 'pricePrediction', 'recommendations'] as const;
+
+const workflow = new PriceIntelligenceWorkflow();
+
+interface ListRunsOptions {
+    page?: number;
+    limit?: number;
+    userId?: string;
+    status?: WorkflowRunStatus;
+    searchId?: string;
+}
+
+const findRun = async (runId: string) => {
+    const run = await WorkflowRun.findOne({ runId }).lean();
+    if (!run) throw new NotFoundError(`Workflow run not found: ${runId}`, 'WORKFLOW_RUN_NOT_FOUND');
+    return run;
+};
+
+export const listWorkflowRuns = async (options: ListRunsOptions) => {
+    const { page = 1, limit = 20, userId, status, searchId } = options;
+    const filter = {
+        ...(userId ? { user: userId } : {}),
+        ...(status ? { status } : {}),
+        ...(searchId ? { searchId } : {})
+    };
+
+    const [runs, totalRuns] = await Promise.all([
+        WorkflowRun.find(filter)
+            .select('-steps -llmCalls -messages -result')
+            .sort({ startedAt: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+        WorkflowRun.countDocuments(filter)
+    ]);
+    return { runs, totalRuns, page, limit };
+};
+
+export const getWorkflowRun = async (runId: string) => {
+    const run = await findRun(runId);
+    const checkpoints = (await workflow.stateHistory(runId)).map(snapshot => ({
+        checkpointId: snapshot.config.configurable?.checkpoint_id,
+        step: snapshot.metadata?.step,
+        source: snapshot.metadata?.source,
+        createdAt: snapshot.createdAt,
+        next: snapshot.next,
+        values: toRecordedState(snapshot.values)
+    }));
+    return { run, checkpoints };
+};
+
+const recordingsFrom = (calls: LLMCallI[]): RecordingFile => Object.fromEntries(calls
+    .filter(call => call.output !== undefined)
+    .map(call => [
+        recordingKey({ prompt: call.prompt, feature: call.feature }),
+        { feature: call.feature, text: call.output!, model: call.model, recordedAt: call.startedAt.toISOString() }
+    ])
+);
+
+// Runs the stored query again on the mock provider, answering each prompt with the model output
+// recorded for it. Prompts built from data that changed since (price history, saved cards) get
+// the mock's canned answer instead and are counted in `unmatchedCalls`.
+export const replayWorkflowRun = async (runId: string) => {
+    const original = await findRun(runId);
+    const recordings = recordingsFrom(original.llmCalls);
+    const replayer = new PriceIntelligenceWorkflow(new MockProvider(null, 'replay', recordings));
+    const replayRunId = uuidv4();
+
+    try {
+        await replayer.executeWorkflow(original.query, String(original.user), { runId: replayRunId, replayOf: runId });
+    } catch {
+        // A replay that fails is a result too, the error is stored on the replay run
+    }
+
+    const replay = await findRun(replayRunId);
+    const unmatchedCalls = replay.llmCalls.filter(call => !recordings[recordingKey({ prompt: call.prompt, feature: call.feature })]).length;
+    const changedOutputs = REPLAYED_OUTPUTS.filter(key =>
+        JSON.stringify(original.result?.[key] ?? null) !== JSON.stringify(replay.result?.[key] ?? null)
+    );
+
+    return {
+        replay,
+        comparison: {
+            originalRunId: runId,
+            originalStatus: original.status,
+            replayStatus: replay.status,
+            changedOutputs,
+            replayedCalls: replay.llmCalls.length - unmatchedCalls,
+            unmatchedCalls
+        }
+    };
+};
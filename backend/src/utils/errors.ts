@@ -0,0 +1,163 @@
+// Stable, machine-readable error codes. Clients branch on `code`, never on `detail`,
+// so existing codes must not be renamed once released.
+export const ERROR_CODES = [
+  // generic
+  'BAD_REQUEST',
+  'VALIDATION_FAILED',
+  'MALFORMED_JSON',
+  'PAYLOAD_TOO_LARGE',
+  'INVALID_ID',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'ROUTE_NOT_FOUND',
+  'CONFLICT',
+  'RATE_LIMITED',
+  'SERVICE_UNAVAILABLE',
+  'INTERNAL_ERROR',
+  // auth
+  'TOKEN_MISSING',
+  'TOKEN_INVALID',
+  'TOKEN_EXPIRED',
+  'INVALID_CREDENTIALS',
+  'PASSWORD_LOGIN_NOT_ENABLED',
+  'PASSWORD_LOGIN_ALREADY_ENABLED',
+  'EMAIL_ALREADY_REGISTERED',
+  'EMAIL_REGISTERED_WITH_GOOGLE',
+  'EMAIL_NOT_VERIFIED',
+  'EMAIL_ALREADY_VERIFIED',
+  'VERIFICATION_TOKEN_INVALID',
+  'VERIFICATION_EMAIL_COOLDOWN',
+  'VERIFICATION_EMAIL_DAILY_LIMIT',
+  'RESET_TOKEN_INVALID',
+  'REFRESH_TOKEN_MISSING',
+  'REFRESH_TOKEN_INVALID',
+  'SESSION_NOT_FOUND',
+  'USER_NOT_FOUND',
+  'OAUTH_NOT_CONFIGURED',
+  'OAUTH_FAILED',
+  'OAUTH_STATE_INVALID',
+  'OAUTH_CODE_INVALID',
+  'OAUTH_EMAIL_NOT_VERIFIED',
+  'OAUTH_ACCOUNT_ALREADY_LINKED',
+  'PROVIDER_NOT_LINKED',
+  'LAST_SIGN_IN_METHOD',
+  'ADMIN_REQUIRED',
+  // products, alerts, watchlists
+  'PRODUCT_NOT_FOUND',
+  'NO_PRODUCTS_FOUND',
+  'PLATFORM_NOT_TRACKED',
+  'PLATFORM_UNAVAILABLE',
+  'SEARCH_LIMIT_EXCEEDED',
+  'ALERT_NOT_FOUND',
+  'WATCHLIST_NOT_FOUND',
+  'WATCHLIST_NAME_TAKEN',
+  'NOTIFICATION_NOT_FOUND',
+  'WEBHOOK_URL_REQUIRED',
+  'WEBHOOK_URL_NOT_ALLOWED',
+  'SALE_EVENT_NOT_FOUND',
+  'SALE_EVENT_EXISTS',
+  'WORKFLOW_STEP_TIMEOUT',
+  'WORKFLOW_RUN_NOT_FOUND',
+  // AI
+  'AI_SERVICE_ERROR',
+  'AI_RATE_LIMITED',
+  'AI_BUDGET_EXCEEDED',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export interface FieldIssue {
+  path: string;
+  message: string;
+}
+
+export type AIValidationIssue = FieldIssue;
+
+// Base class for every error that is safe to show to API clients. The central
+// error handler turns these into problem+json responses; anything else is a 500.
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string, code: ErrorCode = 'BAD_REQUEST', details?: Record<string, unknown>) {
+    super(message, 400, code, details);
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, public readonly errors: FieldIssue[] = []) {
+    super(message, 400, 'VALIDATION_FAILED', { errors });
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string, code: ErrorCode = 'UNAUTHORIZED') {
+    super(message, 401, code);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string, code: ErrorCode = 'FORBIDDEN') {
+    super(message, 403, code);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, code: ErrorCode = 'NOT_FOUND') {
+    super(message, 404, code);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code: ErrorCode = 'CONFLICT') {
+    super(message, 409, code);
+  }
+}
+
+export class RateLimitExceededError extends AppError {
+  constructor(
+    message: string,
+    code: ErrorCode = 'RATE_LIMITED',
+    public readonly retryAfterSeconds?: number,
+    details?: Record<string, unknown>
+  ) {
+    super(message, 429, code, {
+      ...details,
+      ...(retryAfterSeconds !== undefined ? { retryAfter: retryAfterSeconds } : {}),
+    });
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string, code: ErrorCode = 'SERVICE_UNAVAILABLE') {
+    super(message, 503, code);
+  }
+}
+
+export class ProductNotFoundError extends NotFoundError {
+  constructor(productId: string) {
+    super(`Product not found: ${productId}`, 'PRODUCT_NOT_FOUND');
+  }
+}
+
+export class PlatformUnavailableError extends AppError {
+  constructor(platform: string, reason?: string) {
+    super(`Platform unavailable: ${platform}${reason ? `. ${reason}` : ''}`, 502, 'PLATFORM_UNAVAILABLE', { platform });
+  }
+}
+
+export class AIServiceError extends AppError {
+  constructor(service: string, originalError: string, public readonly issues: AIValidationIssue[] = []) {
+    super(`AI service failed: ${service}. Error: ${originalError}`, 502, 'AI_SERVICE_ERROR', issues.length > 0 ? { issues } : {});
+  }
+}
@@ -0,0 +1,234 @@
+// Statistical price forecasting on daily prices. Prices are modelled in log space as
+// level + damped trend + day-of-week seasonality + a sale-event effect, and every
+// estimate is blended with a category prior in proportion to how much history backs it.
+
+import type { CategoryPrior } from '../config/forecastConfig.js';
+
+export interface DailyPrice {
+    time: Date;
+    price: number;
+}
+
+export interface ForecastOptions {
+    horizonDays: number;
+    prior: CategoryPrior;
+    // Whether a day falls inside a sale event, used both for history and the horizon
+    isFestival: (date: Date) => boolean;
+    // Day of week (0-6) in the shoppers' timezone
+    weekday: (date: Date) => number;
+    // The latest known price anchors the forecast when it is fresher than the history
+    currentPrice?: number;
+    now?: Date;
+    intervalLevel?: number;
+    trendDamping?: number;
+    priorWeightDays?: { festival: number; trend: number; volatility: number };
+    minDaysForWeekly?: number;
+}
+
+export interface ForecastPoint {
+    time: Date;
+    expected: number;
+    lower: number;
+    upper: number;
+    festival: boolean;
+}
+
+export interface Forecast {
+    points: ForecastPoint[];
+    observedDays: number;
+    // Multiplicative effects, e.g. -0.08 is 8% cheaper
+    festivalEffect: number;
+    festivalEffectSource: 'history' | 'prior';
+    festivalDaysObserved: number;
+    monthlyTrend: number;
+    // Per weekday, 0 = Sunday; null when there is too little history or no real pattern
+    weeklyPattern: number[] | null;
+    dailyVolatility: number;
+    intervalLevel: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const variance = (values: number[]) => {
+    if (values.length < 2) return 0;
+    const average = mean(values);
+    return values.reduce((acc, value) => acc + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+// Inverse standard normal CDF (Acklam's approximation), accurate to ~1e-9
+export const normalQuantile = (p: number): number => {
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+    const low = 0.02425;
+
+    if (p < low) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        return (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) / ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+    }
+    if (p > 1 - low) return -normalQuantile(1 - p);
+
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q / (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+};
+
+// Least squares for y = X·β with a handful of columns, by Gaussian elimination on the normal equations
+const leastSquares = (rows: number[][], y: number[]): number[] | null => {
+    const k = rows[0]?.length ?? 0;
+    const m = Array.from({ length: k }, (_, i) => Array.from({ length: k + 1 }, (_, j) =>
+        rows.reduce((acc, row, n) => acc + row[i]! * (j < k ? row[j]! : y[n]!), 0)
+    ));
+
+    for (let col = 0; col < k; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < k; row++) {
+            if (Math.abs(m[row]![col]!) > Math.abs(m[pivot]![col]!)) pivot = row;
+        }
+        if (Math.abs(m[pivot]![col]!) < 1e-9) return null;
+        [m[col], m[pivot]] = [m[pivot]!, m[col]!];
+
+        for (let row = 0; row < k; row++) {
+            if (row === col) continue;
+            const factor = m[row]![col]! / m[col]![col]!;
+            for (let j = col; j <= k; j++) m[row]![j]! -= factor * m[col]![j]!;
+        }
+    }
+    return m.map((row, i) => row[k]! / row[i]!);
+};
+
+// One value per calendar day from the first to the last observation, gaps carry the last price
+export const fillDailyGaps = (history: DailyPrice[]): DailyPrice[] => {
+    const sorted = history.filter(point => point.price > 0).sort((a, b) => a.time.getTime() - b.time.getTime());
+    if (sorted.length === 0) return [];
+
+    const start = sorted[0]!.time.getTime();
+    const byDay = new Map(sorted.map(point => [Math.round((point.time.getTime() - start) / DAY_MS), point.price]));
+    const span = Math.round((sorted[sorted.length - 1]!.time.getTime() - start) / DAY_MS);
+
+    const filled: DailyPrice[] = [];
+    let last = sorted[0]!.price;
+    for (let day = 0; day <= span; day++) {
+        last = byDay.get(day) ?? last;
+        filled.push({ time: new Date(start + day * DAY_MS), price: last });
+    }
+    return filled;
+};
+
+// Blends an estimate backed by `n` observations with a prior worth `weight` observations
+const shrink = (estimate: number, n: number, prior: number, weight: number) => (n * estimate + weight * prior) / (n + weight);
+
+export const forecastSeries = (history: DailyPrice[], options: ForecastOptions): Forecast => {
+    const {
+        horizonDays,
+        prior,
+        isFestival,
+        weekday,
+        now = new Date(),
+        intervalLevel = 0.8,
+        trendDamping = 0.98,
+        priorWeightDays = { festival: 14, trend: 30, volatility: 14 },
+        minDaysForWeekly = 21
+    } = options;
+
+    const days = fillDailyGaps(history);
+    const n = days.length;
+    const y = days.map(day => Math.log(day.price));
+    const festival = days.map(day => isFestival(day.time) ? 1 : 0);
+    const festivalDays = festival.reduce<number>((a, b) => a + b, 0);
+
+    // Sale-event effect, estimated jointly with a linear trend so a falling price is not mistaken for a sale
+    let festivalEffect = Math.log(1 + prior.festivalEffect);
+    let festivalEffectSource: Forecast['festivalEffectSource'] = 'prior';
+    if (festivalDays >= 3 && n - festivalDays >= 7) {
+        const fit = leastSquares(days.map((_, t) => [1, t, festival[t]!]), y);
+        if (fit) {
+            festivalEffect = shrink(fit[2]!, festivalDays, festivalEffect, priorWeightDays.festival);
+            festivalEffectSource = 'history';
+        }
+    }
+    const adjusted = y.map((value, t) => value - festivalEffect * festival[t]!);
+
+    // Classical decomposition with a centred 7-day moving average
+    let weeklyPattern: number[] | null = null;
+    if (n >= minDaysForWeekly) {
+        const sums = Array(7).fill(0);
+        const counts = Array(7).fill(0);
+        for (let t = 3; t < n - 3; t++) {
+            const average = mean(adjusted.slice(t - 3, t + 4));
+            const dow = weekday(days[t]!.time);
+            sums[dow] += adjusted[t]! - average;
+            counts[dow]++;
+        }
+        const raw = sums.map((sum, dow) => counts[dow] ? sum / counts[dow] : 0);
+        const centre = mean(raw);
+        const pattern = raw.map(value => value - centre);
+        // Half a percent swing is noise as far as shoppers are concerned
+        if (Math.max(...pattern) - Math.min(...pattern) >= 0.005) weeklyPattern = pattern;
+    }
+    const seasonal = (date: Date) => weeklyPattern ? weeklyPattern[weekday(date)]! : 0;
+    const deseasonalized = adjusted.map((value, t) => value - seasonal(days[t]!.time));
+
+    // Trend and noise from the recent window only, older behaviour matters less
+    const window = deseasonalized.slice(-60);
+    const m = window.length;
+    const priorSlope = Math.log(1 + prior.monthlyDrift) / 30;
+    let slope = priorSlope;
+    let level: number | null = null;
+    let residualVariance = 0;
+    if (m >= 2) {
+        const fit = leastSquares(window.map((_, t) => [1, t]), window);
+        if (fit) {
+            slope = shrink(fit[1]!, m, priorSlope, priorWeightDays.trend);
+            level = fit[0]! + fit[1]! * (m - 1);
+            residualVariance = variance(window.map((value, t) => value - fit[0]! - fit[1]! * t));
+        }
+    }
+    const changes = window.slice(1).map((value, t) => value - window[t]!);
+    const dailyVariance = shrink(variance(changes), changes.length, prior.dailyVolatility ** 2, priorWeightDays.volatility);
+
+    const today = new Date(now);
+    const lastTime = days[n - 1]?.time ?? today;
+    const elapsed = Math.max(0, Math.round((today.getTime() - lastTime.getTime()) / DAY_MS));
+
+    if (options.currentPrice && options.currentPrice > 0) {
+        level = Math.log(options.currentPrice) - seasonal(today) - (isFestival(today) ? festivalEffect : 0);
+    } else if (level === null) {
+        level = n > 0 ? deseasonalized[n - 1]! : 0;
+    } else {
+        level += slope * elapsed;
+    }
+
+    const z = normalQuantile(0.5 + intervalLevel / 2);
+    const points: ForecastPoint[] = [];
+    let trend = 0;
+    for (let h = 1; h <= horizonDays; h++) {
+        trend += slope * trendDamping ** h;
+        const time = new Date(today.getTime() + h * DAY_MS);
+        const onFestival = isFestival(time);
+        const centre = level + trend + seasonal(time) + (onFestival ? festivalEffect : 0);
+        const spread = z * Math.sqrt(residualVariance + h * dailyVariance);
+        points.push({
+            time,
+            expected: Math.exp(centre),
+            lower: Math.exp(centre - spread),
+            upper: Math.exp(centre + spread),
+            festival: onFestival
+        });
+    }
+
+    return {
+        points,
+        observedDays: n,
+        festivalEffect: Math.exp(festivalEffect) - 1,
+        festivalEffectSource,
+        festivalDaysObserved: festivalDays,
+        monthlyTrend: Math.exp(slope * 30) - 1,
+        weeklyPattern: weeklyPattern ? weeklyPattern.map(value => Math.exp(value) - 1) : null,
+        dailyVolatility: Math.sqrt(dailyVariance),
+        intervalLevel
+    };
+};
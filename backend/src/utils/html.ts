@@ -0,0 +1,10 @@
+const HTML_ENTITIES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+// For user-supplied or scraped text placed in email HTML, such as names and product titles
+export const escapeHtml = (text: string): string => text.replace(/[&<>"']/g, char => HTML_ENTITIES[char]!);
@@ -0,0 +1,251 @@
+// Structured checkout offers (bank discounts, coupons, exchange bonuses, no-cost EMI) and
+// the effective price a shopper pays once the ones they qualify for are applied.
+
+import { OFFER_CONFIG, bankById } from '../config/offerConfig.js';
+
+export type PaymentMethodType = 'credit_card' | 'debit_card' | 'upi' | 'netbanking';
+
+export interface PaymentMethod {
+    type: PaymentMethodType;
+    // Bank id from OFFER_CONFIG.banks, e.g. "hdfc"
+    bank: string;
+    label?: string;
+}
+
+interface OfferBase {
+    description: string;
+    minSpend?: number;
+    validUntil?: Date;
+}
+
+interface DiscountTerms {
+    kind: 'percent' | 'flat';
+    value: number;
+    maxDiscount?: number;
+}
+
+export interface BankOffer extends OfferBase, DiscountTerms {
+    type: 'bank';
+    bank: string;
+    // Empty means any payment type from that bank
+    paymentTypes: PaymentMethodType[];
+    // Only on EMI transactions, which means paying with a card
+    emiOnly: boolean;
+}
+
+export interface CouponOffer extends OfferBase, DiscountTerms {
+    type: 'coupon';
+    code?: string;
+}
+
+export interface ExchangeOffer extends OfferBase {
+    type: 'exchange';
+    // Best case, the actual bonus depends on the device handed in
+    maxBonus: number;
+}
+
+export interface NoCostEmiOffer extends OfferBase {
+    type: 'no_cost_emi';
+    // Empty means any bank's credit card
+    banks: string[];
+    tenures: number[];
+}
+
+export type Offer = BankOffer | CouponOffer | ExchangeOffer | NoCostEmiOffer;
+
+export interface AppliedOffer {
+    type: Offer['type'];
+    description: string;
+    amount: number;
+}
+
+export interface EffectivePrice {
+    price: number;
+    effectivePrice: number;
+    savings: number;
+    // The saved method that gets this price, absent when no bank offer is involved
+    paymentMethod?: PaymentMethod;
+    applied: AppliedOffer[];
+    requiresEmi: boolean;
+    // No-cost EMI on the chosen payment method, or else on the first saved method that has it
+    noCostEmi?: { paymentMethod: PaymentMethod; tenures: number[]; monthlyPayment: number };
+}
+
+export interface EffectivePriceOptions {
+    // Exchange bonuses need a device to hand in, so they only count when asked for
+    includeExchange?: boolean;
+    allowEmi?: boolean;
+    now?: Date;
+}
+
+const STANDARD_TENURES = [3, 6, 9, 12, 18, 24];
+const RUPEES = String.raw`(?:₹|rs\.?|inr)\s?([\d,]+(?:\.\d+)?)`;
+const PERCENT = /(\d+(?:\.\d+)?)\s?%/;
+const UP_TO = new RegExp(String.raw`up\s?to\s+${RUPEES}`, 'i');
+const FLAT = new RegExp(String.raw`${RUPEES}\s*(?:instant\s+)?(?:off|discount|cashback|coupon)`, 'i');
+const MIN_SPEND = new RegExp(String.raw`(?:(?:orders?|purchases?|transactions?|cart value|spends?)\s+(?:of|above|over|worth)|above|min(?:imum)?\.?\s+(?:purchase|order|transaction|cart)?\s*(?:value\s+)?(?:of\s+)?)\s*${RUPEES}`, 'i');
+
+const money = (value: string) => Math.round(Number(value.replace(/,/g, '')));
+
+export const bankIdFor = (text: string) => OFFER_CONFIG.banks.find(bank => bank.match.test(text))?.id;
+
+const banksIn = (text: string) => OFFER_CONFIG.banks.filter(bank => bank.match.test(text)).map(bank => bank.id);
+
+const paymentTypesIn = (text: string): PaymentMethodType[] => {
+    const types: PaymentMethodType[] = [];
+    if (/credit/i.test(text)) types.push('credit_card');
+    if (/debit/i.test(text)) types.push('debit_card');
+    if (/\bupi\b/i.test(text)) types.push('upi');
+    if (/net\s?banking/i.test(text)) types.push('netbanking');
+    return types;
+};
+
+const discountTerms = (text: string): DiscountTerms | undefined => {
+    const percent = text.match(PERCENT);
+    const cap = text.match(UP_TO);
+    if (percent) return { kind: 'percent', value: Number(percent[1]), ...(cap ? { maxDiscount: money(cap[1]!) } : {}) };
+    const flat = text.match(FLAT) ?? cap;
+    return flat ? { kind: 'flat', value: money(flat[1]!) } : undefined;
+};
+
+const tenuresIn = (text: string): number[] => {
+    const match = text.match(/(up\s?to\s+)?((?:\d{1,2}\s*(?:,|\/|&|and|or)\s*)*\d{1,2})\s*months?/i);
+    if (!match) return OFFER_CONFIG.defaultNoCostEmiTenures;
+    const listed = match[2]!.split(/\D+/).filter(Boolean).map(Number);
+    if (match[1] && listed.length === 1) return STANDARD_TENURES.filter(tenure => tenure <= listed[0]!);
+    return [...new Set(listed)].sort((a, b) => a - b);
+};
+
+// Turns one line of a listing's offer section ("Bank Offer 10% off on HDFC Bank Credit Card EMI
+// Transactions, up to ₹1,500 on orders of ₹5,000 and above") into offers. Text that cannot be
+// attributed to a bank or priced (partner offers, vague cashback) yields nothing.
+export const parseOfferText = (raw: string): Offer[] => {
+    const text = raw.replace(/\s+/g, ' ').trim();
+    // "Special Price" lines describe a discount already included in the listed price
+    if (!text || /special price|price inclusive of/i.test(text)) return [];
+
+    const description = text.length > 200 ? `${text.slice(0, 197)}...` : text;
+    const minSpendMatch = text.match(MIN_SPEND);
+    const base = { description, ...(minSpendMatch ? { minSpend: money(minSpendMatch[1]!) } : {}) };
+
+    if (/no[\s-]?cost\s+emi/i.test(text)) {
+        return [{ ...base, type: 'no_cost_emi', banks: banksIn(text), tenures: tenuresIn(text) }];
+    }
+
+    if (/exchange/i.test(text)) {
+        const bonus = text.match(UP_TO) ?? text.match(FLAT) ?? text.match(new RegExp(RUPEES, 'i'));
+        return bonus ? [{ description, type: 'exchange', maxBonus: money(bonus[1]!) }] : [];
+    }
+
+    const terms = discountTerms(text);
+    if (!terms) return [];
+
+    if (/coupon|promo ?code|use code/i.test(text)) {
+        const code = text.match(/(?:code|coupon)\s*:?\s*['"]?([A-Z0-9]{4,20})\b/)?.[1];
+        return [{ ...base, ...terms, type: 'coupon', ...(code ? { code } : {}) }];
+    }
+
+    if (/bank|card|upi|net\s?banking|\bemi\b/i.test(text)) {
+        const paymentTypes = paymentTypesIn(text);
+        const emiOnly = /\bemi\b/i.test(text) && !/non[\s-]?emi/i.test(text);
+        return banksIn(text).map(bank => ({ ...base, ...terms, type: 'bank' as const, bank, paymentTypes, emiOnly }));
+    }
+
+    return [];
+};
+
+// Offers written by the LLM name banks freely ("HDFC Bank", "hdfc"); map them to bank ids
+// and drop bank offers for banks we do not know, since no saved method could match them
+export const normalizeOfferBanks = (offers: Offer[]): Offer[] => offers.flatMap((offer): Offer[] => {
+    if (offer.type === 'bank') {
+        const bank = bankById(offer.bank) ? offer.bank : bankIdFor(offer.bank);
+        return bank ? [{ ...offer, bank }] : [];
+    }
+    if (offer.type === 'no_cost_emi') {
+        const banks = offer.banks.map(name => bankById(name) ? name : bankIdFor(name)).filter(bank => bank !== undefined);
+        return [{ ...offer, banks, tenures: offer.tenures.length > 0 ? offer.tenures : OFFER_CONFIG.defaultNoCostEmiTenures }];
+    }
+    return [offer];
+});
+
+export const describePaymentMethod = (method: PaymentMethod) => {
+    if (method.label) return method.label;
+    const bank = bankById(method.bank)?.name ?? method.bank.toUpperCase();
+    const type = { credit_card: 'Credit Card', debit_card: 'Debit Card', upi: 'UPI', netbanking: 'Net Banking' }[method.type];
+    return `${bank} ${type}`;
+};
+
+const discountOn = (terms: DiscountTerms, amount: number) => {
+    const raw = terms.kind === 'percent' ? amount * terms.value / 100 : terms.value;
+    return Math.round(Math.min(amount, terms.maxDiscount !== undefined ? Math.min(raw, terms.maxDiscount) : raw));
+};
+
+const isCard = (method: PaymentMethod) => method.type === 'credit_card' || method.type === 'debit_card';
+
+const bankOfferFits = (offer: BankOffer, method: PaymentMethod, allowEmi: boolean) =>
+    offer.bank === method.bank
+    && (offer.paymentTypes.length === 0 || offer.paymentTypes.includes(method.type))
+    && (!offer.emiOnly || (allowEmi && isCard(method)));
+
+const noCostEmiFits = (offer: NoCostEmiOffer, method: PaymentMethod) =>
+    offer.banks.length === 0 ? method.type === 'credit_card' : isCard(method) && offer.banks.includes(method.bank);
+
+const best = <T>(items: T[], amount: (item: T) => number) => items
+    .map(item => ({ item, amount: amount(item) }))
+    .filter(candidate => candidate.amount > 0)
+    .sort((a, b) => b.amount - a.amount)[0];
+
+// Coupons apply to the list price, bank discounts to what is left after the coupon (minimum
+// spends are checked the same way), and an exchange bonus comes off last. Every saved method is
+// tried and the cheapest outcome wins; without a qualifying method only coupons (and exchange) count.
+export const calculateEffectivePrice = (
+    price: number,
+    offers: Offer[],
+    methods: PaymentMethod[],
+    options: EffectivePriceOptions = {}
+): EffectivePrice => {
+    const { includeExchange = false, allowEmi = true, now = new Date() } = options;
+    const live = offers.filter(offer => !offer.validUntil || new Date(offer.validUntil) >= now);
+    const of = <T extends Offer['type']>(type: T) => live.filter((offer): offer is Extract<Offer, { type: T }> => offer.type === type);
+
+    const coupon = best(of('coupon'), offer => (offer.minSpend ?? 0) <= price ? discountOn(offer, price) : 0);
+    const afterCoupon = price - (coupon?.amount ?? 0);
+    const exchange = includeExchange ? best(of('exchange'), offer => offer.maxBonus) : undefined;
+
+    const outcomes = [undefined, ...methods].map(method => {
+        const bank = method
+            ? best(of('bank'), offer => bankOfferFits(offer, method, allowEmi) && (offer.minSpend ?? 0) <= afterCoupon ? discountOn(offer, afterCoupon) : 0)
+            : undefined;
+        const effectivePrice = Math.max(0, afterCoupon - (bank?.amount ?? 0) - (exchange?.amount ?? 0));
+        return { method: bank ? method : undefined, bank, effectivePrice };
+    });
+    // Cheapest first; on a tie, the outcome that needs neither a specific card nor EMI
+    const chosen = outcomes.sort((a, b) =>
+        a.effectivePrice - b.effectivePrice
+        || Number(Boolean(a.bank?.item.emiOnly)) - Number(Boolean(b.bank?.item.emiOnly))
+        || Number(Boolean(a.method)) - Number(Boolean(b.method))
+    )[0]!;
+
+    const applied: AppliedOffer[] = [coupon, chosen.bank, exchange]
+        .filter(candidate => candidate !== undefined)
+        .map(({ item, amount }) => ({ type: item.type, description: item.description, amount: Math.min(amount, price) }));
+
+    // What a method pays is its own outcome, or the no-bank-offer price when it has none
+    const priceWith = (method: PaymentMethod) =>
+        outcomes.find(outcome => outcome.method === method)?.effectivePrice ?? Math.max(0, afterCoupon - (exchange?.amount ?? 0));
+    const emiOffersFor = (method: PaymentMethod) =>
+        of('no_cost_emi').filter(offer => noCostEmiFits(offer, method) && (offer.minSpend ?? 0) <= priceWith(method));
+    const emiMethod = [chosen.method, ...methods].find(method => method && emiOffersFor(method).length > 0);
+    const emiOffers = emiMethod ? emiOffersFor(emiMethod) : [];
+    const tenures = [...new Set(emiOffers.flatMap(offer => offer.tenures))].sort((a, b) => a - b);
+
+    return {
+        price,
+        effectivePrice: chosen.effectivePrice,
+        savings: price - chosen.effectivePrice,
+        ...(chosen.method ? { paymentMethod: chosen.method } : {}),
+        applied,
+        requiresEmi: Boolean(chosen.bank?.item.emiOnly),
+        ...(emiMethod && tenures.length > 0 ? { noCostEmi: { paymentMethod: emiMethod, tenures, monthlyPayment: Math.ceil(priceWith(emiMethod) / tenures[tenures.length - 1]!) } } : {})
+    };
+};
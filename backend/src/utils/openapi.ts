@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import type { Router, RequestHandler } from 'express';
+import { validate, type RequestSchema } from '../middlewares/validation.middleware.js';
+import { problemSchema } from './response.schemas.js';
+import { PROBLEM_CONTENT_TYPE } from '../middlewares/error.middleware.js';
+
+type Method = 'get' | 'post' | 'put' | 'delete';
+type JsonSchema = Record<string, any>;
+
+export interface RouteDoc {
+    summary: string;
+    description?: string;
+    request?: RequestSchema;
+    response?: z.ZodType;
+    // Success status, 200 unless the route creates something
+    status?: number;
+    // Overrides the group default, e.g. public routes inside the auth router
+    auth?: boolean;
+    // Media type of the success response, JSON unless the route streams
+    contentType?: string;
+}
+
+interface GroupOptions {
+    basePath: string;
+    tag: string;
+    auth?: boolean;
+}
+
+interface Operation extends RouteDoc {
+    method: Method;
+    path: string;
+    tag: string;
+}
+
+const operations: Operation[] = [];
+let cachedDocument: JsonSchema | null = null;
+
+// Express `/:id/alerts/:alertId` -> OpenAPI `/{id}/alerts/{alertId}`
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, '{$1}');
+
+// Registers a route on the router and in the OpenAPI registry in one call.
+// When the route has a request schema, `validate` runs right before the
+// controller, so the documented contract is the enforced one.
+export const documented = (router: Router, options: GroupOptions) => {
+    const register = (method: Method) => (path: string, doc: RouteDoc, ...handlers: RequestHandler[]) => {
+        operations.push({ auth: options.auth ?? false, ...doc, method, path: `${options.basePath}${path === '/' ? '' : path}`, tag: options.tag });
+        cachedDocument = null;
+
+        const controller = handlers.pop()!;
+        const chain = doc.request ? [...handlers, validate(doc.request), controller] : [...handlers, controller];
+        router[method](path, ...chain);
+    };
+
+    return {
+        get: register('get'),
+        post: register('post'),
+        put: register('put'),
+        delete: register('delete'),
+    };
+};
+
+// Each schema is converted on its own; schemas carrying a `.meta({ id })` come
+// back in `$defs` and are hoisted into `components.schemas` so they are shared.
+const toSchema = (schema: z.ZodType, io: 'input' | 'output', components: Record<string, JsonSchema>): JsonSchema => {
+    const { $schema, $defs, ...json } = z.toJSONSchema(schema, {
+        target: 'draft-2020-12',
+        io,
+        unrepresentable: 'any',
+        reused: 'inline',
+    }) as JsonSchema;
+
+    const rewrite = (node: any): any => {
+        if (Array.isArray(node)) return node.map(rewrite);
+        if (!node || typeof node !== 'object') return node;
+        return Object.fromEntries(Object.entries(node)
+            // `.meta({ id })` leaves the component name on the schema; a property called `id` is an object
+            .filter(([key, value]) => !(key === 'id' && typeof value === 'string'))
+            .map(([key, value]) => [
+                key,
+                key === '$ref' && typeof value === 'string' ? value.replace('#/$defs/', '#/components/schemas/') : rewrite(value)
+            ]));
+    };
+
+    for (const [name, definition] of Object.entries($defs ?? {})) {
+        components[name] = rewrite(definition);
+    }
+    // A top-level schema with an id is itself a component
+    if (typeof json.id === 'string') {
+        components[json.id] = rewrite(json);
+        return { $ref: `#/components/schemas/${json.id}` };
+    }
+    return rewrite(json);
+};
+
+const toParameters = (schema: z.ZodType | undefined, location: 'path' | 'query', components: Record<string, JsonSchema>) => {
+    if (!schema) return [];
+    const json = toSchema(schema, 'input', components);
+    const required = new Set<string>(json.required ?? []);
+    return Object.entries<JsonSchema>(json.properties ?? {}).map(([name, property]) => {
+        const { description, ...propertySchema } = property;
+        return {
+            name,
+            in: location,
+            required: location === 'path' || required.has(name),
+            ...(description ? { description } : {}),
+            schema: propertySchema,
+        };
+    });
+};
+
+const problemResponse = (description: string) => ({
+    description,
+    content: { [PROBLEM_CONTENT_TYPE]: { schema: { $ref: '#/components/schemas/Problem' } } },
+});
+
+const buildOperation = (operation: Operation, components: Record<string, JsonSchema>) => {
+    const shape = operation.request?.shape;
+    const status = String(operation.status ?? 200);
+
+    const responses: Record<string, any> = {
+        [status]: {
+            description: 'Success',
+            ...(operation.response ? { content: { [operation.contentType ?? 'application/json']: { schema: toSchema(operation.response, 'output', components) } } } : {}),
+        },
+    };
+    if (operation.request) responses['400'] = problemResponse('Invalid request');
+    if (operation.auth) responses['401'] = problemResponse('Missing, invalid or expired access token');
+    if (operation.path.includes(':')) responses['404'] = problemResponse('Resource not found');
+    responses['429'] = problemResponse('Rate limit or quota exceeded');
+    responses['default'] = problemResponse('Unexpected error');
+
+    return {
+        tags: [operation.tag],
+        summary: operation.summary,
+        ...(operation.description ? { description: operation.description } : {}),
+        operationId: `${operation.method}${toOpenApiPath(operation.path).replace(/[^a-zA-Z0-9]+(\w)?/g, (_, c: string | undefined) => c?.toUpperCase() ?? '')}`,
+        ...(operation.auth ? { security: [{ bearerAuth: [] }] } : {}),
+        parameters: [
+            ...toParameters(shape?.params, 'path', components),
+            ...toParameters(shape?.query, 'query', components),
+        ],
+        ...(shape?.body ? {
+            requestBody: {
+                required: !shape.body.safeParse(undefined).success,
+                content: { 'application/json': { schema: toSchema(shape.body, 'input', components) } },
+            },
+        } : {}),
+        responses,
+    };
+};
+
+export const buildOpenApiDocument = () => {
+    if (cachedDocument) return cachedDocument;
+
+    const components: Record<string, JsonSchema> = {};
+    toSchema(problemSchema, 'output', components);
+
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const operation of operations) {
+        const path = toOpenApiPath(operation.path);
+        paths[path] = { ...paths[path], [operation.method]: buildOperation(operation, components) };
+    }
+
+    cachedDocument = {
+        openapi: '3.1.0',
+        info: {
+            title: 'AI Price Tracker API',
+            version: process.env.npm_package_version ?? '1.0.0',
+            description: 'Cross-platform product search, price tracking, alerts and watchlists. Errors are returned as RFC 9457 problem details.',
+        },
+        servers: [{ url: '/' }],
+        tags: [...new Set(operations.map(operation => operation.tag))].map(name => ({ name })),
+        paths,
+        components: {
+            schemas: Object.fromEntries(Object.entries(components).sort(([a], [b]) => a.localeCompare(b))),
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+            },
+        },
+    };
+    return cachedDocument;
+};
@@ -1,4 +1,6 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { PriceBucket } from "../services/priceHistory.service.js";
+import type { HistoryGranularity } from "../config/priceHistoryConfig.js";
 
 interface ProductForList {
   id: string;
@@ -110,39 +112,28 @@ export const transformProductForDetail = (product: any) => {
   };
 };
 
-export const formatHistoryForChart = (product: any, priceHistory: Record<string, any[]>): ChartDataPoint[] => {
-  // Collect all unique dates from all platforms
-  const allDates = new Set<string>();
-  const platformData: Record<string, Record<string, number>> = {};
-
-  // Process each platform's price history
-  Object.entries(priceHistory).forEach(([platform, history]) => {
-    platformData[platform] = {};
-    history.forEach((point: any) => {
-      const dateStr = point.date.toISOString().split('T')[0]; // YYYY-MM-DD format
-      allDates.add(dateStr);
-      platformData[platform][dateStr] = point.price;
-    });
-  });
-
-  // Convert to chart-friendly format
-  const chartData: ChartDataPoint[] = Array.from(allDates)
-    .sort()
-    .map(dateStr => {
-      const dataPoint: ChartDataPoint = {
-        date: formatDateForDisplay(dateStr),
-        timestamp: new Date(dateStr).getTime()
-      };
+// One row per bucket with each platform's closing price, the shape chart libraries expect
+export const formatHistoryForChart = (series: Record<string, PriceBucket[]>, granularity: HistoryGranularity): ChartDataPoint[] => {
+  const rows = new Map<number, ChartDataPoint>();
 
-      // Add price data for each platform
-      Object.keys(platformData).forEach(platform => {
-        dataPoint[platform] = platformData[platform][dateStr] || null;
-      });
-
-      return dataPoint;
-    });
+  for (const [platform, buckets] of Object.entries(series)) {
+    for (const bucket of buckets) {
+      const timestamp = bucket.time.getTime();
+      let row = rows.get(timestamp);
+      if (!row) {
+        row = {
+          date: granularity === 'raw' || granularity === 'hour'
+            ? bucket.time.toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })
+            : formatDateForDisplay(bucket.time.toISOString()),
+          timestamp
+        };
+        rows.set(timestamp, row);
+      }
+      row[platform] = bucket.close;
+    }
+  }
 
-  return chartData;
+  return Array.from(rows.values()).sort((a, b) => a.timestamp - b.timestamp);
 };
 
 export const formatPriceChange = (currentPrice: number, previousPrice: number): string => {
@@ -206,44 +197,156 @@ export const formatCurrency = (amount: number): string => {
   return `₹${amount.toLocaleString('en-IN')}`;
 };
 
-export const getPriceStatistics = (priceHistory: any[]): {
-  min: number;
-  max: number;
-  average: number;
-  trend: 'rising' | 'falling' | 'stable';
-  volatility: 'low' | 'medium' | 'high';
-} => {
-  if (priceHistory.length === 0) {
-    return { min: 0, max: 0, average: 0, trend: 'stable', volatility: 'low' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Trend = 'rising' | 'falling' | 'stable';
+type Volatility = 'low' | 'medium' | 'high';
+
+export interface PriceStatistics {
+  currentPrice: number;
+  allTimeLow: { price: number; date: Date } | null;
+  allTimeHigh: { price: number; date: Date } | null;
+  average30d: number | null;
+  average90d: number | null;
+  // Share of tracked days priced below the current price, lower is better
+  percentile: number | null;
+  lastDropAt: Date | null;
+  daysSinceLastDrop: number | null;
+  trend: Trend;
+  volatility: Volatility;
+  daysTracked: number;
+  dealScore: DealScore | null;
+}
+
+export interface DealScore {
+  score: number;
+  label: 'great' | 'good' | 'fair' | 'poor';
+  confidence: 'low' | 'medium' | 'high';
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const round = (value: number) => Math.round(value * 100) / 100;
+const clamp = (value: number, min = 0, max = 100) => Math.min(max, Math.max(min, value));
+
+// Cheapest platform at each point in time, what a shopper checking every platform would pay
+export const combineSeries = (series: Record<string, PriceBucket[]>): PriceBucket[] => {
+  const combined = new Map<number, PriceBucket>();
+
+  for (const buckets of Object.values(series)) {
+    for (const bucket of buckets) {
+      const timestamp = bucket.time.getTime();
+      const existing = combined.get(timestamp);
+      combined.set(timestamp, existing ? {
+        time: bucket.time,
+        min: Math.min(existing.min, bucket.min),
+        max: Math.min(existing.max, bucket.max),
+        avg: Math.min(existing.avg, bucket.avg),
+        close: Math.min(existing.close, bucket.close),
+        count: existing.count + bucket.count
+      } : { ...bucket });
+    }
+  }
+
+  return Array.from(combined.values()).sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+// Blends where the current price sits among tracked days, within the all-time range,
+// and against the 90-day average. Short histories are flagged with a lower confidence.
+export const calculateDealScore = (stats: Omit<PriceStatistics, 'dealScore'>): DealScore | null => {
+  const { currentPrice, allTimeLow, allTimeHigh, average90d, percentile, daysTracked } = stats;
+  if (currentPrice <= 0 || !allTimeLow || !allTimeHigh || percentile === null) return null;
+
+  const range = allTimeHigh.price - allTimeLow.price;
+  const rangeScore = range > 0 ? clamp(((allTimeHigh.price - currentPrice) / range) * 100) : 50;
+  // 20% under the 90-day average scores 100, 20% over scores 0
+  const averageScore = average90d ? clamp(50 + ((average90d - currentPrice) / average90d) * 250) : 50;
+  const score = Math.round(0.4 * (100 - percentile) + 0.3 * rangeScore + 0.3 * averageScore);
+
+  return {
+    score,
+    label: score >= 80 ? 'great' : score >= 60 ? 'good' : score >= 40 ? 'fair' : 'poor',
+    confidence: daysTracked < 7 ? 'low' : daysTracked < 30 ? 'medium' : 'high'
+  };
+};
+
+// Statistics over daily buckets, oldest first. Every day counts once, however often it was scraped.
+export const getPriceStatistics = (buckets: PriceBucket[], currentPrice: number, now = new Date()): PriceStatistics => {
+  const days = buckets.filter(bucket => bucket.close > 0);
+  if (days.length === 0) {
+    return {
+      currentPrice,
+      allTimeLow: null,
+      allTimeHigh: null,
+      average30d: null,
+      average90d: null,
+      percentile: null,
+      lastDropAt: null,
+      daysSinceLastDrop: null,
+      trend: 'stable',
+      volatility: 'low',
+      daysTracked: 0,
+      dealScore: null
+    };
   }
 
-  const prices = priceHistory.map(p => p.price);
-  const min = Math.min(...prices);
-  const max = Math.max(...prices);
-  const average = Math.round(prices.reduce((a, b) => a + b, 0) / prices.length);
+  const low = days.reduce((best, bucket) => bucket.min < best.min ? bucket : best);
+  const high = days.reduce((best, bucket) => bucket.max > best.max ? bucket : best);
+
+  const averageSince = (daysBack: number) => {
+    const recent = days.filter(bucket => bucket.time.getTime() >= now.getTime() - daysBack * DAY_MS);
+    return recent.length > 0 ? round(mean(recent.map(bucket => bucket.avg))) : null;
+  };
+
+  const closes = days.map(bucket => bucket.close);
+  const percentile = currentPrice > 0
+    ? Math.round((closes.filter(price => price < currentPrice).length / closes.length) * 100)
+    : null;
+
+  // A drop is a day that went below the previous day's closing price
+  let lastDropAt: Date | null = null;
+  for (let i = days.length - 1; i > 0; i--) {
+    if (days[i]!.min < days[i - 1]!.close) {
+      lastDropAt = days[i]!.time;
+      break;
+    }
+  }
 
   // Calculate trend (last 5 data points vs previous 5)
-  let trend: 'rising' | 'falling' | 'stable' = 'stable';
-  if (prices.length >= 10) {
-    const recent = prices.slice(-5).reduce((a, b) => a + b, 0) / 5;
-    const previous = prices.slice(-10, -5).reduce((a, b) => a + b, 0) / 5;
+  let trend: Trend = 'stable';
+  if (closes.length >= 10) {
+    const recent = mean(closes.slice(-5));
+    const previous = mean(closes.slice(-10, -5));
     const change = ((recent - previous) / previous) * 100;
-    
+
     if (change > 5) trend = 'rising';
     else if (change < -5) trend = 'falling';
   }
 
   // Calculate volatility based on price variance
-  const variance = prices.reduce((acc, price) => acc + Math.pow(price - average, 2), 0) / prices.length;
-  const stdDeviation = Math.sqrt(variance);
-  const coefficientOfVariation = (stdDeviation / average) * 100;
-  
-  let volatility: 'low' | 'medium' | 'high';
+  const average = mean(closes);
+  const variance = closes.reduce((acc, price) => acc + Math.pow(price - average, 2), 0) / closes.length;
+  const coefficientOfVariation = (Math.sqrt(variance) / average) * 100;
+
+  let volatility: Volatility;
   if (coefficientOfVariation < 10) volatility = 'low';
   else if (coefficientOfVariation < 25) volatility = 'medium';
   else volatility = 'high';
 
-  return { min, max, average, trend, volatility };
+  const stats = {
+    currentPrice,
+    allTimeLow: { price: low.min, date: low.time },
+    allTimeHigh: { price: high.max, date: high.time },
+    average30d: averageSince(30),
+    average90d: averageSince(90),
+    percentile,
+    lastDropAt,
+    daysSinceLastDrop: lastDropAt ? Math.floor((now.getTime() - lastDropAt.getTime()) / DAY_MS) : null,
+    trend,
+    volatility,
+    daysTracked: days.length
+  };
+
+  return { ...stats, dealScore: calculateDealScore(stats) };
 };
 
 export const transformSearchResults = (results: any[]) => {
@@ -1,10 +1,3 @@
-export interface PricePoint {
-  date: Date;
-  price: number;
-  source: 'scraped' | 'historical_api' | 'manual' | 'ai_fetched' | 'ai_updated';
-  availability?: 'in_stock' | 'out_of_stock' | 'limited_stock';
-}
-
 export interface PlatformData {
   url: string;
   platformProductId: string;
@@ -13,7 +6,6 @@ export interface PlatformData {
   seller?: string;
   rating?: number;
   reviews?: number;
-  priceHistory: PricePoint[];
   lastScraped: Date;
   isActive: boolean;
   originalPrice?: number;
@@ -57,9 +49,13 @@ export interface MarketAnalysis {
   priceDispersion: number;
 }
 
+// Computed from tracked history by the forecasting module; the ranges are
+// `intervalLevel`% prediction intervals and only `explanation` comes from the LLM
 export interface PricePrediction {
   nextWeekRange: { min: number; max: number };
   nextMonthRange: { min: number; max: number };
+  expectedPrice?: { nextWeek: number; nextMonth: number };
+  intervalLevel?: number;
   confidence: number;
   factors: string[];
   bestTimeToBuy: string;
@@ -68,6 +64,8 @@ export interface PricePrediction {
     low: string;
     current: 'peak' | 'low' | 'normal';
   };
+  basedOnDays?: number;
+  explanation?: string;
 }
 
 export interface AIRecommendation {
@@ -99,7 +97,7 @@ export interface SearchResult {
     aiInsights: {
       marketAnalysis: MarketAnalysis;
       recommendations: AIRecommendation;
-      pricePredicition: PricePrediction;
+      pricePrediction: PricePrediction;
     };
     cachedAt?: Date;
   };
@@ -125,11 +123,29 @@ export interface PriceUpdateResult {
     priceChange: number;
     percentChange: number;
   }>;
-  alertsTriggered: Array<{
-    type: 'price_drop' | 'price_rise' | 'back_in_stock';
-    platform: string;
-    details: string;
-  }>;
+  alertsTriggered: TriggeredAlert[];
+}
+
+export interface PlatformChange {
+  platform: string;
+  oldPrice: number;
+  newPrice: number;
+  // What the owner pays after offers with their saved payment methods
+  oldEffectivePrice: number;
+  newEffectivePrice: number;
+  // The saved method that gets the new effective price
+  paymentMethod?: string;
+  oldAvailability: AvailabilityStatus;
+  newAvailability: AvailabilityStatus;
+  observedAt: Date;
+}
+
+export interface TriggeredAlert {
+  alertId: string;
+  ruleId: string;
+  type: AlertType;
+  platform: string;
+  details: string;
 }
 
 export interface BulkUpdateResult {
@@ -179,35 +195,6 @@ export interface APIUsageStats {
   remainingQuota: number;
 }
 
-// Error types
-export class ProductNotFoundError extends Error {
-  constructor(productId: string) {
-    super(`Product not found: ${productId}`);
-    this.name = 'ProductNotFoundError';
-  }
-}
-
-export class PlatformUnavailableError extends Error {
-  constructor(platform: string) {
-    super(`Platform unavailable: ${platform}`);
-    this.name = 'PlatformUnavailableError';
-  }
-}
-
-export class RateLimitExceededError extends Error {
-  constructor(limit: number, resetTime: Date) {
-    super(`Rate limit exceeded. Limit: ${limit}. Resets at: ${resetTime}`);
-    this.name = 'RateLimitExceededError';
-  }
-}
-
-export class AIServiceError extends Error {
-  constructor(service: string, originalError: string) {
-    super(`AI service failed: ${service}. Error: ${originalError}`);
-    this.name = 'AIServiceError';
-  }
-}
-
 // Utility types
 export type Platform = 'amazon' | 'flipkart' | 'myntra' | 'meesho' | 'nykaa' | 'ajio';
 export type PriceSource = 'scraped' | 'historical_api' | 'manual' | 'ai_fetched' | 'ai_updated';
@@ -216,6 +203,7 @@ export type TrendDirection = 'rising' | 'falling' | 'stable';
 export type RecommendedAction = 'buy_now' | 'wait' | 'monitor';
 export type UrgencyLevel = 'low' | 'medium' | 'high';
 export type VolatilityLevel = 'low' | 'medium' | 'high';
+export type AlertType = 'percentage_drop' | 'target_price' | 'lowest_in_days' | 'back_in_stock';
 
 // Request/Response interfaces
 export interface SearchProductsRequest {
@@ -234,6 +222,8 @@ export interface TrackProductRequest {
   alertThresholds?: {
     priceDropPercentage?: number;
     priceDropAmount?: number;
+    targetPrice?: number;
+    lowestInDays?: number;
     backInStock?: boolean;
   };
 }
\ No newline at end of file
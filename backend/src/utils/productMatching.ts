@@ -0,0 +1,53 @@
+// Normalization and fuzzy matching used to group listings of the same item across platforms.
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'the', 'with', 'for', 'of', 'in', 'on', 'by', 'to', 'from',
+    'new', 'latest', 'edition', 'combo', 'pack', 'free', 'original', 'genuine', 'official',
+    'ram', 'storage'
+]);
+
+const UNITS = 'gb|tb|mb|mah|ml|l|ltr|kg|g|gm|mm|cm|m|inch|in|w|hz|mp|v|pcs|pc';
+
+export const normalizeBrand = (brand?: string): string | undefined => {
+    const normalized = brand?.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    return normalized ? normalized : undefined;
+};
+
+// "Galaxy S24 (Onyx Black, 8 GB RAM, 256GB)" -> ['galaxy', 's24', 'onyx', 'black', '8gb', 'ram', '256gb']
+export const titleTokens = (title: string, brand?: string): string[] => {
+    const brandTokens = new Set(normalizeBrand(brand)?.split(' ') ?? []);
+    const text = title
+        .toLowerCase()
+        .replace(/[^a-z0-9.]+/g, ' ')
+        .replace(new RegExp(`\\b(\\d+(?:\\.\\d+)?)\\s+(${UNITS})\\b`, 'g'), '$1$2')
+        .replace(/(?<!\d)\.|\.(?!\d)/g, ' ');
+
+    const tokens = text.split(' ').filter(token => token && !STOPWORDS.has(token) && !brandTokens.has(token));
+    return [...new Set(tokens)];
+};
+
+// Digits carry the variant (storage, size, pack count), so two titles only match
+// when every numeric token of the shorter one also appears in the longer one.
+export const titleSimilarity = (a: string[], b: string[]): number => {
+    if (a.length === 0 || b.length === 0) return 0;
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+    const longerSet = new Set(longer);
+
+    const numeric = shorter.filter(token => /\d/.test(token));
+    if (numeric.some(token => !longerSet.has(token))) return 0;
+
+    const shared = shorter.filter(token => longerSet.has(token)).length;
+    return shared / shorter.length;
+};
+
+// GTIN-8/12/13/14 are zero-padded to 14 digits so an EAN and its UPC form compare equal
+export const normalizeGtin = (gtin?: string): string | undefined => {
+    const digits = gtin?.replace(/\D/g, '');
+    if (!digits || ![8, 12, 13, 14].includes(digits.length)) return undefined;
+    return digits.padStart(14, '0');
+};
+
+export const normalizeModelNumber = (model?: string): string | undefined => {
+    const normalized = model?.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return normalized && normalized.length >= 3 ? normalized : undefined;
+};
@@ -0,0 +1,577 @@
+import { z } from 'zod';
+import { ERROR_CODES } from './errors.js';
+import { ALERT_TYPES, PLATFORMS } from '../middlewares/validation.middleware.js';
+
+// Response contracts for the OpenAPI document. Mongoose documents are described
+// with looseObject so the spec lists the fields clients rely on without
+// pretending to be exhaustive.
+
+const id = z.string().meta({ description: 'MongoDB ObjectId', example: '66f1c2a9e4b0a1b2c3d4e5f6' });
+const dateTime = z.iso.datetime();
+const platform = z.enum(PLATFORMS);
+const availability = z.enum(['in_stock', 'out_of_stock', 'limited_stock']);
+
+const success = <T extends z.ZodRawShape>(shape: T) => z.object({ success: z.literal(true), ...shape });
+
+export const problemSchema = z.looseObject({
+    type: z.string(),
+    title: z.string(),
+    status: z.number().int(),
+    detail: z.string(),
+    instance: z.string(),
+    code: z.enum(ERROR_CODES),
+    success: z.literal(false),
+    errors: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+}).meta({ id: 'Problem', description: 'RFC 9457 problem details, served as application/problem+json' });
+
+export const messageResponse = success({ message: z.string() }).meta({ id: 'MessageResponse' });
+
+const pagination = (totalKey: string) => z.object({
+    currentPage: z.number().int(),
+    totalPages: z.number().int(),
+    [totalKey]: z.number().int(),
+    hasMore: z.boolean().optional(),
+});
+
+export const healthResponse = success({ status: z.literal('ok'), uptime: z.number() });
+
+// Auth
+
+const authProviders = z.array(z.enum(['local', 'google']));
+
+export const authUserSchema = z.object({
+    id,
+    name: z.string(),
+    email: z.email(),
+    isEmailVerified: z.boolean().optional(),
+    authProviders,
+    lastLogin: dateTime.optional(),
+    createdAt: dateTime.optional(),
+}).meta({ id: 'AuthUser' });
+
+export const authTokensResponse = success({
+    accessToken: z.string().meta({ description: 'Short-lived JWT, send as `Authorization: Bearer <token>`. The refresh token is set as an httpOnly cookie.' }),
+    user: authUserSchema,
+});
+
+export const userResponse = success({ user: authUserSchema });
+export const profileResponse = success({ message: z.string(), user: authUserSchema });
+export const emailVerifiedResponse = success({ isEmailVerified: z.boolean() });
+export const googleLinkResponse = success({ url: z.string() });
+export const authProvidersResponse = success({ message: z.string(), authProviders });
+
+export const sessionsResponse = success({
+    sessions: z.array(z.object({
+        sessionId: z.string(),
+        userId: id,
+        userAgent: z.string().optional(),
+        ip: z.string().optional(),
+        createdAt: dateTime,
+        lastUsedAt: dateTime,
+        current: z.boolean(),
+    }).meta({ id: 'Session' })),
+});
+
+export const revokedSessionsResponse = success({ message: z.string(), revoked: z.number().int() });
+
+// Offers and payment methods
+
+const paymentMethodType = z.enum(['credit_card', 'debit_card', 'upi', 'netbanking']);
+
+const paymentMethodSchema = z.object({
+    type: paymentMethodType,
+    bank: z.string().meta({ description: 'Bank id, see /api/payment-methods/banks' }),
+    label: z.string().optional(),
+}).meta({ id: 'PaymentMethod' });
+
+const offerSchema = z.object({
+    type: z.enum(['bank', 'coupon', 'exchange', 'no_cost_emi']),
+    description: z.string(),
+    minSpend: z.number().optional(),
+    kind: z.enum(['percent', 'flat']).optional().meta({ description: 'bank and coupon offers' }),
+    value: z.number().optional().meta({ description: 'bank and coupon offers' }),
+    maxDiscount: z.number().optional().meta({ description: 'bank and coupon offers' }),
+    bank: z.string().optional().meta({ description: 'bank offers' }),
+    paymentTypes: z.array(paymentMethodType).optional().meta({ description: 'bank offers, empty means any' }),
+    emiOnly: z.boolean().optional().meta({ description: 'bank offers' }),
+    code: z.string().optional().meta({ description: 'coupons' }),
+    maxBonus: z.number().optional().meta({ description: 'exchange offers' }),
+    banks: z.array(z.string()).optional().meta({ description: 'no-cost EMI, empty means any credit card' }),
+    tenures: z.array(z.number().int()).optional().meta({ description: 'no-cost EMI, in months' }),
+}).meta({ id: 'Offer' });
+
+const effectivePriceSchema = z.object({
+    price: z.number(),
+    effectivePrice: z.number(),
+    savings: z.number(),
+    paymentMethod: paymentMethodSchema.optional().meta({ description: 'Absent when no bank offer is involved' }),
+    applied: z.array(z.object({ type: offerSchema.shape.type, description: z.string(), amount: z.number() })),
+    requiresEmi: z.boolean(),
+    noCostEmi: z.object({ paymentMethod: paymentMethodSchema, tenures: z.array(z.number().int()), monthlyPayment: z.number() }).optional(),
+}).meta({ id: 'EffectivePrice', description: 'What the user pays with their saved payment methods once offers are applied' });
+
+// Products
+
+const platformDataSchema = z.looseObject({
+    url: z.string(),
+    currentPrice: z.number(),
+    originalPrice: z.number().optional(),
+    discount: z.number().optional(),
+    offers: z.array(offerSchema).optional(),
+    effectivePrice: z.number().optional().meta({ description: 'After offers, for the owner\'s saved payment methods' }),
+    availability,
+    seller: z.string().optional(),
+    rating: z.number().optional(),
+    lastScraped: dateTime,
+    isActive: z.boolean(),
+}).meta({ id: 'PlatformData' });
+
+const discountAuthenticitySchema = z.object({
+    verdict: z.enum(['genuine', 'exaggerated', 'fake', 'no_discount', 'insufficient_data']),
+    claimedDiscount: z.number().nullable(),
+    actualDiscount: z.number().nullable().meta({ description: 'Percent below the typical price before the last 30 days, negative when above it' }),
+    referencePrice: z.number().nullable(),
+    lowestPrice: z.number().nullable(),
+    daysObserved: z.number().int(),
+    evidence: z.array(z.object({
+        type: z.enum(['discount_overstated', 'mrp_inflation', 'mrp_never_charged', 'pre_sale_hike']),
+        message: z.string(),
+    })),
+}).meta({ id: 'DiscountAuthenticity', description: 'Claimed discount checked against the tracked price history of the listing' });
+
+export const productSchema = z.looseObject({
+    _id: id,
+    title: z.string(),
+    brand: z.string().optional(),
+    category: z.string().optional(),
+    masterProductId: z.string().meta({ description: 'Shared catalog entry id, identical for every user tracking the same item' }),
+    platforms: z.record(z.string(), platformDataSchema),
+    selectedPlatforms: z.array(platform),
+    notes: z.string().optional(),
+    refreshIntervalMinutes: z.number().int().optional(),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+}).meta({ id: 'Product' });
+
+const productListItemSchema = z.object({
+    id,
+    title: z.string(),
+    brand: z.string().optional(),
+    category: z.string().optional(),
+    masterProductId: z.string(),
+    platformCount: z.number().int(),
+    activePlatforms: z.array(platform),
+    currentPrices: z.array(z.object({
+        platform,
+        price: z.number(),
+        availability,
+        seller: z.string().optional(),
+        rating: z.number().optional(),
+        url: z.string(),
+        lastScraped: dateTime,
+    })),
+    lowestPrice: z.number(),
+    highestPrice: z.number(),
+    averagePrice: z.number(),
+    priceRange: z.string(),
+    trackingStartDate: dateTime,
+    lastUpdated: dateTime,
+    notes: z.string().optional(),
+    availability: z.object({ inStock: z.number().int(), outOfStock: z.number().int(), limited: z.number().int() }),
+}).meta({ id: 'ProductListItem' });
+
+const priceRange = z.object({ min: z.number(), max: z.number() });
+
+const pricePredictionSchema = z.object({
+    nextWeekRange: priceRange,
+    nextMonthRange: priceRange,
+    expectedPrice: z.object({ nextWeek: z.number(), nextMonth: z.number() }).optional(),
+    intervalLevel: z.number().int().optional().meta({ description: 'Coverage of the ranges in percent' }),
+    confidence: z.number().int().min(0).max(100),
+    factors: z.array(z.string()),
+    bestTimeToBuy: z.string(),
+    seasonalTrends: z.object({ peak: z.string(), low: z.string(), current: z.enum(['peak', 'low', 'normal']) }).optional(),
+    basedOnDays: z.number().int().optional(),
+    explanation: z.string().optional().meta({ description: 'Written by the LLM from the computed forecast' }),
+}).meta({ id: 'PricePrediction', description: 'Statistical forecast from tracked price history' });
+
+const searchResultSchema = z.looseObject({
+    title: z.string(),
+    platform,
+    url: z.string(),
+    price: z.number(),
+    originalPrice: z.number().optional(),
+    discount: z.number().optional(),
+    discountAuthenticity: discountAuthenticitySchema,
+    offers: z.array(offerSchema).optional(),
+    pricing: effectivePriceSchema.optional(),
+}).meta({ id: 'SearchResult' });
+
+export const searchResponse = success({
+    message: z.string(),
+    searchId: z.string(),
+    results: z.array(searchResultSchema),
+    aiInsights: z.looseObject({
+        pricePrediction: pricePredictionSchema.nullable(),
+    }).optional().meta({ description: 'Present on fresh searches' }),
+    cachedAt: dateTime.optional().meta({ description: 'Present when the results come from a recent identical search' }),
+});
+
+const streamEvent = <T extends z.ZodType>(event: string, data: T, description: string) =>
+    z.object({ event: z.literal(event), data }).meta({ description });
+
+export const searchStreamEvent = z.union([
+    streamEvent('cached', z.object({ searchId: z.string(), results: z.array(searchResultSchema), cachedAt: dateTime }), 'Results of a recent identical search; the stream ends after it'),
+    streamEvent('results', z.object({ searchId: z.string(), results: z.array(searchResultSchema) }), 'Listings found across platforms, sent before any AI analysis'),
+    streamEvent('analysis', z.object({ marketAnalysis: z.looseObject({}).nullable() }), 'Market analysis with the best deal ranked on effective price'),
+    streamEvent('prediction', z.object({ pricePrediction: pricePredictionSchema.nullable() }), 'Price forecast'),
+    streamEvent('recommendation', z.object({ recommendations: z.looseObject({}).nullable() }), 'Buy or wait recommendation'),
+    streamEvent('done', z.object({ success: z.literal(true) }), 'Sent last when every step finished'),
+    streamEvent('error', problemSchema, 'Sent instead of the remaining events when a step fails'),
+]).meta({
+    id: 'SearchStreamEvent',
+    description: 'One Server-Sent Event: `event` is the frame\'s event name and `data` its JSON payload',
+});
+
+export const trackResponse = success({
+    message: z.string(),
+    product: z.object({
+        id,
+        title: z.string(),
+        masterProductId: z.string(),
+        platforms: z.record(z.string(), platformDataSchema),
+        selectedPlatforms: z.array(platform),
+    }),
+});
+
+export const productListResponse = success({
+    products: z.array(productListItemSchema),
+    pagination: pagination('totalProducts'),
+});
+
+export const productResponse = success({ message: z.string(), product: productSchema });
+
+export const productDetailResponse = success({
+    product: z.looseObject({
+        id,
+        title: z.string(),
+        brand: z.string().optional(),
+        category: z.string().optional(),
+        masterProductId: z.string(),
+        platforms: z.record(z.string(), platformDataSchema),
+        selectedPlatforms: z.array(platform),
+        trackingStartDate: dateTime,
+        notes: z.string().optional(),
+        createdAt: dateTime,
+        updatedAt: dateTime,
+    }),
+    discountAuthenticity: z.record(z.string(), discountAuthenticitySchema).meta({ description: 'Per active platform' }),
+});
+
+const priceBucketSchema = z.object({
+    time: dateTime,
+    min: z.number(),
+    max: z.number(),
+    avg: z.number(),
+    close: z.number().meta({ description: 'Last price observed in the bucket' }),
+    count: z.number().int(),
+}).meta({ id: 'PriceBucket' });
+
+export const priceHistoryResponse = success({
+    productTitle: z.string(),
+    granularity: z.enum(['raw', 'hour', 'day', 'week']),
+    series: z.record(z.string(), z.array(priceBucketSchema)).meta({ description: 'Buckets per platform, oldest first' }),
+    priceHistory: z.array(z.looseObject({
+        date: z.string(),
+        timestamp: z.number(),
+    }).meta({ description: 'One row per bucket, with the closing price keyed by platform' })),
+    dateRange: z.object({ from: dateTime, to: dateTime }),
+});
+
+const datedPrice = z.object({ price: z.number(), date: dateTime });
+
+const priceStatisticsSchema = z.object({
+    currentPrice: z.number().meta({ description: '0 when out of stock' }),
+    allTimeLow: datedPrice.nullable(),
+    allTimeHigh: datedPrice.nullable(),
+    average30d: z.number().nullable(),
+    average90d: z.number().nullable(),
+    percentile: z.number().int().min(0).max(100).nullable().meta({ description: 'Share of tracked days priced below the current price' }),
+    lastDropAt: dateTime.nullable(),
+    daysSinceLastDrop: z.number().int().nullable(),
+    trend: z.enum(['rising', 'falling', 'stable']),
+    volatility: z.enum(['low', 'medium', 'high']),
+    daysTracked: z.number().int(),
+    dealScore: z.object({
+        score: z.number().int().min(0).max(100),
+        label: z.enum(['great', 'good', 'fair', 'poor']),
+        confidence: z.enum(['low', 'medium', 'high']).meta({ description: 'Based on the number of tracked days' }),
+    }).nullable(),
+}).meta({ id: 'PriceStatistics' });
+
+export const effectivePriceResponse = success({
+    productTitle: z.string(),
+    paymentMethods: z.array(paymentMethodSchema),
+    platforms: z.array(effectivePriceSchema.extend({ platform, url: z.string(), offers: z.array(offerSchema) })).meta({ description: 'In-stock active platforms, cheapest first' }),
+    bestPlatform: platform.nullable(),
+});
+
+export const productAnalyticsResponse = success({
+    productTitle: z.string(),
+    trackingStartDate: dateTime,
+    platforms: z.record(z.string(), priceStatisticsSchema),
+    combined: priceStatisticsSchema,
+    generatedAt: dateTime,
+});
+
+// Alerts
+
+const alertSchema = z.looseObject({
+    _id: id,
+    product: id,
+    platform: platform.nullable(),
+    type: z.enum(ALERT_TYPES),
+    threshold: z.number().optional(),
+    baselinePrice: z.number().optional(),
+    isActive: z.boolean(),
+    lastTriggeredAt: dateTime.optional(),
+    triggerCount: z.number().int(),
+    createdAt: dateTime,
+}).meta({ id: 'AlertRule' });
+
+export const alertResponse = success({ message: z.string(), alert: alertSchema });
+export const alertListResponse = success({ alerts: z.array(alertSchema) });
+
+export const alertHistoryResponse = success({
+    events: z.array(z.looseObject({
+        _id: id,
+        rule: id,
+        platform,
+        type: z.enum(ALERT_TYPES),
+        price: z.number(),
+        previousPrice: z.number().optional(),
+        details: z.string(),
+        discountAuthenticity: discountAuthenticitySchema.optional(),
+        triggeredAt: dateTime,
+    }).meta({ id: 'AlertEvent' })),
+    pagination: pagination('totalEvents'),
+});
+
+// Watchlists
+
+const watchlistSchema = z.looseObject({
+    _id: id,
+    name: z.string(),
+    description: z.string().optional(),
+    isDefault: z.boolean(),
+    products: z.array(id),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+}).meta({ id: 'Watchlist' });
+
+export const watchlistResponse = success({ message: z.string(), watchlist: watchlistSchema });
+
+export const watchlistListResponse = success({
+    watchlists: z.array(z.object({
+        id,
+        name: z.string(),
+        description: z.string().optional(),
+        isDefault: z.boolean(),
+        productCount: z.number().int(),
+        createdAt: dateTime,
+        updatedAt: dateTime,
+    })),
+});
+
+export const watchlistProductsResponse = success({
+    watchlist: z.object({ id, name: z.string() }),
+    products: z.array(productSchema.extend({
+        currentPrices: z.record(z.string(), z.object({ price: z.number(), lastUpdated: dateTime })),
+    })),
+    pagination: pagination('totalProducts'),
+});
+
+// Sale events
+
+const saleEventSchema = z.looseObject({
+    _id: id,
+    name: z.string(),
+    platforms: z.array(platform).meta({ description: 'Empty means every platform' }),
+    categories: z.array(z.string()).meta({ description: 'Keywords matched against product categories, empty means every category' }),
+    startsAt: dateTime,
+    endsAt: dateTime,
+    typicalDiscount: z.object({ min: z.number(), max: z.number() }).optional().meta({ description: 'Percent' }),
+    notes: z.string().optional(),
+    isActive: z.boolean(),
+}).meta({ id: 'SaleEvent' });
+
+export const saleEventResponse = success({ message: z.string(), event: saleEventSchema });
+export const saleEventListResponse = success({ events: z.array(saleEventSchema) });
+
+// Payment methods
+
+export const paymentMethodListResponse = success({ paymentMethods: z.array(paymentMethodSchema) });
+export const updatePaymentMethodsResponse = success({
+    message: z.string(),
+    paymentMethods: z.array(paymentMethodSchema),
+    repricedProducts: z.number().int().meta({ description: 'Tracked products whose effective prices changed' }),
+});
+export const supportedBanksResponse = success({ banks: z.array(z.object({ id: z.string(), name: z.string() })) });
+
+// Notifications
+
+const notificationSchema = z.looseObject({
+    _id: id,
+    type: z.string(),
+    title: z.string(),
+    message: z.string(),
+    data: z.record(z.string(), z.unknown()).optional(),
+    readAt: dateTime.nullable(),
+    createdAt: dateTime,
+}).meta({ id: 'Notification' });
+
+const notificationPreferencesSchema = z.object({
+    email: z.object({ enabled: z.boolean() }),
+    inApp: z.object({ enabled: z.boolean() }),
+    webhook: z.object({ enabled: z.boolean(), url: z.string().optional() }),
+}).meta({ id: 'NotificationPreferences' });
+
+export const notificationListResponse = success({
+    notifications: z.array(notificationSchema),
+    unreadCount: z.number().int(),
+    pagination: pagination('totalNotifications'),
+});
+
+export const unreadCountResponse = success({ unreadCount: z.number().int() });
+export const notificationResponse = success({ notification: notificationSchema });
+export const markAllReadResponse = success({ message: z.string(), updated: z.number().int() });
+export const preferencesResponse = success({ preferences: notificationPreferencesSchema });
+
+export const updatePreferencesResponse = success({
+    message: z.string(),
+    preferences: notificationPreferencesSchema,
+    webhookSecret: z.string().optional().meta({ description: 'Only returned when a new signing secret is generated' }),
+});
+
+// Workflow runs
+
+const workflowRunSummarySchema = z.looseObject({
+    runId: z.string(),
+    user: id,
+    query: z.string(),
+    status: z.enum(['running', 'completed', 'failed', 'cancelled']),
+    provider: z.object({ name: z.string(), model: z.string() }),
+    replayOf: z.string().optional(),
+    searchId: z.string().optional(),
+    error: z.object({ message: z.string(), code: z.string().optional() }).optional(),
+    startedAt: dateTime,
+    finishedAt: dateTime.optional(),
+    durationMs: z.number().optional(),
+}).meta({ id: 'WorkflowRunSummary' });
+
+const workflowRunSchema = workflowRunSummarySchema.extend({
+    steps: z.array(z.object({
+        node: z.string(),
+        status: z.enum(['completed', 'failed']),
+        startedAt: dateTime,
+        durationMs: z.number(),
+        update: z.looseObject({}).optional().meta({ description: 'State update returned by the node' }),
+        error: z.string().optional(),
+    })),
+    llmCalls: z.array(z.object({
+        node: z.string().optional(),
+        feature: z.string(),
+        provider: z.string(),
+        model: z.string(),
+        prompt: z.string(),
+        output: z.string().optional().meta({ description: 'Raw model text before parsing' }),
+        usage: z.object({ inputTokens: z.number(), outputTokens: z.number() }).optional(),
+        cached: z.boolean().optional().meta({ description: 'Answered from the response cache' }),
+        startedAt: dateTime,
+        durationMs: z.number(),
+        error: z.string().optional(),
+    })),
+    messages: z.array(z.string()),
+    result: z.looseObject({}).optional().meta({ description: 'Final workflow state' }),
+}).meta({ id: 'WorkflowRun' });
+
+export const workflowRunListResponse = success({
+    runs: z.array(workflowRunSummarySchema),
+    pagination: pagination('totalRuns'),
+});
+
+export const workflowRunResponse = success({
+    run: workflowRunSchema,
+    checkpoints: z.array(z.object({
+        checkpointId: z.string(),
+        step: z.number().int().optional(),
+        source: z.string().optional(),
+        createdAt: dateTime.optional(),
+        next: z.array(z.string()).meta({ description: 'Nodes scheduled after this checkpoint' }),
+        values: z.looseObject({}).meta({ description: 'Full workflow state at this checkpoint' }),
+    })),
+});
+
+export const workflowReplayResponse = success({
+    message: z.string(),
+    replay: workflowRunSchema,
+    comparison: z.object({
+        originalRunId: z.string(),
+        originalStatus: z.string(),
+        replayStatus: z.string(),
+        changedOutputs: z.array(z.string()).meta({ description: 'Final state fields that differ from the original run' }),
+        replayedCalls: z.number().int().meta({ description: 'LLM calls answered with the recorded output' }),
+        unmatchedCalls: z.number().int().meta({ description: 'LLM calls whose prompt was not recorded, answered by the mock' }),
+    }),
+});
+
+// LLM cache
+
+export const llmCacheStatsResponse = success({
+    enabled: z.boolean(),
+    since: dateTime.nullable().meta({ description: 'When counting started, null before the first request' }),
+    features: z.array(z.object({
+        feature: z.enum(['search', 'analysis', 'prediction', 'extraction']),
+        hits: z.number().int(),
+        shared: z.number().int().meta({ description: 'Requests that joined an identical call already in flight' }),
+        misses: z.number().int(),
+        hitRate: z.number().nullable().meta({ description: 'Percent of requests answered without a new model call' }),
+        entries: z.number().int(),
+        ttlSeconds: z.number().int(),
+    })),
+});
+
+// Usage
+
+export const usageResponse = success({
+    scope: z.enum(['user', 'all']),
+    since: z.string().meta({ description: 'First UTC day counted, YYYY-MM-DD' }),
+    stats: z.object({
+        totalRequests: z.number().int(),
+        successfulRequests: z.number().int(),
+        failedRequests: z.number().int(),
+        averageResponseTime: z.number().int().meta({ description: 'Milliseconds' }),
+        requestsToday: z.number().int(),
+        requestsThisWeek: z.number().int().meta({ description: 'Last 7 days including today' }),
+        remainingQuota: z.number().int().meta({ description: 'Requests left today under the daily quota and, for a user, their daily budget' }),
+    }),
+    tokens: z.object({ input: z.number().int(), output: z.number().int() }),
+    estimatedCostUsd: z.object({ today: z.number(), thisWeek: z.number(), total: z.number() }),
+    features: z.array(z.object({
+        feature: z.enum(['search', 'analysis', 'prediction', 'extraction']),
+        requests: z.number().int(),
+        failed: z.number().int(),
+        refused: z.number().int().meta({ description: 'Calls refused by the rate limit or a budget' }),
+        inputTokens: z.number().int(),
+        outputTokens: z.number().int(),
+        estimatedCostUsd: z.number(),
+        averageResponseTime: z.number().int(),
+    })),
+    limits: z.object({
+        requestsPerMinute: z.number().int(),
+        requestsPerDay: z.number().int(),
+        userRequestsPerDay: z.number().int().optional(),
+        userCostPerDayUsd: z.number().optional(),
+        remainingBudgetUsd: z.number().optional(),
+    }),
+});
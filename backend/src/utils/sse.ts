@@ -0,0 +1,45 @@
+import type { Request, Response } from 'express';
+
+export const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+export interface EventStream {
+    send(event: string, data: unknown): void;
+    close(): void;
+    // Aborted when the client disconnects before the stream is closed
+    readonly signal: AbortSignal;
+}
+
+// Switches the response to Server-Sent Events. A comment line is written every
+// `heartbeatMs` so proxies do not drop the connection while a slow step runs.
+export const openEventStream = (req: Request, res: Response, heartbeatMs = 15000): EventStream => {
+    const controller = new AbortController();
+    let nextId = 1;
+
+    res.status(200).set({
+        'Content-Type': `${EVENT_STREAM_CONTENT_TYPE}; charset=utf-8`,
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        // Stops nginx from buffering the stream
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), heartbeatMs);
+    // 'close' also fires after a normal end, only an unfinished response means the client left
+    res.on('close', () => {
+        clearInterval(heartbeat);
+        if (!res.writableEnded) controller.abort(new Error(`Client disconnected from ${req.originalUrl}`));
+    });
+
+    return {
+        signal: controller.signal,
+        send(event, data) {
+            if (res.writableEnded || controller.signal.aborted) return;
+            res.write(`id: ${nextId++}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        },
+        close() {
+            clearInterval(heartbeat);
+            if (!res.writableEnded) res.end();
+        },
+    };
+};
@@ -0,0 +1,100 @@
+import request from 'supertest';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Express } from 'express';
+
+// Building the app must not open connections; any Redis client or Bull queue created
+// while importing the routes or serving these requests fails the test
+const connections = vi.hoisted(() => ({ redis: 0, queues: 0 }));
+vi.mock('ioredis', () => ({
+  Redis: vi.fn(() => {
+    connections.redis++;
+    throw new Error('Redis client created');
+  }),
+}));
+vi.mock('bull', () => ({
+  default: vi.fn(() => {
+    connections.queues++;
+    throw new Error('Bull queue created');
+  }),
+}));
+
+const { createApp } = await import('../src/app.js');
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp({ NODE_ENV: 'test', CLIENT_URL: 'http://localhost:5173', OAUTH_PROVIDER: 'mock' });
+});
+
+describe('createApp', () => {
+  it('serves the health check without opening Redis or queue connections', async () => {
+    const res = await request(app).get('/api/health');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ success: true, status: 'ok' });
+    expect(connections).toEqual({ redis: 0, queues: 0 });
+  });
+
+  it('serves the OpenAPI document for every mounted router', async () => {
+    const res = await request(app).get('/api/openapi.json');
+
+    expect(res.status).toBe(200);
+    expect(res.body.openapi).toMatch(/^3\.1/);
+    expect(Object.keys(res.body.paths)).toEqual(expect.arrayContaining(['/api/auth/login', '/api/products/track', '/api/usage']));
+  });
+
+  it('answers unknown routes with problem details', async () => {
+    const res = await request(app).get('/api/does-not-exist');
+
+    expect(res.status).toBe(404);
+    expect(res.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(res.body).toMatchObject({
+      status: 404,
+      code: 'ROUTE_NOT_FOUND',
+      instance: '/api/does-not-exist',
+      success: false,
+    });
+  });
+});
+
+describe('authentication', () => {
+  it('rejects requests without a bearer token', async () => {
+    const res = await request(app).get('/api/auth/me');
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('TOKEN_MISSING');
+  });
+
+  it('rejects tokens that do not verify', async () => {
+    const res = await request(app).get('/api/auth/me').set('Authorization', 'Bearer not-a-jwt');
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('TOKEN_INVALID');
+  });
+
+  it('rejects a refresh without the refresh token cookie', async () => {
+    const res = await request(app).post('/api/auth/refresh-token');
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('REFRESH_TOKEN_MISSING');
+  });
+});
+
+describe('request validation', () => {
+  it('reports every invalid field', async () => {
+    const res = await request(app).post('/api/auth/login').send({ email: 'not-an-email' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('VALIDATION_FAILED');
+    expect(res.body.errors.map((issue: { path: string }) => issue.path)).toEqual(
+      expect.arrayContaining([expect.stringContaining('email'), expect.stringContaining('password')])
+    );
+  });
+
+  it('rejects malformed JSON bodies', async () => {
+    const res = await request(app).post('/api/auth/login').set('Content-Type', 'application/json').send('{"email":');
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('MALFORMED_JSON');
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// ioredis-mock keeps data in memory and has no connection state, so it is always ready
+vi.mock('ioredis', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  return { Redis: class extends (RedisMock as any) { status = 'ready'; } };
+});
+
+const { getRedis } = await import('../../src/config/redisConfig.js');
+const { cachedAnswer } = await import('../../src/services/llm/responseCache.js');
+
+// A load the test settles by hand, recording the signal it ran under
+const deferredLoad = () => {
+  const load = {
+    calls: 0,
+    signal: undefined as AbortSignal | undefined,
+    resolve: (_value: string) => {},
+    run: (signal?: AbortSignal) => {
+      load.calls++;
+      load.signal = signal;
+      return new Promise<string>(resolve => { load.resolve = resolve; });
+    },
+  };
+  return load;
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 10));
+
+afterEach(async () => {
+  await getRedis().flushall();
+});
+
+describe('cachedAnswer', () => {
+  it('keeps serving other callers when the caller that started the load aborts', async () => {
+    const load = deferredLoad();
+    const first = new AbortController();
+
+    const firstAnswer = cachedAnswer('search', 'model', 'same prompt', load.run, first.signal);
+    await tick();
+    const secondAnswer = cachedAnswer('search', 'model', 'same prompt', load.run, new AbortController().signal);
+
+    first.abort(new Error('client went away'));
+    await expect(firstAnswer).rejects.toThrow('client went away');
+    expect(load.signal?.aborted).toBe(false);
+
+    load.resolve('answer');
+    await expect(secondAnswer).resolves.toEqual({ value: 'answer', cached: true });
+    expect(load.calls).toBe(1);
+  });
+
+  it('aborts the shared load once every caller has gone', async () => {
+    const load = deferredLoad();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const answers = [
+      cachedAnswer('analysis', 'model', 'abandoned', load.run, first.signal),
+      cachedAnswer('analysis', 'model', 'abandoned', load.run, second.signal),
+    ];
+    await tick();
+
+    first.abort(new Error('first left'));
+    expect(load.signal?.aborted).toBe(false);
+    second.abort(new Error('second left'));
+    expect(load.signal?.aborted).toBe(true);
+    await expect(Promise.all(answers)).rejects.toThrow('first left');
+  });
+
+  it('stops waiting on another instance when the caller aborts', async () => {
+    // Another instance holds the lock for every key
+    const realSet = getRedis().set.bind(getRedis());
+    const set = vi.spyOn(getRedis(), 'set').mockImplementation(((key: string, ...args: any[]) =>
+      key.includes(':lock:') ? Promise.resolve(null) : (realSet as any)(key, ...args)) as any);
+    const load = deferredLoad();
+    const caller = new AbortController();
+
+    const answer = cachedAnswer('prediction', 'model', 'locked elsewhere', load.run, caller.signal);
+    await tick();
+    const startedAt = Date.now();
+    caller.abort(new Error('node timed out'));
+
+    await expect(answer).rejects.toThrow('node timed out');
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(load.calls).toBe(0);
+    set.mockRestore();
+  });
+});
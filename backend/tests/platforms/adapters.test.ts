@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { getAdapterForUrl, platformAdapters } from '../../src/services/platforms/adapters.js';
+
+describe('getAdapterForUrl', () => {
+  it.each([
+    ['https://www.amazon.in/dp/B09XS7JWHH', 'amazon'],
+    ['https://amzn.in/d/4Xyz1Ab', 'amazon'],
+    ['https://amzn.to/3AbCdEf', 'amazon'],
+    ['https://dl.flipkart.com/s/abc123', 'flipkart'],
+    ['https://www.myntra.com/1376577', 'myntra'],
+    ['https://www.meesho.com/x/p/3x9k2l', 'meesho'],
+    ['https://www.nykaafashion.com/p/204459', 'nykaa'],
+    ['https://www.ajio.com/x/p/469157823_blue', 'ajio'],
+  ])('maps %s to %s', (url, platform) => {
+    expect(getAdapterForUrl(url)?.platform).toBe(platform);
+  });
+
+  it('does not match hosts that only contain a platform name', () => {
+    expect(getAdapterForUrl('https://notamazon.in/dp/B09XS7JWHH')).toBeUndefined();
+    expect(getAdapterForUrl('https://example.com/?ref=flipkart.com')).toBeUndefined();
+    expect(getAdapterForUrl('not a url')).toBeUndefined();
+  });
+});
+
+describe('platform adapters', () => {
+  it.each(platformAdapters.map(adapter => [adapter.platform, adapter] as const))('%s returns null for a page without a product', (_platform, adapter) => {
+    expect(adapter.parse('<html><head><title>Robot Check</title></head><body></body></html>', `https://${adapter.hosts[0]}/`)).toBeNull();
+  });
+});
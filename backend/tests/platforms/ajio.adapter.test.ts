@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { ajioAdapter } from '../../src/services/platforms/ajio.adapter.js';
+import { loadFixture } from './fixture.js';
+
+const URL = 'https://www.ajio.com/levis-511-slim-fit-jeans/p/469157823_blue';
+
+describe('ajioAdapter', () => {
+  it('parses the preloaded state', () => {
+    const product = ajioAdapter.parse(loadFixture('ajio'), URL);
+
+    expect(product).toMatchObject({
+      platform: 'ajio',
+      url: URL,
+      title: 'Men 511 Slim Fit Mid-Wash Jeans',
+      brand: 'LEVIS',
+      category: 'Jeans',
+      price: 2099,
+      originalPrice: 3499,
+      discount: 40,
+      availability: 'limited_stock',
+      rating: 4.2,
+      reviews: 1200,
+    });
+  });
+
+  it('falls back to the rendered markup without the preloaded state', () => {
+    const html = loadFixture('ajio').replace(/<script>[\s\S]*?<\/script>/, '');
+
+    expect(ajioAdapter.parse(html, URL)).toMatchObject({
+      title: '511 Slim Fit Mid-Wash Jeans',
+      brand: 'LEVIS',
+      price: 2099,
+      originalPrice: 3499,
+    });
+  });
+
+  it('takes the product code from the URL', () => {
+    expect(ajioAdapter.productId(URL)).toBe('469157823_blue');
+  });
+});
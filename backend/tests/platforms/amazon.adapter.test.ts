@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { amazonAdapter } from '../../src/services/platforms/amazon.adapter.js';
+import { loadFixture } from './fixture.js';
+
+const URL = 'https://www.amazon.in/Sony-WH-1000XM5/dp/B09XS7JWHH?th=1';
+
+describe('amazonAdapter', () => {
+  it('parses the product page', () => {
+    const product = amazonAdapter.parse(loadFixture('amazon'), URL);
+
+    expect(product).toMatchObject({
+      platform: 'amazon',
+      url: URL,
+      title: 'Sony WH-1000XM5 Wireless Noise Cancelling Headphones, 30 Hours Battery (Black)',
+      brand: 'Sony',
+      category: 'Over-Ear',
+      price: 26990,
+      originalPrice: 34990,
+      discount: 23,
+      availability: 'in_stock',
+      seller: 'Appario Retail Private Ltd',
+      rating: 4.4,
+      reviews: 12345,
+      image: 'https://m.media-amazon.com/images/I/large.jpg',
+      modelNumber: 'WH-1000XM5/B',
+    });
+    expect(product?.features).toHaveLength(3);
+  });
+
+  it('reads bank and no-cost EMI offers', () => {
+    const offers = amazonAdapter.parse(loadFixture('amazon'), URL)?.offers;
+
+    expect(offers).toEqual([
+      expect.objectContaining({ type: 'bank', bank: 'hdfc', kind: 'flat', value: 2000, minSpend: 15000, paymentTypes: ['credit_card'] }),
+      expect.objectContaining({ type: 'no_cost_emi', tenures: [3, 6] }),
+    ]);
+  });
+
+  it('takes the ASIN from the URL', () => {
+    expect(amazonAdapter.productId(URL)).toBe('B09XS7JWHH');
+    expect(amazonAdapter.productId('https://www.amazon.in/gp/product/b09xs7jwhh/ref=ox_sc')).toBe('B09XS7JWHH');
+    expect(amazonAdapter.productId('https://amzn.in/d/4Xyz1Ab')).toBeUndefined();
+  });
+});
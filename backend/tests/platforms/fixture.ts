@@ -0,0 +1,8 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const FIXTURES = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures/platforms');
+
+// Product pages in each platform's markup, trimmed to what the adapters read
+export const loadFixture = (name: string) => fs.readFileSync(path.join(FIXTURES, `${name}.html`), 'utf8');
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { flipkartAdapter } from '../../src/services/platforms/flipkart.adapter.js';
+import { loadFixture } from './fixture.js';
+
+const URL = 'https://www.flipkart.com/apple-iphone-15-blue-128-gb/p/itmbf14ef54f645d?pid=MOBGTAGPAQNVFZZY';
+
+describe('flipkartAdapter', () => {
+  it('parses the product page, filling gaps from JSON-LD', () => {
+    const product = flipkartAdapter.parse(loadFixture('flipkart'), URL);
+
+    expect(product).toMatchObject({
+      platform: 'flipkart',
+      url: URL,
+      title: 'Apple iPhone 15 (Blue, 128 GB)',
+      brand: 'Apple',
+      category: 'Mobiles',
+      price: 65999,
+      originalPrice: 69900,
+      discount: 6,
+      availability: 'in_stock',
+      seller: 'SuperComNet',
+      rating: 4.6,
+      reviews: 152431,
+      gtin: '0195949036347',
+      modelNumber: 'MTP43HN/A',
+    });
+  });
+
+  it('reads bank and exchange offers and skips prices that already include the discount', () => {
+    const offers = flipkartAdapter.parse(loadFixture('flipkart'), URL)?.offers;
+
+    expect(offers).toEqual([
+      expect.objectContaining({ type: 'bank', bank: 'sbi', kind: 'percent', value: 10, maxDiscount: 1500, minSpend: 5000 }),
+      expect.objectContaining({ type: 'exchange', maxBonus: 20000 }),
+    ]);
+  });
+
+  it('prefers the pid query parameter over the item id in the path', () => {
+    expect(flipkartAdapter.productId(URL)).toBe('MOBGTAGPAQNVFZZY');
+    expect(flipkartAdapter.productId('https://www.flipkart.com/apple-iphone-15/p/itmbf14ef54f645d')).toBe('itmbf14ef54f645d');
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { meeshoAdapter } from '../../src/services/platforms/meesho.adapter.js';
+import { loadFixture } from './fixture.js';
+
+const URL = 'https://www.meesho.com/trendy-women-kurta-set/p/3x9k2l';
+
+describe('meeshoAdapter', () => {
+  it('finds the product in __NEXT_DATA__', () => {
+    const product = meeshoAdapter.parse(loadFixture('meesho'), URL);
+
+    expect(product).toMatchObject({
+      platform: 'meesho',
+      url: URL,
+      title: 'Trendy Women Rayon Kurta Set',
+      category: 'Kurta Sets',
+      price: 349,
+      originalPrice: 599,
+      discount: 42,
+      availability: 'in_stock',
+      seller: 'Shree Fashion',
+      rating: 3.9,
+      reviews: 1834,
+    });
+  });
+
+  it('falls back to the rendered markup without __NEXT_DATA__', () => {
+    const html = loadFixture('meesho').replace(/<script id="__NEXT_DATA__"[\s\S]*?<\/script>/, '');
+
+    expect(meeshoAdapter.parse(html, URL)).toMatchObject({ title: 'Trendy Women Kurta Set', price: 349 });
+  });
+
+  it('takes the product id from the URL', () => {
+    expect(meeshoAdapter.productId(URL)).toBe('3x9k2l');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { myntraAdapter } from '../../src/services/platforms/myntra.adapter.js';
+import { loadFixture } from './fixture.js';
+
+const URL = 'https://www.myntra.com/shirts/roadster/roadster-men-navy-shirt/1376577/buy';
+
+describe('myntraAdapter', () => {
+  it('parses the embedded product state', () => {
+    const product = myntraAdapter.parse(loadFixture('myntra'), URL);
+
+    expect(product).toMatchObject({
+      platform: 'myntra',
+      url: URL,
+      title: 'Roadster Men Navy Blue Checked Cotton Casual Shirt',
+      brand: 'Roadster',
+      category: 'Shirts',
+      price: 599,
+      originalPrice: 1499,
+      discount: 60,
+      availability: 'in_stock',
+      seller: 'Flashstar Commerce',
+      rating: 4.18,
+      reviews: 24187,
+      image: 'https://assets.myntassets.com/h_720/1376577/1.jpg',
+    });
+  });
+
+  it('falls back to the rendered markup without the state blob', () => {
+    const html = loadFixture('myntra').replace(/<script>[\s\S]*?<\/script>/, '');
+
+    expect(myntraAdapter.parse(html, URL)).toMatchObject({
+      title: 'Men Navy Blue Checked Cotton Casual Shirt',
+      brand: 'Roadster',
+      price: 599,
+      originalPrice: 1499,
+    });
+  });
+
+  it('takes the style id from the URL', () => {
+    expect(myntraAdapter.productId(URL)).toBe('1376577');
+    expect(myntraAdapter.productId('https://www.myntra.com/1376577')).toBe('1376577');
+  });
+});
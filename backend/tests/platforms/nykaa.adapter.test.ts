@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { nykaaAdapter } from '../../src/services/platforms/nykaa.adapter.js';
+import { loadFixture } from './fixture.js';
+
+const URL = 'https://www.nykaa.com/maybelline-fit-me-foundation/p/204459?skuId=204459';
+
+describe('nykaaAdapter', () => {
+  it('parses the preloaded state', () => {
+    const product = nykaaAdapter.parse(loadFixture('nykaa'), URL);
+
+    expect(product).toMatchObject({
+      platform: 'nykaa',
+      url: URL,
+      title: 'Maybelline New York Fit Me Matte + Poreless Liquid Foundation - 128 Warm Nude (30ml)',
+      brand: 'Maybelline New York',
+      category: 'Makeup',
+      price: 449,
+      originalPrice: 599,
+      discount: 25,
+      availability: 'in_stock',
+      rating: 4.3,
+      reviews: 98211,
+    });
+  });
+
+  it('falls back to the rendered markup without the preloaded state', () => {
+    const html = loadFixture('nykaa').replace(/<script>[\s\S]*?<\/script>/, '');
+
+    expect(nykaaAdapter.parse(html, URL)).toMatchObject({ price: 449, originalPrice: 599, discount: 25 });
+  });
+
+  it('takes the product id from the path or the productId parameter', () => {
+    expect(nykaaAdapter.productId(URL)).toBe('204459');
+    expect(nykaaAdapter.productId('https://www.nykaa.com/product?productId=204459')).toBe('204459');
+  });
+});
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Only what importing the app needs; nothing here points at a real database
+    env: {
+      NODE_ENV: 'test',
+      MONGO_URI: 'mongodb://127.0.0.1:27017/price-tracker-test',
+      JWT_SECRET: 'test-secret',
+      JWT_ACCESS_SECRET: 'test-access-secret',
+      JWT_REFRESH_SECRET: 'test-refresh-secret',
+      JWT_EMAIL_SECRET: 'test-email-secret',
+      LLM_PROVIDER: 'mock',
+      OAUTH_PROVIDER: 'mock',
+    },
+  },
+});